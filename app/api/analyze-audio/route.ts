@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
 import { analyzeAudio, NO_AI_PROVIDER_MESSAGE } from '@/lib/ai/service';
+import { parseModelPreference } from '@/lib/ai/provider-router';
 
 function isUnavailableError(message: string): boolean {
   return (
@@ -10,6 +12,9 @@ function isUnavailableError(message: string): boolean {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
     const { audio, level, mode, location, model } = body;
@@ -21,7 +26,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await analyzeAudio(audio, level, location, mode ?? 'Daily', model);
+    const result = await analyzeAudio(audio, level, location, mode ?? 'Daily', parseModelPreference(model));
 
     return NextResponse.json(result);
   } catch (error: any) {
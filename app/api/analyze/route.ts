@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
 import { analyzeScene, NO_AI_PROVIDER_MESSAGE } from '@/lib/ai/service';
+import { parseModelPreference } from '@/lib/ai/provider-router';
+import { AIOutputValidationError } from '@/lib/ai/schemas';
 
 function isUnavailableError(message: string): boolean {
   return (
@@ -10,6 +13,9 @@ function isUnavailableError(message: string): boolean {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
     const { image, level, mode, location, model } = body;
@@ -21,10 +27,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await analyzeScene(image, level, location, mode ?? 'Daily', model);
+    const { data, provider } = await analyzeScene(
+      image,
+      level,
+      location,
+      mode ?? 'Daily',
+      parseModelPreference(model)
+    );
 
-    return NextResponse.json(result);
+    return NextResponse.json({ ...data, provider });
   } catch (error: any) {
+    if (error instanceof AIOutputValidationError) {
+      console.error('Analyze API invalid AI output:', error.issues);
+      return NextResponse.json(
+        { error: 'AI returned an invalid response. Please try again.', issues: error.issues },
+        { status: 502 }
+      );
+    }
     const message = error?.message || 'Internal server error';
     console.error('Analyze API error:', error);
     const status = isUnavailableError(message) ? 503 : 500;
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
+import { adaptScenarioDifficulty } from '@/lib/ai/service';
+import { parseModelPreference } from '@/lib/ai/provider-router';
+import { AIOutputValidationError } from '@/lib/ai/schemas';
+import type { ScenarioAttemptSummary } from '@/lib/types';
+
+function isUnavailableError(message: string): boolean {
+  return message.includes('No AI provider') || message.includes('All AI providers failed');
+}
+
+function numberList(value: unknown): number[] {
+  return Array.isArray(value) ? value.filter((n): n is number => typeof n === 'number').slice(0, 10) : [];
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string').slice(0, 10) : [];
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json();
+    const { scenario, summary, direction, targetDifficulty, level, model } = body;
+
+    if (
+      !scenario ||
+      typeof scenario.context !== 'string' ||
+      (direction !== 'harder' && direction !== 'easier') ||
+      typeof targetDifficulty !== 'string' ||
+      level == null ||
+      level === ''
+    ) {
+      return NextResponse.json(
+        { error: 'Missing required fields: scenario, direction, targetDifficulty, level' },
+        { status: 400 }
+      );
+    }
+
+    const attempts: ScenarioAttemptSummary = {
+      attempts: typeof summary?.attempts === 'number' ? summary.attempts : 0,
+      averageScore: typeof summary?.averageScore === 'number' ? summary.averageScore : 0,
+      recentScores: numberList(summary?.recentScores),
+      recurringErrors: stringList(summary?.recurringErrors),
+      missedGoals: stringList(summary?.missedGoals),
+    };
+
+    const { data: adaptation, provider } = await adaptScenarioDifficulty(
+      {
+        location: String(scenario.location ?? ''),
+        situation: String(scenario.situation ?? ''),
+        role_name: String(scenario.role_name ?? ''),
+        context: scenario.context,
+        goals: stringList(scenario.goals),
+        difficulty: String(scenario.difficulty ?? ''),
+      },
+      attempts,
+      direction,
+      targetDifficulty,
+      level,
+      parseModelPreference(model)
+    );
+
+    return NextResponse.json({ ...adaptation, provider });
+  } catch (error: any) {
+    if (error instanceof AIOutputValidationError) {
+      console.error('Scenario adapt API invalid AI output:', error.issues);
+      return NextResponse.json(
+        { error: 'AI returned an invalid response. Please try again.', issues: error.issues },
+        { status: 502 }
+      );
+    }
+    const message = error?.message || 'Internal server error';
+    console.error('Scenario adapt API error:', error);
+    const status = isUnavailableError(message) ? 503 : 500;
+    return NextResponse.json(
+      { error: status === 503 ? 'AI service unavailable. Please check your API keys and try again.' : message },
+      { status }
+    );
+  }
+}
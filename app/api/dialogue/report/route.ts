@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
+import { generateDialogueReport } from '@/lib/ai/service';
+import { parseModelPreference } from '@/lib/ai/provider-router';
+import { AIOutputValidationError } from '@/lib/ai/schemas';
+
+function isUnavailableError(message: string): boolean {
+  return message.includes('No AI provider') || message.includes('All AI providers failed');
+}
+
+const MAX_TURNS = 40;
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json();
+    const { scenarioContext, goals, turns, level, model } = body;
+
+    const learnerTurns = Array.isArray(turns)
+      ? turns
+          .filter((t: unknown): t is { text: string; grammar?: unknown } =>
+            !!t && typeof (t as { text?: unknown }).text === 'string'
+          )
+          .map((t) => ({ text: t.text.slice(0, 1000), grammar: typeof t.grammar === 'string' ? t.grammar : undefined }))
+          .slice(-MAX_TURNS)
+      : [];
+    if (learnerTurns.length === 0 || level == null || level === '') {
+      return NextResponse.json({ error: 'Missing required fields: turns, level' }, { status: 400 });
+    }
+
+    const { data: report, provider } = await generateDialogueReport(
+      typeof scenarioContext === 'string' ? scenarioContext : 'General conversation practice.',
+      Array.isArray(goals) ? goals.filter((g: unknown): g is string => typeof g === 'string').slice(0, 10) : [],
+      learnerTurns,
+      level,
+      parseModelPreference(model)
+    );
+
+    return NextResponse.json({ ...report, provider });
+  } catch (error: any) {
+    if (error instanceof AIOutputValidationError) {
+      console.error('Dialogue report API invalid AI output:', error.issues);
+      return NextResponse.json(
+        { error: 'AI returned an invalid response. Please try again.', issues: error.issues },
+        { status: 502 }
+      );
+    }
+    const message = error?.message || 'Internal server error';
+    console.error('Dialogue report API error:', error);
+    const status = isUnavailableError(message) ? 503 : 500;
+    return NextResponse.json(
+      { error: status === 503 ? 'AI service unavailable. Please check your API keys and try again.' : message },
+      { status }
+    );
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
 import { continueDialogue, NO_AI_PROVIDER_MESSAGE } from '@/lib/ai/service';
+import { hasAnyProvider, parseModelPreference } from '@/lib/ai/provider-router';
+import { AIOutputValidationError } from '@/lib/ai/schemas';
+import { parseGoalProgress } from '@/lib/utils/dialogueGoals';
 
 function isUnavailableError(message: string): boolean {
   return (
@@ -9,10 +13,38 @@ function isUnavailableError(message: string): boolean {
   );
 }
 
+/** Same status/body mapping for plain JSON errors and the SSE `error` event. */
+function toErrorPayload(error: any): { status: number; body: { error: string; issues?: string[] } } {
+  if (error instanceof AIOutputValidationError) {
+    console.error('Dialogue API invalid AI output:', error.issues);
+    return {
+      status: 502,
+      body: { error: 'AI returned an invalid response. Please try again.', issues: error.issues },
+    };
+  }
+  const message = error?.message || 'Internal server error';
+  console.error('Dialogue API error:', error);
+  const status = isUnavailableError(message) ? 503 : 500;
+  return {
+    status,
+    body: { error: status === 503 ? 'AI service unavailable. Please check your API keys and try again.' : message },
+  };
+}
+
+/**
+ * Streams the reply as server-sent events:
+ * - `token`: { text } — next characters of `next_response`
+ * - `reset`: {} — provider fell back mid-reply; clear the text shown so far
+ * - `done`: full DialogueResponse + provider (its next_response is authoritative)
+ * - `error`: { error, status, issues? }
+ */
 export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
-    const { history, userText, scenarioContext, level } = body;
+    const { history, userText, scenarioContext, goals, level, model } = body;
 
     if (!Array.isArray(history) || typeof userText !== 'string' || level == null || level === '') {
       return NextResponse.json(
@@ -21,18 +53,73 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Fail fast with a real status code while we still can (before the stream starts)
+    if (!hasAnyProvider()) {
+      throw new Error(NO_AI_PROVIDER_MESSAGE);
+    }
+
     const context = typeof scenarioContext === 'string' ? scenarioContext : 'General conversation practice.';
+    const encoder = new TextEncoder();
+    // Set when the client disconnects: stop the providers and write nothing more
+    const abort = new AbortController();
+    let closed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+          } catch {
+            closed = true;
+            abort.abort();
+          }
+        };
 
-    const result = await continueDialogue(history, userText, context, level);
+        try {
+          const { data, provider } = await continueDialogue(
+            history,
+            userText,
+            context,
+            parseGoalProgress(goals),
+            level,
+            parseModelPreference(model),
+            {
+              onToken: (text) => send('token', { text }),
+              onReset: () => send('reset', {}),
+              signal: abort.signal,
+            }
+          );
+          send('done', { ...data, provider });
+        } catch (error: any) {
+          if (abort.signal.aborted) {
+            console.log('🔌 Dialogue client disconnected before the reply finished');
+          } else {
+            const { status, body: errorBody } = toErrorPayload(error);
+            send('error', { ...errorBody, status });
+          }
+        } finally {
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        }
+      },
+      cancel() {
+        closed = true;
+        abort.abort();
+      },
+    });
 
-    return NextResponse.json(result);
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
   } catch (error: any) {
-    const message = error?.message || 'Internal server error';
-    console.error('Dialogue API error:', error);
-    const status = isUnavailableError(message) ? 503 : 500;
-    return NextResponse.json(
-      { error: status === 503 ? 'AI service unavailable. Please check your API keys and try again.' : message },
-      { status }
-    );
+    const { status, body } = toErrorPayload(error);
+    return NextResponse.json(body, { status });
   }
 }
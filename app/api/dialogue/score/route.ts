@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
+import { scoreDialogueTurn } from '@/lib/ai/service';
+import { parseModelPreference } from '@/lib/ai/provider-router';
+import { AIOutputValidationError } from '@/lib/ai/schemas';
+import { parseGoalProgress } from '@/lib/utils/dialogueGoals';
+
+function isUnavailableError(message: string): boolean {
+  return message.includes('No AI provider') || message.includes('All AI providers failed');
+}
+
+const MAX_HISTORY = 20;
+
+/** Feedback for a learner turn spoken in a Gemini Live call (the reply already happened by voice). */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json();
+    const { history, userText, scenarioContext, goals, level, model } = body;
+
+    if (!Array.isArray(history) || typeof userText !== 'string' || !userText.trim() || level == null || level === '') {
+      return NextResponse.json(
+        { error: 'Missing required fields: history, userText, level' },
+        { status: 400 }
+      );
+    }
+
+    const { data: score, provider } = await scoreDialogueTurn(
+      history
+        .filter((h: unknown): h is { role: string; text: string } =>
+          !!h && typeof (h as { text?: unknown }).text === 'string'
+        )
+        .map((h) => ({ role: h.role === 'model' ? 'model' : 'user', text: h.text }))
+        .slice(-MAX_HISTORY),
+      userText.slice(0, 1000),
+      typeof scenarioContext === 'string' ? scenarioContext : 'General conversation practice.',
+      parseGoalProgress(goals),
+      level,
+      parseModelPreference(model)
+    );
+
+    return NextResponse.json({ ...score, provider });
+  } catch (error: any) {
+    if (error instanceof AIOutputValidationError) {
+      console.error('Dialogue score API invalid AI output:', error.issues);
+      return NextResponse.json(
+        { error: 'AI returned an invalid response. Please try again.', issues: error.issues },
+        { status: 502 }
+      );
+    }
+    const message = error?.message || 'Internal server error';
+    console.error('Dialogue score API error:', error);
+    const status = isUnavailableError(message) ? 503 : 500;
+    return NextResponse.json(
+      { error: status === 503 ? 'AI service unavailable. Please check your API keys and try again.' : message },
+      { status }
+    );
+  }
+}
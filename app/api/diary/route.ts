@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
 import { analyzeCompleteDiary } from '@/lib/ai/diary-service';
+import { parseModelPreference } from '@/lib/ai/provider-router';
+import { AIOutputValidationError } from '@/lib/ai/schemas';
 
 function isUnavailableError(message: string): boolean {
   return (
@@ -10,9 +13,12 @@ function isUnavailableError(message: string): boolean {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
-    const { text } = body;
+    const { text, model } = body;
 
     if (text == null || String(text).trim() === '') {
       return NextResponse.json(
@@ -21,10 +27,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = await analyzeCompleteDiary(String(text).trim());
+    const { data, provider } = await analyzeCompleteDiary(
+      String(text).trim(),
+      parseModelPreference(model)
+    );
 
-    return NextResponse.json(result);
+    return NextResponse.json({ ...data, provider });
   } catch (error: any) {
+    if (error instanceof AIOutputValidationError) {
+      console.error('Diary API invalid AI output:', error.issues);
+      return NextResponse.json(
+        { error: 'AI returned an invalid response. Please try again.', issues: error.issues },
+        { status: 502 }
+      );
+    }
     const message = error?.message || 'Internal server error';
     console.error('Diary API error:', error);
     const status = isUnavailableError(message) ? 503 : 500;
@@ -1,10 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
 import { upgradeDiaryText } from '@/lib/ai/diary-service';
+import { parseModelPreference } from '@/lib/ai/provider-router';
+import { AIOutputValidationError } from '@/lib/ai/schemas';
+
+function isUnavailableError(message: string): boolean {
+  return message.includes('No AI provider') || message.includes('All AI providers failed');
+}
 
 export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
-    const { text, level } = body;
+    const { text, level, model } = body;
 
     if (!text) {
       return NextResponse.json(
@@ -13,14 +23,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const upgrade = await upgradeDiaryText(text, level || 'B1');
+    const { data: upgrade, provider } = await upgradeDiaryText(
+      text,
+      level || 'B1',
+      parseModelPreference(model)
+    );
 
-    return NextResponse.json(upgrade);
+    return NextResponse.json({ ...upgrade, provider });
   } catch (error: any) {
+    if (error instanceof AIOutputValidationError) {
+      console.error('Upgrade API invalid AI output:', error.issues);
+      return NextResponse.json(
+        { error: 'AI returned an invalid response. Please try again.', issues: error.issues },
+        { status: 502 }
+      );
+    }
+    const message = error?.message || 'Internal server error';
     console.error('Upgrade API error:', error);
+    const status = isUnavailableError(message) ? 503 : 500;
     return NextResponse.json(
-      { error: error.message || 'Internal server error' },
-      { status: 500 }
+      { error: status === 503 ? 'AI service unavailable. Please check your API keys and try again.' : message },
+      { status }
     );
   }
 }
@@ -1,34 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DoubaoProvider } from '@/lib/ai/doubao';
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { authenticateRequest } from '@/lib/supabase/server';
+import { routeJSON, parseModelPreference } from '@/lib/ai/provider-router';
+import { AIOutputValidationError, flashcardContentSchema } from '@/lib/ai/schemas';
 import { searchYouTube } from '@/lib/youtube/search';
 import { getCachedSearch, setCachedSearch } from '@/lib/youtube/cache';
 
-// Initialize AI clients
-const doubaoConfig = {
-  apiKey: process.env.NEXT_DOUBAO_API_KEY || '',
-  endpoint: process.env.NEXT_DOUBAO_CHAT_ENDPOINT || '',
-  model: process.env.NEXT_DOUBAO_CHAT_MODEL || '',
-};
-
-const doubao =
-  doubaoConfig.apiKey && doubaoConfig.endpoint
-    ? new DoubaoProvider(doubaoConfig)
-    : null;
-
-const openaiKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY || '';
-const openai = openaiKey ? new OpenAI({ apiKey: openaiKey }) : null;
-
-const geminiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY || '';
-const gemini = geminiKey ? new GoogleGenerativeAI(geminiKey) : null;
-
-const AI_PROVIDER = (process.env.NEXT_PUBLIC_AI_PROVIDER || 'auto').toLowerCase();
-
 export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
-    const { text, context, scenario } = body;
+    const { text, context, scenario, model } = body;
 
     if (!text) {
       return NextResponse.json({ error: 'Missing text' }, { status: 400 });
@@ -61,117 +44,36 @@ Return ONLY valid JSON (no markdown):
 Note: Do NOT include video_ids - those will be fetched separately.
     `;
 
-    let lastError: any = null;
-
-    // Try Doubao first
-    if ((AI_PROVIDER === 'doubao' || AI_PROVIDER === 'auto') && doubao) {
-      try {
-        console.log('🔥 [Flashcard] Trying Doubao...');
-        const response = await doubao.chat(
-          [
-            {
-              role: 'system',
-              content:
-                'You are an English learning assistant. Always respond with valid JSON.',
-            },
-            { role: 'user', content: prompt },
-          ],
-          { temperature: 0.7 }
-        );
-
-        const responseText = response.choices[0]?.message?.content;
-        if (!responseText) throw new Error('Empty response');
-
-        const parsed = DoubaoProvider.parseJSONResponse(responseText);
-        
-        // Fetch YouTube videos for this word/phrase
-        const videoIds = await fetchYouTubeVideos(text);
-        parsed.video_ids = videoIds;
-        
-        console.log('✅ [Flashcard] Doubao success with', videoIds.length, 'videos');
-        return NextResponse.json(parsed);
-      } catch (error: any) {
-        lastError = error;
-        console.warn('❌ [Flashcard] Doubao failed:', error.message);
-      }
-    }
-
-    // Try OpenAI
-    if (AI_PROVIDER === 'auto' && openai) {
-      try {
-        console.log('🔄 [Flashcard] Trying OpenAI...');
-        const response = await openai.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: [
-            {
-              role: 'system',
-              content:
-                'You are an English learning assistant. Always respond with valid JSON.',
-            },
-            { role: 'user', content: prompt },
-          ],
-          temperature: 0.7,
-          response_format: { type: 'json_object' },
-        });
-
-        const responseText = response.choices[0]?.message?.content;
-        if (!responseText) throw new Error('Empty response');
-
-        const parsed = JSON.parse(responseText);
-        
-        // Fetch YouTube videos for this word/phrase
-        const videoIds = await fetchYouTubeVideos(text);
-        parsed.video_ids = videoIds;
-        
-        console.log('✅ [Flashcard] OpenAI success with', videoIds.length, 'videos');
-        return NextResponse.json(parsed);
-      } catch (error: any) {
-        lastError = error;
-        console.warn('❌ [Flashcard] OpenAI failed:', error.message);
+    const { data: parsed, provider } = await routeJSON(
+      [
+        {
+          role: 'system',
+          content:
+            'You are an English learning assistant. Always respond with valid JSON.',
+        },
+        { role: 'user', content: prompt },
+      ],
+      {
+        label: 'Flashcard',
+        preference: parseModelPreference(model),
+        schema: flashcardContentSchema,
+        temperature: 0.7,
       }
-    }
-
-    // Try Gemini
-    if (gemini) {
-      try {
-        console.log('🔄 [Flashcard] Trying Gemini...');
-        const model = gemini.getGenerativeModel({
-          model: 'gemini-2.5-flash',
-          generationConfig: { responseMimeType: 'application/json' },
-        });
-
-        const result = await model.generateContent(prompt);
-        const responseText = result.response.text();
-
-        let parsed;
-        try {
-          parsed = JSON.parse(responseText);
-        } catch {
-          const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-          if (!jsonMatch) throw new Error('No JSON found');
-          parsed = JSON.parse(jsonMatch[0]);
-        }
+    );
 
-        // Fetch YouTube videos for this word/phrase
-        const videoIds = await fetchYouTubeVideos(text);
-        parsed.video_ids = videoIds;
-        
-        console.log('✅ [Flashcard] Gemini success with', videoIds.length, 'videos');
-        return NextResponse.json(parsed);
-      } catch (error: any) {
-        lastError = error;
-        console.warn('❌ [Flashcard] Gemini failed:', error.message);
-      }
-    }
+    // Fetch YouTube videos for this word/phrase
+    const videoIds = await fetchYouTubeVideos(text);
 
-    // All providers failed
-    const errorMessage = lastError?.message || 'No AI provider available';
-    console.error('❌ [Flashcard] All providers failed. Last error:', errorMessage);
-    return NextResponse.json(
-      { error: 'AI service unavailable. Please check your API keys and try again.' },
-      { status: 503 }
-    );
+    console.log('✅ [Flashcard] Generated with', videoIds.length, 'videos');
+    return NextResponse.json({ ...parsed, video_ids: videoIds, provider });
   } catch (error: any) {
+    if (error instanceof AIOutputValidationError) {
+      console.error('Flashcard API invalid AI output:', error.issues);
+      return NextResponse.json(
+        { error: 'AI returned an invalid response. Please try again.', issues: error.issues },
+        { status: 502 }
+      );
+    }
     console.error('❌ [Flashcard] API error:', error);
     const message = error?.message || 'Internal server error';
     const isUnavailable =
@@ -2,15 +2,15 @@
  * Gemini File API upload route.
  * Accepts a single file via multipart/form-data and uploads it to Google's File API.
  * Supports direct upload from same origin (e.g. localhost:3000/gemini-files).
- * Uses env: NEXT_PUBLIC_GEMINI_API_KEY or GEMINI_API_KEY.
+ * Uses env: GEMINI_API_KEY.
  */
 
 import { GoogleGenAI } from '@google/genai';
 import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
 import path from 'path';
 
-const GEMINI_API_KEY =
-  process.env.NEXT_PUBLIC_GEMINI_API_KEY || process.env.GEMINI_API_KEY;
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
 
 // Official doc uses 5s between polls; 2s is acceptable for faster feedback
 const POLL_INTERVAL_MS = 2000;
@@ -32,9 +32,12 @@ function getMimeFromName(filename: string): string {
 }
 
 export async function POST(request: Request) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
   if (!GEMINI_API_KEY) {
     return NextResponse.json(
-      { error: 'Missing GEMINI_API_KEY or NEXT_PUBLIC_GEMINI_API_KEY' },
+      { error: 'Missing GEMINI_API_KEY' },
       { status: 500 }
     );
   }
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
+import { createLiveToken, isLiveAvailable, LiveQuotaError } from '@/lib/ai/live-token';
+
+/** Mints a single-use Gemini Live token for the signed-in user (local-only mode shares one quota). */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
+  if (!isLiveAvailable()) {
+    return NextResponse.json(
+      { error: 'Live calls are unavailable. Set GEMINI_API_KEY on the server.' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const token = await createLiveToken(auth.user?.id ?? 'local');
+    return NextResponse.json(token, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: any) {
+    if (error instanceof LiveQuotaError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      );
+    }
+    console.error('Live token API error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
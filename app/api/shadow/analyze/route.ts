@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
 import { analyzeShadowReading } from '@/lib/ai/shadow-service';
+import { AIOutputValidationError } from '@/lib/ai/schemas';
 
 export const maxDuration = 300; // 5 minutes for multi-person mode support
 
 export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
-    const { userAudioBase64, userMimeType, refAudioBase64, refText } = body;
+    const { userAudioBase64, userMimeType, refAudioBase64, refText, metrics } = body;
 
     if (!userAudioBase64 || !refAudioBase64 || !refText) {
       return NextResponse.json(
@@ -19,11 +24,19 @@ export async function POST(request: NextRequest) {
       userAudioBase64,
       userMimeType || 'audio/webm',
       refAudioBase64,
-      refText
+      refText,
+      metrics && typeof metrics === 'object' ? metrics : undefined
     );
 
     return NextResponse.json(result);
   } catch (error: unknown) {
+    if (error instanceof AIOutputValidationError) {
+      console.error('Shadow analyze API invalid AI output:', error.issues);
+      return NextResponse.json(
+        { error: 'AI returned an invalid response. Please try again.', issues: error.issues },
+        { status: 502 }
+      );
+    }
     console.error('Shadow analyze API error:', error);
     const message = error instanceof Error ? error.message : 'Analysis failed';
     const isUnavailable =
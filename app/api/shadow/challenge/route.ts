@@ -1,13 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
 
 export const maxDuration = 60;
 import { generateDailyChallenge, generateReferenceAudio } from '@/lib/ai/shadow-service';
+import { DEFAULT_SHADOW_VOICE, parseVoicePreference } from '@/lib/constants/voices';
 import type { UserLevel, PracticeMode } from '@/lib/types';
 
 /** 雅思+中级：shadow 3 句话固定来自此文件 */
 const DEFAULT_IELTS_INTERMEDIATE_FILE_URI = 'https://generativelanguage.googleapis.com/v1beta/files/k5jgztapdkh3';
 
 export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
   try {
     // Defensive: ensure request body can be parsed
     let body;
@@ -31,8 +36,16 @@ export async function POST(request: NextRequest) {
 
     const level = (body.level ?? 'Beginner') as UserLevel;
     const mode = (body.mode ?? 'Daily') as PracticeMode;
-    const sourceFile =
-      body.fileUri && typeof body.fileUri === 'string'
+    const voice = parseVoicePreference(body.voice, DEFAULT_SHADOW_VOICE);
+    const focusWords: string[] = Array.isArray(body.focusWords)
+      ? body.focusWords
+          .filter((w: unknown): w is string => typeof w === 'string' && w.trim().length > 0)
+          .map((w: string) => w.trim().slice(0, 40))
+          .slice(0, 10)
+      : [];
+    const sourceFile = focusWords.length
+      ? null
+      : body.fileUri && typeof body.fileUri === 'string'
         ? {
             uri: body.fileUri,
             mimeType: typeof body.mimeType === 'string' ? body.mimeType : undefined,
@@ -42,8 +55,8 @@ export async function POST(request: NextRequest) {
           ? { uri: DEFAULT_IELTS_INTERMEDIATE_FILE_URI, mimeType: 'application/pdf' as const }
           : null;
 
-    const challenge = await generateDailyChallenge(level, mode, sourceFile);
-    const { base64 } = await generateReferenceAudio(challenge.text);
+    const challenge = await generateDailyChallenge(level, mode, sourceFile, focusWords);
+    const { base64 } = await generateReferenceAudio(challenge.text, voice);
 
     return NextResponse.json({
       topic: challenge.topic,
@@ -4,11 +4,15 @@
  */
 
 import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
 import { recommendYouTubeVideos } from '@/lib/ai/shadow-service';
 
 export const maxDuration = 60; // Allow up to 60 seconds for PDF processing
 
 export async function POST(request: Request) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
     const { practiceText, weaknesses, pdfFileUri } = body;
@@ -1,20 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
 import { generateReferenceAudio } from '@/lib/ai/shadow-service';
+import { DEFAULT_TEXTBOOK_VOICE, parseVoicePreference } from '@/lib/constants/voices';
 
 export const maxDuration = 60;
 
-/** Generate American male reference audio for textbook lesson text. */
+/** Generate reference audio for textbook lesson text (default voice: American male). */
 export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
     const text = typeof body?.text === 'string' ? body.text.trim() : '';
-    const voiceName = typeof body?.voiceName === 'string' ? body.voiceName : 'Puck';
+    const voice = parseVoicePreference(body?.voice, DEFAULT_TEXTBOOK_VOICE);
 
     if (!text) {
       return NextResponse.json({ error: 'Missing or empty text' }, { status: 400 });
     }
 
-    const { base64 } = await generateReferenceAudio(text, voiceName);
+    const { base64 } = await generateReferenceAudio(text, voice);
     return NextResponse.json({ refAudioBase64: base64 });
   } catch (error: unknown) {
     console.error('Textbook ref-audio API error:', error);
@@ -1,23 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
 import { translateText } from '@/lib/ai/service';
+import { parseModelPreference } from '@/lib/ai/provider-router';
+
+function isUnavailableError(message: string): boolean {
+  return message.includes('No AI provider') || message.includes('All AI providers failed');
+}
 
 export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
-    const { text } = body;
+    const { text, model } = body;
 
     if (text == null || String(text).trim() === '') {
       return NextResponse.json({ error: 'Missing text' }, { status: 400 });
     }
 
-    const translation = await translateText(String(text).trim());
+    const { data: translation, provider } = await translateText(
+      String(text).trim(),
+      parseModelPreference(model)
+    );
 
-    return NextResponse.json({ translation });
+    return NextResponse.json({ translation, provider });
   } catch (error: any) {
+    const message = error?.message || 'Internal server error';
     console.error('Translate API error:', error);
+    const status = isUnavailableError(message) ? 503 : 500;
     return NextResponse.json(
-      { error: error.message || 'Internal server error' },
-      { status: 500 }
+      { error: status === 503 ? 'AI service unavailable. Please check your API keys and try again.' : message },
+      { status }
     );
   }
 }
@@ -6,6 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/supabase/server';
 import { searchYouTube } from '@/lib/youtube/search';
 
 interface YouTubeSearchResponse {
@@ -23,6 +24,9 @@ interface YouTubeSearchResponse {
 }
 
 export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const query = searchParams.get('q');
@@ -0,0 +1,11 @@
+'use client';
+
+import { AuthForm } from '@/components/auth/auth-form';
+
+export default function AuthPage() {
+  return (
+    <div className="min-h-[100dvh] w-full bg-primary-50 flex items-center justify-center p-6">
+      <AuthForm />
+    </div>
+  );
+}
@@ -2,12 +2,11 @@
 
 /**
  * Standalone page: upload files to Google Gemini File API.
- * CLIENT-SIDE upload to bypass server network restrictions.
- * Uses NEXT_PUBLIC_GEMINI_API_KEY directly from browser.
+ * Uploads go through /api/gemini-file/upload so the Gemini key stays on the server.
  */
 
 import { useState, useRef } from 'react';
-import { GoogleGenAI } from '@google/genai';
+import { apiFetch } from '@/lib/utils/api';
 import { storage } from '@/lib/utils/storage';
 
 const SHADOW_SOURCE_FILE_KEY = 'speakSnapShadowSourceFile';
@@ -47,59 +46,23 @@ export default function GeminiFilesPage() {
       return;
     }
 
-    const apiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY;
-    if (!apiKey) {
-      setError('NEXT_PUBLIC_GEMINI_API_KEY is not set in environment.');
-      return;
-    }
-
     setUploading(true);
     setError(null);
     setResult(null);
 
     try {
-      // Client-side upload using @google/genai SDK
-      const ai = new GoogleGenAI({ apiKey });
-      
-      // Upload file
-      const uploadedFile = await ai.files.upload({
-        file: file,
-        config: {
-          displayName: file.name,
-          mimeType: file.type || 'application/octet-stream',
-        },
-      });
-
-      if (!uploadedFile?.name) {
-        setError('Upload succeeded but no file name returned.');
-        return;
-      }
-
-      // Poll for processing completion
-      let fileInfo = uploadedFile;
-      const start = Date.now();
-      const maxWait = 120000; // 2 min
-      
-      while (fileInfo.state === 'PROCESSING' && Date.now() - start < maxWait) {
-        await new Promise((r) => setTimeout(r, 2000));
-        fileInfo = await ai.files.get({ name: uploadedFile.name });
-      }
-
-      if (fileInfo.state === 'FAILED') {
-        setError('File processing failed on Google servers.');
+      const formData = new FormData();
+      formData.append('file', file);
+      // The route waits for Google to finish processing the file
+      const res = await apiFetch('/api/gemini-file/upload', { method: 'POST', body: formData });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError([data.error || 'Upload failed', data.detail, data.hint].filter(Boolean).join('\n'));
         return;
       }
 
-      setResult({
-        name: fileInfo.name,
-        uri: fileInfo.uri,
-        displayName: fileInfo.displayName,
-        mimeType: fileInfo.mimeType,
-        state: fileInfo.state,
-        sizeBytes: fileInfo.sizeBytes,
-        createTime: fileInfo.createTime,
-        expirationTime: fileInfo.expirationTime,
-      });
+      setResult(data as FileResult);
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Upload failed';
       const cause = err instanceof Error && 'cause' in err ? String(err.cause) : '';
@@ -135,8 +98,8 @@ export default function GeminiFilesPage() {
         <p className="text-sm text-neutral-600 mb-2">
           Upload PDF, text, or other documents. Files are stored for 48 hours.
         </p>
-        <p className="text-xs text-amber-600 mb-6">
-          ⚠️ Client-side upload: API key is used in browser. Ensure your network can access generativelanguage.googleapis.com.
+        <p className="text-xs text-neutral-500 mb-6">
+          Files are uploaded through the server, which must be able to reach generativelanguage.googleapis.com.
         </p>
 
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -1,6 +1,7 @@
 import type { Metadata, Viewport } from 'next';
 import './globals.css';
 import { AuthProvider } from '@/lib/contexts/auth-context';
+import { SyncProvider } from '@/lib/contexts/sync-context';
 
 export const metadata: Metadata = {
   title: 'SpeakSnap v3 - AI English Learning',
@@ -22,7 +23,9 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body>
-        <AuthProvider>{children}</AuthProvider>
+        <AuthProvider>
+          <SyncProvider>{children}</SyncProvider>
+        </AuthProvider>
       </body>
     </html>
   );
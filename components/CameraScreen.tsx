@@ -15,6 +15,7 @@ import {
 } from 'lucide-react';
 import { UserLevel, PracticeMode, Scenario, AiModelPreference } from '@/lib/types';
 import { storage } from '@/lib/utils/storage';
+import { apiFetch } from '@/lib/utils/api';
 
 type Mode = 'voice' | 'camera' | 'upload';
 
@@ -79,7 +80,7 @@ export default function CameraScreen() {
     setIsAnalyzing(true);
 
     try {
-      const response = await fetch('/api/analyze', {
+      const response = await apiFetch('/api/analyze', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -107,6 +108,8 @@ export default function CameraScreen() {
         context: result.context,
         goals: result.goals,
         completion_phrase: result.completion_phrase,
+        first_line: result.first_line,
+        user_hints: result.user_hints,
         timestamp: Date.now(),
         dialogues: [],
         total_attempts: 0,
@@ -140,7 +143,7 @@ export default function CameraScreen() {
     setIsAnalyzing(true);
 
     try {
-      const response = await fetch('/api/analyze-audio', {
+      const response = await apiFetch('/api/analyze-audio', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -167,6 +170,8 @@ export default function CameraScreen() {
         context: result.context,
         goals: result.goals,
         completion_phrase: result.completion_phrase,
+        first_line: result.first_line,
+        user_hints: result.user_hints,
         timestamp: Date.now(),
         dialogues: [],
         total_attempts: 0,
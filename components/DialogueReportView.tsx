@@ -0,0 +1,155 @@
+'use client';
+
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import type { DialogueReport } from '@/lib/types';
+
+interface DialogueReportViewProps {
+  report: DialogueReport;
+  /** Scenario name shown in the header. */
+  title: string;
+  onClose: () => void;
+}
+
+function scoreColor(score: number): string {
+  return score >= 80 ? 'bg-green-500' : score >= 60 ? 'bg-amber-400' : 'bg-orange-500';
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white p-5 rounded-2xl shadow-float border border-black/5">
+      <h3 className="text-sm font-semibold text-primary-900 mb-3">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+/** Full-screen end-of-dialogue report: turn scores, goals, grammar by type, rewrites and vocabulary. */
+export function DialogueReportView({ report, title, onClose }: DialogueReportViewProps) {
+  const average = report.turn_scores.length
+    ? Math.round(report.turn_scores.reduce((sum, s) => sum + s, 0) / report.turn_scores.length)
+    : null;
+  const achieved = report.goals.filter((g) => g.status === 'achieved').length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-primary-50 overflow-y-auto overflow-x-hidden">
+      <div className="px-4 py-6 pb-24 safe-bottom max-w-xl mx-auto space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-primary-900 truncate">Dialogue Report</h2>
+            <p className="text-xs text-gray-500 truncate">
+              {title} · {new Date(report.generated_at).toLocaleString()}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="w-10 h-10 rounded-full bg-white shadow-sm flex items-center justify-center touch-manipulation shrink-0"
+            aria-label="Close report"
+          >
+            <X size={18} className="text-gray-500" />
+          </button>
+        </div>
+
+        {report.summary && <p className="text-sm text-gray-600 leading-relaxed px-1">{report.summary}</p>}
+
+        {report.turn_scores.length > 0 && (
+          <Section title="Score per turn">
+            <div className="flex items-end gap-1.5 h-28" role="img" aria-label="Score per turn">
+              {report.turn_scores.map((score, i) => (
+                <div key={i} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+                  <span className="text-[10px] text-gray-400">{score}</span>
+                  <div className={`w-full rounded-t-md ${scoreColor(score)}`} style={{ height: `${Math.max(score, 4)}%` }} />
+                </div>
+              ))}
+            </div>
+            <p className="text-[11px] text-gray-400 mt-2">
+              {report.turn_scores.length} turns · average {average}
+            </p>
+          </Section>
+        )}
+
+        {report.goals.length > 0 && (
+          <Section title={`Goals · ${achieved}/${report.goals.length} achieved`}>
+            <ul className="space-y-2">
+              {report.goals.map((g) => (
+                <li key={g.goal} className="flex items-start gap-2 text-sm">
+                  <span
+                    className={`mt-0.5 w-4 h-4 rounded-full flex items-center justify-center shrink-0 ${
+                      g.status === 'achieved' ? 'bg-green-500' : g.status === 'in_progress' ? 'bg-amber-300' : 'bg-gray-200'
+                    }`}
+                  >
+                    {g.status === 'achieved' && <Check size={10} strokeWidth={3} className="text-white" />}
+                  </span>
+                  <div className="min-w-0">
+                    <span className="text-gray-700">{g.goal}</span>
+                    {g.evidence && <p className="text-xs text-gray-400 italic">&ldquo;{g.evidence}&rdquo;</p>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </Section>
+        )}
+
+        <Section title="Recurring grammar errors">
+          {report.grammar_errors.length === 0 ? (
+            <p className="text-sm text-gray-400 italic">No grammar errors found. Great job!</p>
+          ) : (
+            <ul className="space-y-4">
+              {report.grammar_errors.map((group) => (
+                <li key={group.type}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="font-medium text-primary-900">{group.type}</span>
+                    <span className="text-xs text-gray-400">×{group.count}</span>
+                  </div>
+                  <ul className="space-y-1">
+                    {group.examples.map((ex, i) => (
+                      <li key={i} className="text-xs">
+                        <span className="text-red-500 line-through">{ex.original}</span>
+                        <span className="text-gray-400"> → </span>
+                        <span className="text-green-700">{ex.correction}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Section>
+
+        {report.best_rewrites.length > 0 && (
+          <Section title="Better ways to say it">
+            <ul className="space-y-3">
+              {report.best_rewrites.map((r, i) => (
+                <li key={i} className="text-sm">
+                  <p className="text-gray-500">&ldquo;{r.original}&rdquo;</p>
+                  <p className="text-primary-900 font-medium">&ldquo;{r.better}&rdquo;</p>
+                </li>
+              ))}
+            </ul>
+          </Section>
+        )}
+
+        {report.vocabulary.target.length > 0 && (
+          <Section title={`Vocabulary · ${report.vocabulary.used.length}/${report.vocabulary.target.length} used`}>
+            <div className="flex flex-wrap gap-2">
+              {report.vocabulary.used.map((w) => (
+                <span key={w} className="px-3 py-1 rounded-full bg-green-50 text-green-700 text-xs font-medium">
+                  {w}
+                </span>
+              ))}
+              {report.vocabulary.missed.map((w) => (
+                <span key={w} className="px-3 py-1 rounded-full bg-gray-100 text-gray-500 text-xs">
+                  {w}
+                </span>
+              ))}
+            </div>
+            {report.vocabulary.missed.length > 0 && (
+              <p className="text-[11px] text-gray-400 mt-2">Grey words are ones to try next time.</p>
+            )}
+          </Section>
+        )}
+      </div>
+    </div>
+  );
+}
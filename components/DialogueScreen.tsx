@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useParams, useSearchParams, useRouter } from 'next/navigation';
 import {
   X,
@@ -16,10 +16,32 @@ import {
   PhoneOff,
   ChevronRight,
 } from 'lucide-react';
-import { Scenario, DialogueLine, UserLevel, PracticeMode } from '@/lib/types';
+import {
+  Scenario,
+  DialogueLine,
+  DialogueResponse,
+  DialogueReport,
+  DialogueTurnScore,
+  GoalProgress,
+  UserLevel,
+  PracticeMode,
+  AiModelPreference,
+} from '@/lib/types';
 import { storage } from '@/lib/utils/storage';
+import {
+  allGoalsAchieved,
+  goalCompletionPercent,
+  initialGoalProgress,
+  mergeGoalProgress,
+} from '@/lib/utils/dialogueGoals';
+import { generateDialogueReport, saveDialogueReport } from '@/lib/utils/dialogueReport';
+import { buildScenarioContext } from '@/lib/utils/scenarioDifficulty';
+import { scoreLiveTurn } from '@/lib/utils/liveDialogue';
+import { DialogueReportView } from './DialogueReportView';
+import { readServerSentEvents } from '@/lib/utils/sse';
 import { useVoiceRecorder } from '@/lib/hooks/useVoiceRecorder';
 import { useGeminiLive } from '@/lib/hooks/useGeminiLive';
+import { apiFetch } from '@/lib/utils/api';
 
 export default function DialogueScreen() {
   const router = useRouter();
@@ -31,6 +53,7 @@ export default function DialogueScreen() {
   const [scenario, setScenario] = useState<Scenario | null>(null);
   const [userLevel, setUserLevel] = useState<UserLevel>('Beginner');
   const [practiceMode, setPracticeMode] = useState<PracticeMode>('Daily');
+  const [modelPreference, setModelPreference] = useState<AiModelPreference>('auto');
   const [isLoading, setIsLoading] = useState(true);
   const [currentDialogueId] = useState(resumeDialogueId || `dialogue_${Date.now()}`);
   const [messages, setMessages] = useState<DialogueLine[]>([]);
@@ -55,6 +78,8 @@ export default function DialogueScreen() {
         if (savedLevel) setUserLevel(savedLevel);
         const savedMode = await storage.getItem<PracticeMode>('speakSnapPracticeMode');
         if (savedMode) setPracticeMode(savedMode);
+        const savedModel = await storage.getItem<AiModelPreference>('speakSnapModel');
+        if (savedModel) setModelPreference(savedModel);
 
         setIsLoading(false);
       } catch (error) {
@@ -71,164 +96,63 @@ export default function DialogueScreen() {
   const [autoPlayAudio, setAutoPlayAudio] = useState(false);
   const [showAudioToast, setShowAudioToast] = useState(false);
   const [isLiveActive, setIsLiveActive] = useState(false);
-  const [goalProgress, setGoalProgress] = useState<number>(0);
+  const [goalStatuses, setGoalStatuses] = useState<GoalProgress[]>([]);
   const [showGoalComplete, setShowGoalComplete] = useState(false);
+  const [report, setReport] = useState<DialogueReport | null>(null);
+  const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  const [showReport, setShowReport] = useState(false);
   const [conversationGoals, setConversationGoals] = useState<string[]>([]);
-  const conversationTextRef = useRef<string>('');
   const [liveUserText, setLiveUserText] = useState('');
   const [liveAiText, setLiveAiText] = useState('');
-  // 打字动画状态
-  const [typingMessageId, setTypingMessageId] = useState<string | null>(null);
-  const [displayedText, setDisplayedText] = useState<string>('');
-  const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Live callbacks are bound when the call starts, so they go through this ref to reach the current render
+  const liveTurnHandlersRef = useRef<{
+    onUserTurn: (text: string) => void;
+    onAiTurn: (text: string) => void;
+    onScored: (messageId: string, score: DialogueTurnScore) => void;
+  } | null>(null);
+  const pendingLiveScoresRef = useRef<Set<Promise<void>>>(new Set());
+  // Ahead of React state: Live events and scores can land before the next render
+  const messagesRef = useRef<DialogueLine[]>([]);
+  const goalChecklistRef = useRef<GoalProgress[]>([]);
+  const reportRequestedRef = useRef(false);
+  // speakSnapScenarios is read-modify-written: Live turns, their scores and the report must not interleave
+  const scenarioWriteQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // 流式回复：正在接收 token 的 AI 消息
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const autoPlayAudioRef = useRef(false);
   const lastPlayedMessageIdRef = useRef<string | null>(null);
   // 反馈面板展开/收起状态
   const [expandedFeedbacks, setExpandedFeedbacks] = useState<Set<string>>(new Set());
 
-  // 检测对话目标完成的通用函数
-  // 打字动画效果 - 逐字显示AI响应
-  const typeMessage = useCallback((messageId: string, fullText: string) => {
-    setTypingMessageId(messageId);
-    setDisplayedText('');
-    
-    let currentIndex = 0;
-    let lastScrollIndex = 0;
-    const CHARS_PER_SCROLL = 8; // 每打8个字符滚动一次
-    
-    const smoothScrollDown = () => {
-      if (!chatContainerRef.current) return;
-      
-      // 平滑向下滚动，保持打字内容可见
-      const currentScroll = chatContainerRef.current.scrollTop;
-      const scrollHeight = chatContainerRef.current.scrollHeight;
-      const clientHeight = chatContainerRef.current.clientHeight;
-      const maxScroll = scrollHeight - clientHeight;
-      
-      // 每次向下滚动 20px（约一行文字的高度）
-      const newScroll = Math.min(currentScroll + 20, maxScroll);
-      
-      chatContainerRef.current.scrollTo({
-        top: newScroll,
-        behavior: 'smooth',
-      });
-    };
-    
-    const typeNextChar = () => {
-      if (currentIndex < fullText.length) {
-        setDisplayedText(fullText.slice(0, currentIndex + 1));
-        currentIndex++;
-        
-        // 每打完指定数量的字符，自动向下滚动
-        if (currentIndex - lastScrollIndex >= CHARS_PER_SCROLL) {
-          lastScrollIndex = currentIndex;
-          requestAnimationFrame(() => {
-            smoothScrollDown();
-          });
-        }
-        
-        // 根据字符类型调整速度：标点符号稍慢，其他字符快速
-        const char = fullText[currentIndex - 1];
-        const delay = /[.,!?;:]/.test(char) ? 100 : 20;
-        typingTimeoutRef.current = setTimeout(typeNextChar, delay);
-      } else {
-        setTypingMessageId(null);
-        setDisplayedText('');
-        // 打字完成后滚动到最底部
-        requestAnimationFrame(() => {
-          setTimeout(() => {
-            if (chatContainerRef.current) {
-              const scrollHeight = chatContainerRef.current.scrollHeight;
-              chatContainerRef.current.scrollTo({
-                top: scrollHeight,
-                behavior: 'smooth',
-              });
-            }
-          }, 100);
-        });
-      }
-    };
-    
-    // 开始打字前先滚动到底部，确保有足够空间
-    requestAnimationFrame(() => {
-      if (chatContainerRef.current) {
-        const scrollHeight = chatContainerRef.current.scrollHeight;
-        chatContainerRef.current.scrollTo({
-          top: scrollHeight,
-          behavior: 'smooth',
-        });
-      }
-    });
-    
-    typeNextChar();
-  }, []);
+  // Checklist in scenario-goal order; statuses come from the dialogue model's verdict each turn
+  const goalChecklist = useMemo(
+    () =>
+      initialGoalProgress(conversationGoals).map(
+        (g) => goalStatuses.find((judged) => judged.goal === g.goal) ?? g
+      ),
+    [conversationGoals, goalStatuses]
+  );
+  const goalPercent = goalCompletionPercent(goalChecklist);
 
-  // 清理打字动画
   useEffect(() => {
-    return () => {
-      if (typingTimeoutRef.current) {
-        clearTimeout(typingTimeoutRef.current);
-      }
-    };
-  }, []);
+    messagesRef.current = messages;
+  }, [messages]);
 
-  const checkGoalCompletion = useCallback((text: string, userScore?: number) => {
-    conversationTextRef.current += ' ' + text;
-    
-    // Check for completion phrases
-    const completionPhrases = [
-      'Have a great day!',
-      'Enjoy your meal!',
-      'Have a safe flight!',
-      'Enjoy your stay!',
-      'Happy reading!',
-      'Stay motivated!',
-      'The doctor will see you soon!',
-      'All done!',
-      'Your package is on its way!',
-      scenario?.completion_phrase || ''
-    ];
-
-    const isGoalComplete = completionPhrases.some(phrase => 
-      phrase && text.toLowerCase().includes(phrase.toLowerCase())
-    );
+  useEffect(() => {
+    goalChecklistRef.current = goalChecklist;
+  }, [goalChecklist]);
+
+  const commitMessages = (update: (prev: DialogueLine[]) => DialogueLine[]): DialogueLine[] => {
+    const next = update(messagesRef.current);
+    messagesRef.current = next;
+    setMessages(next);
+    return next;
+  };
 
-    if (isGoalComplete && !showGoalComplete) {
-      setShowGoalComplete(true);
-      setGoalProgress(100);
-    } else if (!showGoalComplete && userScore !== undefined) {
-      // 基于AI评分智能更新进度
-      // 进度 = 对话轮次基础分 + 用户得分加成
-      const dialogueTurns = messages.filter(m => m.speaker === 'user').length + 1;
-      const turnsBonus = Math.min(dialogueTurns * 5, 30); // 每轮+5分，最多30分
-      
-      // 根据得分计算进度增量
-      let progressIncrement = 0;
-      if (userScore >= 86) {
-        progressIncrement = 15; // 优秀：大幅进步
-      } else if (userScore >= 61) {
-        progressIncrement = 10; // 良好：稳步前进
-      } else if (userScore >= 31) {
-        progressIncrement = 3;  // 尚可：轻微进步
-      } else {
-        progressIncrement = -5; // 偏离：进度倒退
-      }
-      
-      // 计算新进度（基础 + 增量，上限90%，避免过早到100%）
-      const baseProgress = turnsBonus;
-      let newProgress = Math.max(0, Math.min(goalProgress + progressIncrement, 90));
-      
-      // 如果是首轮，使用基础进度
-      if (dialogueTurns === 1) {
-        newProgress = Math.max(baseProgress, 15);
-      }
-      
-      // 平滑更新进度
-      if (newProgress !== goalProgress) {
-        setGoalProgress(newProgress);
-      }
-    }
-  }, [goalProgress, showGoalComplete, messages, scenario?.completion_phrase]);
+  const commitGoals = (goals: GoalProgress[]) => {
+    goalChecklistRef.current = goals;
+    setGoalStatuses(goals);
+  };
 
   // Gemini Live Integration - 构建场景和NPC角色的系统指令
   const buildSystemInstruction = () => {
@@ -328,7 +252,7 @@ export default function DialogueScreen() {
     const instruction = `You are ${npcRole}. 
 
 SCENE: ${scenario.location} - ${scenario.situation}
-CONTEXT: ${scenario.context}
+CONTEXT: ${buildScenarioContext(scenario)}
 
 YOUR ROLE:
 - Stay in character as ${npcRole} throughout the conversation
@@ -350,8 +274,7 @@ IMPORTANT:
 - Don't over-explain unless asked
 - React naturally to what the user says
 - Actively guide the conversation toward completing the goals
-- When all goals are accomplished, end with: "${currentScenario.completion}"
-- This completion phrase signals the conversation objective is complete`;
+- When all goals are accomplished, wrap up the conversation naturally (for example: "${currentScenario.completion}")`;
 
     return instruction;
   };
@@ -363,13 +286,13 @@ IMPORTANT:
     startLiveSession, 
     stopLiveSession 
   } = useGeminiLive({
-    apiKey: process.env.NEXT_PUBLIC_GEMINI_API_KEY || '',
     systemInstruction: buildSystemInstruction(),
     voiceName: 'Kore',
     enableTranscription: true,
     onError: (err) => {
       console.error("Gemini Live Error:", err);
       setIsLiveActive(false);
+      alert(`📞 ${err}`);
     },
     onInterrupted: () => {
       console.log("AI was interrupted by user");
@@ -378,15 +301,14 @@ IMPORTANT:
     onOutputTranscription: (accumulated) => setLiveAiText(accumulated),
     onUserTurnComplete: (userText) => {
       const t = (userText ?? '').trim();
-      if (t) setMessages((prev) => [...prev, { id: Date.now().toString(), speaker: 'user', text: t }]);
+      if (t) liveTurnHandlersRef.current?.onUserTurn(t);
     },
     onTurnComplete: (_userText, aiText) => {
       const t = (aiText ?? '').trim();
-      if (t) setMessages((prev) => [...prev, { id: `${Date.now()}`, speaker: 'ai', text: t }]);
+      if (t) liveTurnHandlersRef.current?.onAiTurn(t);
       setLiveUserText('');
       setLiveAiText('');
     },
-    onTextReceived: (text) => checkGoalCompletion(text),
   });
 
   const handleToggleLive = () => {
@@ -395,15 +317,11 @@ IMPORTANT:
       setIsLiveActive(false);
       setLiveUserText('');
       setLiveAiText('');
-      setGoalProgress(0);
       setShowGoalComplete(false);
-      conversationTextRef.current = '';
     } else {
       startLiveSession();
       setIsLiveActive(true);
-      setGoalProgress(0);
       setShowGoalComplete(false);
-      conversationTextRef.current = '';
     }
   };
 
@@ -425,7 +343,7 @@ IMPORTANT:
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLInputElement>(null);
-  const typingMessageRef = useRef<HTMLDivElement | null>(null);
+  const streamingMessageRef = useRef<HTMLDivElement | null>(null);
 
   // Initialize chat with AI's first line or load existing dialogue
   useEffect(() => {
@@ -438,6 +356,8 @@ IMPORTANT:
       
         if (existingDialogue) {
           setMessages(existingDialogue.messages);
+          if (existingDialogue.goals) setGoalStatuses(existingDialogue.goals);
+          if (existingDialogue.report) setReport(existingDialogue.report);
           // Reset last played message ID when loading existing dialogue
           // This prevents auto-playing old messages, only new ones will play
           const lastAiMessage = existingDialogue.messages
@@ -457,11 +377,11 @@ IMPORTANT:
       {
         id: '1',
         speaker: 'ai' as const,
-        text: '',
+        text: scenario?.first_line ?? '',
       },
     ];
     setMessages(initialMessages);
-    setHints(['Hello!', 'Hi there!', 'Good to meet you!']);
+    setHints(scenario?.user_hints?.length ? scenario.user_hints : ['Hello!', 'Hi there!', 'Good to meet you!']);
     
     // Reset last played message ID for new dialogue
     lastPlayedMessageIdRef.current = null;
@@ -719,7 +639,11 @@ IMPORTANT:
       .filter(msg => msg.speaker === 'ai')
       .slice(-1)[0];
 
-    if (!lastAiMessage?.text || lastAiMessage.id === lastPlayedMessageIdRef.current) {
+    if (
+      !lastAiMessage?.text ||
+      lastAiMessage.id === lastPlayedMessageIdRef.current ||
+      lastAiMessage.id === streamingMessageId // Wait for the full reply before speaking
+    ) {
       return;
     }
 
@@ -735,7 +659,7 @@ IMPORTANT:
       lastPlayedMessageIdRef.current = lastAiMessage.id;
     };
     window.speechSynthesis.speak(utterance);
-  }, [messages, autoPlayAudio]);
+  }, [messages, autoPlayAudio, streamingMessageId]);
 
   const handleVoiceInput = () => {
     if (!isVoiceSupported) {
@@ -759,6 +683,7 @@ IMPORTANT:
     setShowSuggestions(false);
 
     const userMsgId = Date.now().toString();
+    const aiMessageId = (Date.now() + 1).toString();
     setMessages((prev) => [
       ...prev,
       { id: userMsgId, speaker: 'user', text: textToSend },
@@ -772,20 +697,49 @@ IMPORTANT:
         text: m.text,
       }));
 
-      const response = await fetch('/api/dialogue', {
+      const response = await apiFetch('/api/dialogue', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           history,
           userText: textToSend,
-          scenarioContext: loadedScenario.context,
+          scenarioContext: buildScenarioContext(loadedScenario),
+          goals: goalChecklist,
           level: userLevel,
+          model: modelPreference,
         }),
       });
 
       if (!response.ok) throw new Error('Dialogue failed');
 
-      const result = await response.json();
+      // Stream next_response into a placeholder AI message; `done` carries the full reply
+      const showStreamedText = (text: string) => {
+        setStreamingMessageId(text ? aiMessageId : null);
+        setMessages((prev) => {
+          const rest = prev.filter((m) => m.id !== aiMessageId);
+          return text ? [...rest, { id: aiMessageId, speaker: 'ai' as const, text }] : rest;
+        });
+      };
+      const stream: { text: string; result?: DialogueResponse; error?: string } = { text: '' };
+
+      await readServerSentEvents(response, ({ event, data }) => {
+        const payload = JSON.parse(data);
+        if (event === 'token') {
+          stream.text += payload.text;
+          showStreamedText(stream.text);
+        } else if (event === 'reset') {
+          stream.text = '';
+          showStreamedText('');
+        } else if (event === 'done') {
+          stream.result = payload;
+        } else if (event === 'error') {
+          stream.error = payload.error;
+        }
+      });
+      setStreamingMessageId(null);
+
+      const result = stream.result;
+      if (!result) throw new Error(stream.error || 'Dialogue failed');
 
       // Build updated messages array
       let updatedMessages = messages.map((m) => {
@@ -801,9 +755,8 @@ IMPORTANT:
         ];
       }
 
-      // Add AI response with typing animation
+      // Add AI response (replaces the streamed placeholder with the validated text)
       if (result.next_response) {
-        const aiMessageId = (Date.now() + 1).toString();
         updatedMessages = [
           ...updatedMessages,
           {
@@ -813,17 +766,10 @@ IMPORTANT:
           },
         ];
         
-        // Update state first
-        setMessages(updatedMessages);
-        
-        // Then trigger typing animation for better UX
-        typeMessage(aiMessageId, result.next_response);
-        
-        // Check goal completion in text chat mode with user score
-        checkGoalCompletion(result.next_response, result.feedback?.score);
+        commitMessages(() => updatedMessages);
       } else {
         // No AI response, just update messages
-        setMessages(updatedMessages);
+        commitMessages(() => updatedMessages);
       }
 
       if (result.next_hints && result.next_hints.length > 0) {
@@ -831,14 +777,14 @@ IMPORTANT:
         setShowSuggestions(true);
       }
 
+      const judgedGoals = result.goals?.length ? result.goals : goalChecklist;
+      commitGoals(judgedGoals);
+
       // Save after each message exchange
-      saveDialogueProgress(updatedMessages, result.is_finished);
+      const saved = saveDialogueProgress(updatedMessages, result.is_finished, judgedGoals);
 
-      // Show celebration instead of auto-exit when finished
-      if (result.is_finished && !showGoalComplete) {
-        setShowGoalComplete(true);
-        setGoalProgress(100);
-      }
+      // Show celebration instead of auto-exit when all goals are met
+      if (result.is_finished) completeDialogue(saved);
     } catch (error) {
       console.error('Dialogue error:', error);
       
@@ -852,8 +798,9 @@ IMPORTANT:
         alert('❌ Failed to get AI response. Please try again.\n\nIf the problem persists, try refreshing the page.');
       }
       
-      // 移除失败的用户消息，让用户可以重新发送
-      setMessages((prev) => prev.filter((m) => m.id !== userMsgId));
+      // 移除失败的用户消息（及未完成的流式回复），让用户可以重新发送
+      setStreamingMessageId(null);
+      setMessages((prev) => prev.filter((m) => m.id !== userMsgId && m.id !== aiMessageId));
       // 恢复输入框内容
       setInputValue(textToSend);
     } finally {
@@ -861,11 +808,22 @@ IMPORTANT:
     }
   };
 
+  const queueScenarioWrite = useCallback((write: () => Promise<void>): Promise<void> => {
+    const run = scenarioWriteQueueRef.current.then(write);
+    scenarioWriteQueueRef.current = run.catch(() => {});
+    return run;
+  }, []);
+
   // Real-time save function
-  const saveDialogueProgress = useCallback(async (currentMessages: DialogueLine[], isCompleted: boolean = false) => {
+  const saveDialogueProgress = useCallback((
+    currentMessages: DialogueLine[],
+    isCompleted: boolean = false,
+    goals?: GoalProgress[]
+  ) => queueScenarioWrite(async () => {
+    if (!scenario) return;
     try {
       const scenarios = await storage.getItem<Scenario[]>('speakSnapScenarios') || [];
-      const scenarioIndex = scenarios.findIndex((s: Scenario) => s.id === loadedScenario.id);
+      const scenarioIndex = scenarios.findIndex((s: Scenario) => s.id === scenario.id);
       
       if (scenarioIndex === -1) {
         console.warn('Scenario not found for saving dialogue');
@@ -887,6 +845,8 @@ IMPORTANT:
         user_level: userLevel,
         is_completed: isCompleted,
         average_score: Math.round(avgScore),
+        difficulty: scenario.difficulty,
+        ...(goals?.length ? { goals } : {}),
       };
       
       const dialogues = scenarios[scenarioIndex].dialogues || [];
@@ -895,7 +855,7 @@ IMPORTANT:
       if (dialogueIndex === -1) {
         dialogues.unshift(dialogueRecord); // Add new dialogue at the beginning
       } else {
-        dialogues[dialogueIndex] = dialogueRecord; // Update existing
+        dialogues[dialogueIndex] = { ...dialogues[dialogueIndex], ...dialogueRecord }; // Update existing, keep its report
       }
       
       // Update scenario stats
@@ -913,7 +873,67 @@ IMPORTANT:
     } catch (error) {
       console.error('❌ Failed to save dialogue:', error);
     }
-  }, [scenario?.id, currentDialogueId, userLevel]);
+  }), [scenario, currentDialogueId, userLevel, queueScenarioWrite]);
+
+  // Celebrate once; the report waits for the completed record and any Live scores still in flight
+  const completeDialogue = (saved: Promise<void>) => {
+    if (reportRequestedRef.current) return;
+    reportRequestedRef.current = true;
+    setShowGoalComplete(true);
+    if (report) return;
+    setIsGeneratingReport(true);
+    saved
+      .then(() => Promise.allSettled(Array.from(pendingLiveScoresRef.current)))
+      .then(() =>
+        generateDialogueReport(loadedScenario, messagesRef.current, goalChecklistRef.current, userLevel, modelPreference)
+      )
+      .then(async (generated) => {
+        setReport(generated);
+        await queueScenarioWrite(async () => {
+          await saveDialogueReport(loadedScenario.id, currentDialogueId, generated);
+        });
+      })
+      .catch((e) => console.error('Failed to save dialogue report:', e))
+      .finally(() => setIsGeneratingReport(false));
+  };
+
+  liveTurnHandlersRef.current = {
+    onUserTurn: (text) => {
+      const history = messagesRef.current;
+      const messageId = Date.now().toString();
+      commitMessages((prev) => [...prev, { id: messageId, speaker: 'user', text, live: true }]);
+
+      const scoring: Promise<void> = scoreLiveTurn(
+        loadedScenario,
+        history,
+        text,
+        goalChecklistRef.current,
+        userLevel,
+        modelPreference
+      )
+        .then((score) => liveTurnHandlersRef.current?.onScored(messageId, score))
+        .catch((e) => console.warn('⚠️ Live turn could not be scored:', e))
+        .finally(() => pendingLiveScoresRef.current.delete(scoring));
+      pendingLiveScoresRef.current.add(scoring);
+    },
+    onAiTurn: (text) => {
+      const updated = commitMessages((prev) => [...prev, { id: `${Date.now()}`, speaker: 'ai', text, live: true }]);
+      const goals = goalChecklistRef.current;
+      const finished = allGoalsAchieved(goals);
+      const saved = saveDialogueProgress(updated, finished || reportRequestedRef.current, goals);
+      if (finished) completeDialogue(saved);
+    },
+    onScored: (messageId, score) => {
+      const updated = commitMessages((prev) =>
+        prev.map((m) => (m.id === messageId ? { ...m, feedback: score.feedback } : m))
+      );
+      const goals = mergeGoalProgress(goalChecklistRef.current, score.goals);
+      commitGoals(goals);
+      const finished = allGoalsAchieved(goals);
+      const saved = saveDialogueProgress(updated, finished || reportRequestedRef.current, goals);
+      if (finished) completeDialogue(saved);
+    },
+  };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -927,10 +947,10 @@ IMPORTANT:
     setSelectionActionLoading(true);
 
     try {
-      const response = await fetch('/api/translate', {
+      const response = await apiFetch('/api/translate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: selectionMenu.text }),
+        body: JSON.stringify({ text: selectionMenu.text, model: modelPreference }),
       });
 
       if (!response.ok) throw new Error('Translation failed');
@@ -950,10 +970,10 @@ IMPORTANT:
     setSelectionActionLoading(true);
 
     try {
-      const response = await fetch('/api/optimize', {
+      const response = await apiFetch('/api/optimize', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: selectionMenu.text }),
+        body: JSON.stringify({ text: selectionMenu.text, model: modelPreference }),
       });
 
       if (!response.ok) throw new Error('Optimization failed');
@@ -985,13 +1005,14 @@ IMPORTANT:
 
     try {
       // Generate detailed flashcard content via AI
-      const response = await fetch('/api/flashcard/generate', {
+      const response = await apiFetch('/api/flashcard/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           text: selectedText,
           context: context,
           scenario: loadedScenario.location,
+          model: modelPreference,
         }),
       });
 
@@ -1216,7 +1237,7 @@ IMPORTANT:
                   </span>
                 </div>
                 <span className="text-[10px] font-semibold text-gray-500 bg-gray-100 px-2 py-1 rounded-full">
-                  {Math.round(goalProgress)}%
+                  {goalPercent}%
                 </span>
               </div>
 
@@ -1224,20 +1245,23 @@ IMPORTANT:
               <div className="w-full h-1.5 bg-gray-100 rounded-full overflow-hidden mb-3">
                 <div 
                   className="h-full bg-gradient-to-r from-blue-500 to-purple-500 rounded-full transition-all duration-700 ease-out"
-                  style={{ width: `${goalProgress}%` }}
+                  style={{ width: `${goalPercent}%` }}
                 ></div>
               </div>
 
               {/* Goals List */}
               <div className="space-y-2">
-                {conversationGoals.map((goal, idx) => {
-                  const isComplete = goalProgress >= ((idx + 1) / conversationGoals.length) * 100;
+                {goalChecklist.map((item, idx) => {
+                  const isComplete = item.status === 'achieved';
+                  const inProgress = item.status === 'in_progress';
                   return (
-                    <div key={idx} className="flex items-center gap-2 text-xs">
-                      <div className={`w-4 h-4 rounded-full flex items-center justify-center flex-shrink-0 transition-all duration-300 ${
-                        isComplete 
-                          ? 'bg-green-500' 
-                          : 'bg-gray-200'
+                    <div key={idx} className="flex items-start gap-2 text-xs">
+                      <div className={`mt-px w-4 h-4 rounded-full flex items-center justify-center flex-shrink-0 transition-all duration-300 ${
+                        isComplete
+                          ? 'bg-green-500'
+                          : inProgress
+                            ? 'bg-amber-100 ring-2 ring-inset ring-amber-400'
+                            : 'bg-gray-200'
                       }`}>
                         {isComplete && (
                           <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round">
@@ -1245,11 +1269,16 @@ IMPORTANT:
                           </svg>
                         )}
                       </div>
-                      <span className={`transition-colors duration-300 ${
-                        isComplete ? 'text-gray-700 font-medium' : 'text-gray-500'
-                      }`}>
-                        {goal}
-                      </span>
+                      <div className="min-w-0">
+                        <span className={`transition-colors duration-300 ${
+                          isComplete ? 'text-gray-700 font-medium' : inProgress ? 'text-gray-700' : 'text-gray-500'
+                        }`}>
+                          {item.goal}
+                        </span>
+                        {isComplete && item.evidence && (
+                          <p className="text-[11px] text-gray-400 italic line-clamp-1">&ldquo;{item.evidence}&rdquo;</p>
+                        )}
+                      </div>
                     </div>
                   );
                 })}
@@ -1366,13 +1395,12 @@ IMPORTANT:
             ) : (
               <div className="flex flex-col items-start max-w-[90%]">
                 <div 
-                  ref={typingMessageId === msg.id ? typingMessageRef : null}
+                  ref={streamingMessageId === msg.id ? streamingMessageRef : null}
                   className="message-text text-[#191D20] text-[15px] font-medium leading-relaxed px-1 selection:bg-blue-200 selection:text-black"
                 >
-                  {/* 显示打字动画或完整文本 */}
-                  {typingMessageId === msg.id ? displayedText : msg.text}
-                  {/* 打字光标 */}
-                  {typingMessageId === msg.id && (
+                  {msg.text}
+                  {/* 流式输出光标 */}
+                  {streamingMessageId === msg.id && (
                     <span className="inline-block w-[2px] h-[1.2em] bg-blue-500 ml-0.5 animate-pulse" />
                   )}
                 </div>
@@ -1381,7 +1409,7 @@ IMPORTANT:
           </div>
         ))}
 
-        {isProcessing && (
+        {isProcessing && !streamingMessageId && (
           <div className="flex items-center gap-2 px-1 animate-in fade-in duration-200">
             <div className="flex items-center gap-1.5 text-sm">
               <span className="bg-gradient-to-r from-apple-blue to-apple-blue-light bg-clip-text text-transparent font-medium">
@@ -1621,7 +1649,6 @@ IMPORTANT:
                     onClick={() => {
                       stopLiveSession();
                       setIsLiveActive(false);
-                      setShowGoalComplete(false);
                     }}
                     className="w-full bg-white/90 hover:bg-white text-green-600 font-semibold py-3 px-4 rounded-xl transition-all shadow-lg flex items-center justify-center gap-2"
                   >
@@ -1630,6 +1657,14 @@ IMPORTANT:
                   </button>
                 ) : (
                   <>
+                    <button
+                      onClick={() => setShowReport(true)}
+                      disabled={!report}
+                      className="w-full bg-white/20 hover:bg-white/30 text-white font-semibold py-3 px-4 rounded-xl transition-all border border-white/30 backdrop-blur-sm flex items-center justify-center gap-2 disabled:opacity-70"
+                    >
+                      {isGeneratingReport && <Loader2 size={16} className="animate-spin" />}
+                      {report ? 'View Report' : isGeneratingReport ? 'Preparing Report…' : 'Report Unavailable'}
+                    </button>
                     <button
                       onClick={() => {
                         setShowGoalComplete(false);
@@ -1654,6 +1689,10 @@ IMPORTANT:
         </div>
       )}
 
+      {showReport && report && (
+        <DialogueReportView report={report} title={loadedScenario.location} onClose={() => setShowReport(false)} />
+      )}
+
       {/* Gemini Live Call Button - Floating Bottom Right */}
       <div className="absolute bottom-36 right-6 z-40">
         <button
@@ -3,6 +3,8 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { ArrowLeft, Sparkles, BookOpen, TrendingUp, Target, Volume2, Languages, Wand2, Loader2, Copy, Bookmark } from 'lucide-react';
 import { storage } from '@/lib/utils/storage';
+import type { AiModelPreference } from '@/lib/types';
+import { apiFetch } from '@/lib/utils/api';
 
 interface DiaryEditorProps {
   isOpen: boolean;
@@ -62,6 +64,7 @@ export default function DiaryEditor({ isOpen, onClose }: DiaryEditorProps) {
   const [text, setText] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [modelPreference, setModelPreference] = useState<AiModelPreference>('auto');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   
   // Selection State
@@ -86,6 +89,14 @@ export default function DiaryEditor({ isOpen, onClose }: DiaryEditorProps) {
     }
   }, [isOpen]);
 
+  // Re-read the model preference each time the editor opens (PlanSettings may have changed it)
+  useEffect(() => {
+    if (!isOpen) return;
+    storage.getItem<AiModelPreference>('speakSnapModel').then((saved) => {
+      if (saved) setModelPreference(saved);
+    });
+  }, [isOpen]);
+
   // Detect mobile device
   useEffect(() => {
     const checkMobile = () => {
@@ -230,10 +241,10 @@ export default function DiaryEditor({ isOpen, onClose }: DiaryEditorProps) {
 
     setIsAnalyzing(true);
     try {
-      const response = await fetch('/api/diary', {
+      const response = await apiFetch('/api/diary', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text }),
+        body: JSON.stringify({ text, model: modelPreference }),
       });
 
       if (!response.ok) {
@@ -289,7 +300,7 @@ export default function DiaryEditor({ isOpen, onClose }: DiaryEditorProps) {
             let videoIds: string[] = [];
             try {
               const searchQuery = `${f.term} English pronunciation usage example`;
-              const videoResponse = await fetch(`/api/youtube/search?q=${encodeURIComponent(searchQuery)}`);
+              const videoResponse = await apiFetch(`/api/youtube/search?q=${encodeURIComponent(searchQuery)}`);
               if (videoResponse.ok) {
                 const videoData = await videoResponse.json();
                 videoIds = (videoData.videos || []).slice(0, 3).map((v: any) => v.videoId);
@@ -353,10 +364,10 @@ export default function DiaryEditor({ isOpen, onClose }: DiaryEditorProps) {
     setSelectionActionLoading(true);
 
     try {
-      const response = await fetch('/api/translate', {
+      const response = await apiFetch('/api/translate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: selectionMenu.text }),
+        body: JSON.stringify({ text: selectionMenu.text, model: modelPreference }),
       });
 
       if (!response.ok) throw new Error('Translation failed');
@@ -376,10 +387,10 @@ export default function DiaryEditor({ isOpen, onClose }: DiaryEditorProps) {
     setSelectionActionLoading(true);
 
     try {
-      const response = await fetch('/api/optimize', {
+      const response = await apiFetch('/api/optimize', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: selectionMenu.text }),
+        body: JSON.stringify({ text: selectionMenu.text, model: modelPreference }),
       });
 
       if (!response.ok) throw new Error('Optimization failed');
@@ -408,13 +419,14 @@ export default function DiaryEditor({ isOpen, onClose }: DiaryEditorProps) {
     document.body.appendChild(processingToast);
 
     try {
-      const response = await fetch('/api/flashcard/generate', {
+      const response = await apiFetch('/api/flashcard/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           text: selectedText,
           context: context,
           scenario: 'Diary Entry',
+          model: modelPreference,
         }),
       });
 
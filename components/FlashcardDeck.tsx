@@ -1,9 +1,24 @@
 'use client';
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { Bookmark, Volume2, Trash2, BookOpen, MessageCircle, ChevronUp, ChevronDown, Youtube } from 'lucide-react';
-import { Flashcard } from '@/lib/types';
+import { Bookmark, Volume2, Trash2, BookOpen, MessageCircle, ChevronUp, ChevronDown, Youtube, CheckCircle2, Download } from 'lucide-react';
+import { Flashcard, ReviewGrade } from '@/lib/types';
 import { storage } from '@/lib/utils/storage';
+import FlashcardExportSheet from '@/components/FlashcardExportSheet';
+import {
+  REVIEW_GRADES,
+  formatNextInterval,
+  getDueQueue,
+  getReviewStats,
+  gradeCard,
+} from '@/lib/utils/spacedRepetition';
+
+const GRADE_STYLES: Record<ReviewGrade, { label: string; className: string }> = {
+  again: { label: 'Again', className: 'bg-red-50 text-red-600 border-red-100' },
+  hard: { label: 'Hard', className: 'bg-orange-50 text-orange-600 border-orange-100' },
+  good: { label: 'Good', className: 'bg-green-50 text-green-700 border-green-100' },
+  easy: { label: 'Easy', className: 'bg-blue-50 text-blue-600 border-blue-100' },
+};
 
 // YouGlish API types
 declare global {
@@ -43,6 +58,9 @@ export default function FlashcardDeck() {
   const [videoErrors, setVideoErrors] = useState<{ [key: string]: boolean }>({});
   const [videoLoaded, setVideoLoaded] = useState<{ [key: string]: boolean }>({});
   const [playingVideoId, setPlayingVideoId] = useState<string | null>(null); // 当前播放的视频ID
+  const [reviewMode, setReviewMode] = useState<'due' | 'all'>('due');
+  const [queueIds, setQueueIds] = useState<string[]>([]); // Today's review queue (card ids), built once per session
+  const [showExport, setShowExport] = useState(false);
   
   const touchStartRef = useRef<{ x: number; y: number; time: number } | null>(null);
   const iframeRefs = useRef<{ [key: string]: HTMLIFrameElement | null }>({});
@@ -79,6 +97,7 @@ export default function FlashcardDeck() {
       if (savedCards && savedCards.length > 0) {
         console.log('First card:', savedCards[0]);
         setFlashcards(savedCards);
+        setQueueIds(getDueQueue(savedCards).map((c) => c.id));
       } else {
         console.log('⚠️ No flashcards found in storage');
       }
@@ -101,6 +120,24 @@ export default function FlashcardDeck() {
     };
   }, []);
 
+  // Cards currently shown: today's queue in review mode, everything in browse mode
+  const deck = useMemo(() => {
+    if (reviewMode === 'all') return flashcards;
+    const byId = new Map(flashcards.map((c) => [c.id, c]));
+    return queueIds.map((id) => byId.get(id)).filter((c): c is Flashcard => !!c);
+  }, [reviewMode, flashcards, queueIds]);
+
+  const reviewStats = useMemo(() => getReviewStats(flashcards), [flashcards]);
+
+  const switchMode = useCallback((mode: 'due' | 'all') => {
+    if (mode === 'due') {
+      setQueueIds(getDueQueue(flashcards).map((c) => c.id));
+    }
+    setReviewMode(mode);
+    setActiveIndex(0);
+    setIsFlipped(false);
+  }, [flashcards]);
+
   useEffect(() => {
     setIsFlipped(false);
     // Stop any playing video when switching cards
@@ -111,7 +148,7 @@ export default function FlashcardDeck() {
     });
     // Cleanup YouGlish widgets for inactive cards
     Object.keys(youglishWidgetsRef.current).forEach((cardId) => {
-      const currentCard = flashcards[activeIndex];
+      const currentCard = deck[activeIndex];
       if (currentCard && cardId !== currentCard.id) {
         const widget = youglishWidgetsRef.current[cardId];
         if (widget && typeof widget.destroy === 'function') {
@@ -124,13 +161,13 @@ export default function FlashcardDeck() {
         delete youglishWidgetsRef.current[cardId];
       }
     });
-  }, [activeIndex, flashcards]);
+  }, [activeIndex, deck]);
 
   // Initialize YouGlish widget when card is flipped and active
   useEffect(() => {
     if (!isFlipped || !youglishReadyRef.current) return;
     
-    const currentCard = flashcards[activeIndex];
+    const currentCard = deck[activeIndex];
     if (!currentCard) return;
 
     const widgetId = `youglish-widget-${currentCard.id}`;
@@ -278,12 +315,12 @@ export default function FlashcardDeck() {
     }, 100);
 
     return () => clearTimeout(timer);
-  }, [isFlipped, activeIndex, flashcards]);
+  }, [isFlipped, activeIndex, deck]);
 
   useEffect(() => {
     // Reset scroll position when flipping to back
     if (isFlipped) {
-      const currentCard = flashcards[activeIndex];
+      const currentCard = deck[activeIndex];
       if (currentCard) {
         const scrollEl = scrollRefs.current[currentCard.id];
         if (scrollEl) {
@@ -294,7 +331,7 @@ export default function FlashcardDeck() {
       // Stop video when flipping to front
       setPlayingVideoId(null);
     }
-  }, [isFlipped, activeIndex, flashcards]);
+  }, [isFlipped, activeIndex, deck]);
 
   const playAudio = useCallback((text: string, e?: React.MouseEvent) => {
     e?.stopPropagation();
@@ -305,18 +342,39 @@ export default function FlashcardDeck() {
 
   const deleteCurrentCard = useCallback(async (e: React.MouseEvent) => {
     e.stopPropagation();
-    const currentCard = flashcards[activeIndex];
+    const currentCard = deck[activeIndex];
     if (!currentCard) return;
 
     const updated = flashcards.filter((f) => f.id !== currentCard.id);
     setFlashcards(updated);
+    setQueueIds((prev) => prev.filter((id) => id !== currentCard.id));
+    await storage.setItem('speakSnapFlashcards', updated);
+
+    if (activeIndex >= deck.length - 1) {
+      setActiveIndex(Math.max(0, deck.length - 2));
+    }
+    setIsFlipped(false);
+  }, [flashcards, deck, activeIndex]);
+
+  /** Reschedule the active card; "Again" sends it to the back of today's queue. */
+  const gradeCurrentCard = useCallback(async (grade: ReviewGrade, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const currentCard = deck[activeIndex];
+    if (!currentCard) return;
+
+    const graded = gradeCard(currentCard, grade);
+    const updated = flashcards.map((f) => (f.id === graded.id ? graded : f));
+    setFlashcards(updated);
     await storage.setItem('speakSnapFlashcards', updated);
 
-    if (activeIndex >= updated.length) {
-      setActiveIndex(Math.max(0, updated.length - 1));
+    const remaining = queueIds.filter((id) => id !== graded.id);
+    const nextQueue = grade === 'again' ? [...remaining, graded.id] : remaining;
+    setQueueIds(nextQueue);
+    if (activeIndex >= nextQueue.length) {
+      setActiveIndex(Math.max(0, nextQueue.length - 1));
     }
     setIsFlipped(false);
-  }, [flashcards, activeIndex]);
+  }, [deck, flashcards, queueIds, activeIndex]);
 
   const handleTouchStart = (e: React.TouchEvent) => {
     const target = e.target as HTMLElement;
@@ -387,7 +445,7 @@ export default function FlashcardDeck() {
       // Swipe left/right to change cards
       if (deltaX > 0 && activeIndex > 0) {
         setActiveIndex((prev) => prev - 1);
-      } else if (deltaX < 0 && activeIndex < flashcards.length - 1) {
+      } else if (deltaX < 0 && activeIndex < deck.length - 1) {
         setActiveIndex((prev) => prev + 1);
       }
     } else if (isTap) {
@@ -473,10 +531,63 @@ export default function FlashcardDeck() {
     );
   }
 
-  console.log('✅ Rendering', flashcards.length, 'flashcards, active:', activeIndex);
+  console.log('✅ Rendering', deck.length, 'of', flashcards.length, 'flashcards, active:', activeIndex);
 
   return (
     <div className="flex-1 flex flex-col items-center relative perspective-[1200px] min-h-[500px] w-full">
+      {/* Review mode toggle: today's due queue vs. browsing every card */}
+      <div className="w-full flex items-center gap-2 mb-3" role="tablist">
+        <button
+          onClick={() => switchMode('due')}
+          className={`flex-1 py-2 px-3 rounded-xl text-xs font-semibold transition-all touch-manipulation min-h-[40px] ${
+            reviewMode === 'due' ? 'bg-white shadow-sm text-black' : 'text-gray-400 hover:text-gray-600'
+          }`}
+          role="tab"
+          aria-selected={reviewMode === 'due'}
+        >
+          Due today ({reviewStats.due + reviewStats.new})
+        </button>
+        <button
+          onClick={() => switchMode('all')}
+          className={`flex-1 py-2 px-3 rounded-xl text-xs font-semibold transition-all touch-manipulation min-h-[40px] ${
+            reviewMode === 'all' ? 'bg-white shadow-sm text-black' : 'text-gray-400 hover:text-gray-600'
+          }`}
+          role="tab"
+          aria-selected={reviewMode === 'all'}
+        >
+          All cards ({flashcards.length})
+        </button>
+        <button
+          onClick={() => setShowExport(true)}
+          className="p-2 rounded-xl text-gray-400 hover:text-gray-600 hover:bg-white transition-all touch-manipulation min-h-[40px] min-w-[40px] flex items-center justify-center"
+          aria-label="Export cards"
+          title="Export to CSV / Anki"
+        >
+          <Download size={18} />
+        </button>
+      </div>
+
+      {showExport && <FlashcardExportSheet flashcards={flashcards} onClose={() => setShowExport(false)} />}
+
+      {deck.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center w-full">
+          <div className="bg-white rounded-2xl p-8 text-center shadow-float border border-gray-100/50 w-full animate-in fade-in">
+            <div className="w-16 h-16 bg-green-50 rounded-full flex items-center justify-center mx-auto mb-4">
+              <CheckCircle2 className="text-green-500" size={32} />
+            </div>
+            <h3 className="font-semibold text-gray-900">All caught up!</h3>
+            <p className="text-gray-500 text-sm mt-1">
+              No cards due today. {reviewStats.learned} of {reviewStats.total} cards learned.
+            </p>
+            <button
+              onClick={() => switchMode('all')}
+              className="mt-5 text-sm font-semibold text-apple-blue hover:underline touch-manipulation"
+            >
+              Browse all cards
+            </button>
+          </div>
+        </div>
+      ) : (
       <div
         className="relative w-full flex-1 max-h-[calc(100vh-240px)]"
         onTouchStart={handleTouchStart}
@@ -487,7 +598,7 @@ export default function FlashcardDeck() {
           WebkitTapHighlightColor: 'transparent',
         }}
       >
-        {flashcards.map((card, index) => {
+        {deck.map((card, index) => {
           if (index < activeIndex - 1 || index > activeIndex + 2) return null;
 
           const isActive = index === activeIndex;
@@ -503,7 +614,7 @@ export default function FlashcardDeck() {
           const isVideoLoaded = videoLoaded[card.id] || false;
 
           let style: React.CSSProperties = {
-            zIndex: flashcards.length - index,
+            zIndex: deck.length - index,
             transition: isPrev
               ? 'transform 0.4s ease-in, opacity 0.4s'
               : 'transform 0.5s cubic-bezier(0.2, 0.8, 0.2, 1), opacity 0.5s',
@@ -548,7 +659,7 @@ export default function FlashcardDeck() {
                   {/* Card counter */}
                   <div className="absolute top-4 right-4 z-10">
                     <div className="text-[10px] font-mono text-white/70 bg-black/30 px-2.5 py-1 rounded-full backdrop-blur-md">
-                      {index + 1} / {flashcards.length}
+                      {index + 1} / {deck.length}
                     </div>
                   </div>
 
@@ -849,6 +960,26 @@ export default function FlashcardDeck() {
 
                   </div>
 
+                  {/* Grade buttons - only while reviewing today's queue */}
+                  {isActive && reviewMode === 'due' && (
+                    <div className="flex-shrink-0 grid grid-cols-4 gap-2 px-4 pt-3 bg-white border-t border-gray-100">
+                      {REVIEW_GRADES.map((grade) => (
+                        <button
+                          key={grade}
+                          onClick={(e) => gradeCurrentCard(grade, e)}
+                          onTouchStart={(e) => e.stopPropagation()}
+                          className={`flex flex-col items-center justify-center py-2 rounded-xl border text-xs font-semibold transition-all active:scale-95 pointer-events-auto touch-manipulation ${GRADE_STYLES[grade].className}`}
+                          aria-label={`Grade ${GRADE_STYLES[grade].label}`}
+                        >
+                          <span>{GRADE_STYLES[grade].label}</span>
+                          <span className="text-[10px] font-normal opacity-70">
+                            {formatNextInterval(card.review, grade)}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Footer - Tap to flip - Apple Frosted Glass */}
                   <div 
                     className="flex-shrink-0 py-5 px-4 text-center cursor-pointer transition-all relative overflow-hidden"
@@ -889,6 +1020,7 @@ export default function FlashcardDeck() {
           );
         })}
       </div>
+      )}
     </div>
   );
 }
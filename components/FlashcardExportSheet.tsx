@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useState } from 'react';
+import { X, Check, FileSpreadsheet, Package, Loader2 } from 'lucide-react';
+import { Flashcard } from '@/lib/types';
+import { downloadFlashcards, type ExportFormat } from '@/lib/utils/flashcardExport';
+
+interface FlashcardExportSheetProps {
+  flashcards: Flashcard[];
+  onClose: () => void;
+}
+
+/** Pick cards (all by default) and download them as CSV or an Anki package. */
+export default function FlashcardExportSheet({ flashcards, onClose }: FlashcardExportSheetProps) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(flashcards.map((c) => c.id)));
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const allSelected = selected.size === flashcards.length;
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(flashcards.map((c) => c.id)));
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      await downloadFlashcards(flashcards.filter((c) => selected.has(c.id)), format);
+      console.log(`📤 Exported ${selected.size} flashcards as ${format}`);
+      onClose();
+    } catch (err) {
+      console.error('Flashcard export error:', err);
+      setError('Export failed. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/20 backdrop-blur-sm animate-in fade-in duration-300"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md max-h-[80vh] flex flex-col bg-white rounded-t-3xl sm:rounded-3xl shadow-2xl animate-in slide-in-from-bottom duration-300"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 pt-5 pb-3">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900">Export cards</h2>
+            <p className="text-xs text-gray-500">
+              {selected.size} of {flashcards.length} selected
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-gray-100 text-gray-500 touch-manipulation"
+            aria-label="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <button
+          onClick={toggleAll}
+          className="mx-5 mb-2 self-start text-xs font-semibold text-apple-blue hover:underline touch-manipulation"
+        >
+          {allSelected ? 'Deselect all' : 'Select all'}
+        </button>
+
+        <ul className="flex-1 overflow-y-auto no-scrollbar px-5 space-y-1.5">
+          {flashcards.map((card) => {
+            const isSelected = selected.has(card.id);
+            return (
+              <li key={card.id}>
+                <button
+                  onClick={() => toggle(card.id)}
+                  className={`w-full flex items-center gap-3 p-3 rounded-xl border text-left transition-colors touch-manipulation ${
+                    isSelected ? 'border-gray-900/10 bg-gray-50' : 'border-transparent'
+                  }`}
+                  aria-pressed={isSelected}
+                >
+                  <span
+                    className={`w-5 h-5 shrink-0 rounded-md flex items-center justify-center border ${
+                      isSelected ? 'bg-gray-900 border-gray-900 text-white' : 'border-gray-300'
+                    }`}
+                  >
+                    {isSelected && <Check size={14} strokeWidth={3} />}
+                  </span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm font-semibold text-gray-900 truncate">{card.front}</span>
+                    <span className="block text-xs text-gray-500 truncate">{card.back?.translation}</span>
+                  </span>
+                  {card.source && (
+                    <span className="text-[10px] uppercase tracking-wider font-medium text-gray-400">{card.source}</span>
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="p-5 space-y-2">
+          {error && <p className="text-xs text-red-600 text-center">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleExport('csv')}
+              disabled={selected.size === 0 || exporting !== null}
+              className="flex-1 py-3 px-4 rounded-xl bg-gray-100 text-gray-900 font-semibold text-sm flex items-center justify-center gap-2 disabled:opacity-50 touch-manipulation"
+            >
+              {exporting === 'csv' ? <Loader2 size={16} className="animate-spin" /> : <FileSpreadsheet size={16} />}
+              CSV
+            </button>
+            <button
+              onClick={() => handleExport('apkg')}
+              disabled={selected.size === 0 || exporting !== null}
+              className="flex-1 py-3 px-4 rounded-xl bg-gray-900 text-white font-semibold text-sm flex items-center justify-center gap-2 disabled:opacity-50 touch-manipulation"
+            >
+              {exporting === 'apkg' ? <Loader2 size={16} className="animate-spin" /> : <Package size={16} />}
+              Anki (.apkg)
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
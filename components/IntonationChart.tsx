@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import type { ShadowAcousticMetrics, ShadowWordAnalysis } from '@/lib/types';
+import { buildIntonationComparison, type IntonationPoint } from '@/lib/utils/intonation';
+
+interface IntonationChartProps {
+  metrics: ShadowAcousticMetrics;
+  /** Words with ref/user timings; enables word labels and stress marks. */
+  words: ShadowWordAnalysis[] | null;
+}
+
+const MIN_WIDTH = 600;
+const PX_PER_SECOND = 110; // long passages scroll sideways instead of squashing
+const HEIGHT = 180;
+const PAD_X = 12;
+const PAD_TOP = 16;
+const PAD_BOTTOM = 28; // room for word labels
+const SEMITONE_SPAN = 8; // ± semitones shown around the speaker's median
+
+/**
+ * Reference vs. learner pitch (F0) on one time-aligned chart, relative to each speaker's
+ * median. Dots mark stressed syllables; red ones are where the learner's melody went flat.
+ */
+export function IntonationChart({ metrics, words }: IntonationChartProps) {
+  const data = useMemo(() => buildIntonationComparison(metrics, words), [metrics, words]);
+
+  const span = Math.max(0.5, data.end - data.start);
+  const width = Math.max(MIN_WIDTH, Math.round(span * PX_PER_SECOND));
+  const x = (t: number) => PAD_X + ((t - data.start) / span) * (width - 2 * PAD_X);
+  const y = (st: number) => {
+    const clamped = Math.max(-SEMITONE_SPAN, Math.min(SEMITONE_SPAN, st));
+    return PAD_TOP + ((SEMITONE_SPAN - clamped) / (2 * SEMITONE_SPAN)) * (HEIGHT - PAD_TOP - PAD_BOTTOM);
+  };
+  const path = (runs: IntonationPoint[][]) =>
+    runs
+      .map((run) => run.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.time).toFixed(1)},${y(p.semitones).toFixed(1)}`).join(''))
+      .join('');
+
+  const flatCount = data.stresses.filter((s) => s.flat).length;
+  // Every word fits on a sentence; on a whole lesson only the stressed ones are labelled
+  const labels = data.words.length <= 20 ? data.words : data.stresses.map((s) => ({ word: s.word, time: s.time }));
+  const hasPitch = data.reference.length > 0 && data.learner.length > 0;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-float border border-black/5">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="text-sm font-semibold text-primary-900">Intonation</h3>
+        <div className="flex items-center gap-3 text-[11px] text-gray-500">
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-0.5 rounded bg-emerald-500" /> Native
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-0.5 rounded bg-blue-500" /> You
+          </span>
+        </div>
+      </div>
+
+      {hasPitch ? (
+        <div className="overflow-x-auto no-scrollbar">
+          <svg
+            viewBox={`0 0 ${width} ${HEIGHT}`}
+            className="w-full h-auto"
+            style={width > MIN_WIDTH ? { minWidth: width } : undefined}
+            role="img"
+            aria-label="Pitch contour comparison"
+          >
+            <line x1={PAD_X} x2={width - PAD_X} y1={y(0)} y2={y(0)} stroke="#e5e7eb" strokeDasharray="4 4" />
+            {labels.map((w, i) => (
+              <g key={i}>
+                <line x1={x(w.time)} x2={x(w.time)} y1={PAD_TOP} y2={HEIGHT - PAD_BOTTOM} stroke="#f3f4f6" />
+                <text x={x(w.time) + 2} y={HEIGHT - 10} fontSize="11" fill="#9ca3af">
+                  {w.word}
+                </text>
+              </g>
+            ))}
+            <path d={path(data.reference)} fill="none" stroke="#10b981" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" />
+            <path d={path(data.learner)} fill="none" stroke="#3b82f6" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" opacity="0.85" />
+            {data.stresses.map((s, i) => (
+              <g key={i}>
+                <circle cx={x(s.time)} cy={y(s.reference)} r="4.5" fill="#10b981" stroke="#fff" strokeWidth="1.5" />
+                {s.learner !== null && (
+                  <circle
+                    cx={x(s.time)}
+                    cy={y(s.learner)}
+                    r="4.5"
+                    fill={s.flat ? '#ef4444' : '#3b82f6'}
+                    stroke="#fff"
+                    strokeWidth="1.5"
+                  />
+                )}
+              </g>
+            ))}
+          </svg>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400 italic">Not enough voiced speech to draw a pitch curve.</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-4 text-xs mt-3">
+        <div>
+          <span className="block text-gray-400 font-medium mb-1">Pitch range</span>
+          <span className="text-primary-900">
+            You {data.rangeSemitones.learner} st · Native {data.rangeSemitones.reference} st
+          </span>
+        </div>
+        <div>
+          <span className="block text-gray-400 font-medium mb-1">Stressed words</span>
+          <span className="text-primary-900">
+            {data.stresses.length === 0
+              ? words
+                ? 'None detected'
+                : 'Aligning...'
+              : flatCount === 0
+                ? 'Your melody follows the native speaker'
+                : `Flat on ${data.stresses
+                    .filter((s) => s.flat)
+                    .map((s) => `"${s.word}"`)
+                    .join(', ')}`}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,15 @@
 
 import React, { useState, useEffect, useCallback, useRef, lazy, Suspense } from 'react';
 import { useParams, useRouter } from 'next/navigation';
-import { Scenario, DialogueRecord, UserLevel, PracticeMode } from '@/lib/types';
+import {
+  Scenario,
+  DialogueRecord,
+  UserLevel,
+  PracticeMode,
+  VoicePreference,
+  AiModelPreference,
+  DifficultyDirection,
+} from '@/lib/types';
 import {
   Camera,
   MapPin,
@@ -18,12 +26,19 @@ import {
   Eye,
   Trash2,
   Loader2,
+  BarChart3,
+  TrendingUp,
+  TrendingDown,
 } from 'lucide-react';
 import FlashcardDeck from './FlashcardDeck';
 import DiaryEditor from './DiaryEditor';
+import { DialogueReportView } from './DialogueReportView';
+import { adaptScenario, shiftCefr, suggestDifficultyDirection, summarizeAttempts } from '@/lib/utils/scenarioDifficulty';
 import { storage } from '@/lib/utils/storage';
+import { DEFAULT_SHADOW_VOICE, parseVoicePreference } from '@/lib/constants/voices';
 import { PRIMARY_BUTTON_BASE, PRIMARY_BUTTON_FAB } from '@/lib/constants/theme';
 import { prefetchShadowChallenge } from '@/lib/shadowCache';
+import { SYNC_EVENT } from '@/lib/supabase/sync';
 
 const ShadowReadingScreen = lazy(() => import('./ShadowReadingScreen'));
 const TextbookScreen = lazy(() => import('./TextbookScreen'));
@@ -44,6 +59,7 @@ export default function LibraryScreen() {
   
   const [userLevel, setUserLevel] = useState<UserLevel>('Beginner');
   const [practiceMode, setPracticeMode] = useState<PracticeMode>('Daily');
+  const [shadowVoice, setShadowVoice] = useState<VoicePreference>(DEFAULT_SHADOW_VOICE);
   const [activeTab, setActiveTab] = useState<'scenarios' | 'flashcards' | 'diary' | 'shadow' | 'textbook'>('scenarios');
 
   // Load user settings
@@ -53,6 +69,8 @@ export default function LibraryScreen() {
       if (savedLevel) setUserLevel(savedLevel);
       const savedMode = await storage.getItem<PracticeMode>('speakSnapPracticeMode');
       if (savedMode) setPracticeMode(savedMode);
+      const savedVoice = await storage.getItem<VoicePreference>('speakSnapVoice');
+      if (savedVoice) setShadowVoice(parseVoicePreference(savedVoice, DEFAULT_SHADOW_VOICE));
     })();
   }, []);
 
@@ -73,6 +91,8 @@ export default function LibraryScreen() {
   }, [urlTab]);
   const [savedScenarios, setSavedScenarios] = useState<Scenario[]>([]);
   const [expandedScenarioId, setExpandedScenarioId] = useState<string | null>(null);
+  const [reportView, setReportView] = useState<{ scenario: Scenario; dialogue: DialogueRecord } | null>(null);
+  const [adapting, setAdapting] = useState<{ scenarioId: string; direction: DifficultyDirection } | null>(null);
   const [isWritingDiary, setIsWritingDiary] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [diaryEntries, setDiaryEntries] = useState<DiaryEntry[]>([]);
@@ -87,8 +107,8 @@ export default function LibraryScreen() {
 
   // Preload shadow challenge as soon as Library mounts (do not wait for Shadow tab click)
   useEffect(() => {
-    prefetchShadowChallenge(userLevel, practiceMode);
-  }, [userLevel, practiceMode]);
+    prefetchShadowChallenge(userLevel, practiceMode, shadowVoice);
+  }, [userLevel, practiceMode, shadowVoice]);
 
   const loadScenarios = useCallback(async () => {
     const scenarios = await storage.getItem<Scenario[]>('speakSnapScenarios');
@@ -117,6 +137,16 @@ export default function LibraryScreen() {
     }
   }, []);
 
+  // Pick up records pulled from the cloud while the Library is open
+  useEffect(() => {
+    const handleSynced = () => {
+      loadScenarios();
+      loadDiaries();
+    };
+    window.addEventListener(SYNC_EVENT, handleSynced);
+    return () => window.removeEventListener(SYNC_EVENT, handleSynced);
+  }, [loadScenarios, loadDiaries]);
+
   const handleDeleteDiary = useCallback(async (diaryId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (!confirm('Delete this diary entry?')) return;
@@ -163,6 +193,22 @@ export default function LibraryScreen() {
     await storage.setItem('speakSnapScenarios', updatedScenarios);
   };
 
+  const handleRetryAdapted = async (scenario: Scenario, direction: DifficultyDirection) => {
+    if (adapting) return;
+    setAdapting({ scenarioId: scenario.id, direction });
+    try {
+      const model = (await storage.getItem<AiModelPreference>('speakSnapModel')) || 'auto';
+      const updated = await adaptScenario(scenario, direction, userLevel, model);
+      setSavedScenarios((list) => list.map((s) => (s.id === updated.id ? updated : s)));
+      router.push(`/dialogue/${updated.id}`);
+    } catch (error) {
+      console.error('Failed to adapt scenario:', error);
+      alert(error instanceof Error ? error.message : 'Could not prepare the new version. Please try again.');
+    } finally {
+      setAdapting(null);
+    }
+  };
+
   const toggleExpand = (scenarioId: string) => {
     setExpandedScenarioId(expandedScenarioId === scenarioId ? null : scenarioId);
   };
@@ -288,7 +334,7 @@ export default function LibraryScreen() {
               </div>
             }
           >
-            <ShadowReadingScreen userLevel={userLevel} practiceMode={practiceMode} />
+            <ShadowReadingScreen userLevel={userLevel} practiceMode={practiceMode} voice={shadowVoice} />
           </Suspense>
         )}
         {activeTab === 'textbook' && (
@@ -320,6 +366,7 @@ export default function LibraryScreen() {
                 const isExpanded = expandedScenarioId === scenario.id;
                 const inProgressDialogue = scenario.dialogues.find((d) => !d.is_completed);
                 const completedDialogues = scenario.dialogues.filter((d) => d.is_completed);
+                const suggestedDirection = suggestDifficultyDirection(summarizeAttempts(scenario));
 
                 return (
                   <div
@@ -436,6 +483,43 @@ export default function LibraryScreen() {
                             <MessageCircle size={16} />
                             Start New Dialogue
                           </button>
+
+                          {completedDialogues.length > 0 && (
+                            <div className="grid grid-cols-2 gap-2">
+                              {(['easier', 'harder'] as const).map((direction) => {
+                                const target = shiftCefr(scenario.difficulty, direction);
+                                const isAdapting =
+                                  adapting?.scenarioId === scenario.id && adapting.direction === direction;
+                                const isSuggested = suggestedDirection === direction;
+                                return (
+                                  <button
+                                    key={direction}
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      handleRetryAdapted(scenario, direction);
+                                    }}
+                                    disabled={!target || !!adapting}
+                                    className={`px-3 py-2.5 rounded-xl font-semibold text-xs flex items-center justify-center gap-1.5 active:scale-[0.98] transition-all border disabled:opacity-50 ${
+                                      isSuggested
+                                        ? 'bg-blue-50 border-blue-200 text-blue-700'
+                                        : 'bg-white border-gray-200 text-gray-600'
+                                    }`}
+                                    title={isSuggested ? 'Recommended from your recent scores' : undefined}
+                                  >
+                                    {isAdapting ? (
+                                      <Loader2 size={14} className="animate-spin" />
+                                    ) : direction === 'harder' ? (
+                                      <TrendingUp size={14} />
+                                    ) : (
+                                      <TrendingDown size={14} />
+                                    )}
+                                    {direction === 'harder' ? 'Retry harder' : 'Retry easier'}
+                                    {target && <span className="font-normal opacity-70">({target})</span>}
+                                  </button>
+                                );
+                              })}
+                            </div>
+                          )}
                         </div>
 
                         {/* Dialogue History */}
@@ -472,9 +556,22 @@ export default function LibraryScreen() {
                                       </div>
                                       <div className="text-xs text-gray-500">
                                         {dialogue.messages.length} messages • {dialogue.user_level}
+                                        {dialogue.messages.some((m) => m.live) && ' • Live call'}
                                       </div>
                                     </div>
                                     <div className="flex items-center gap-1">
+                                      {dialogue.report && (
+                                        <button
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            setReportView({ scenario, dialogue });
+                                          }}
+                                          className="flex items-center justify-center w-8 h-8 hover:bg-gray-100 rounded-lg transition-colors"
+                                          title="View report"
+                                        >
+                                          <BarChart3 size={14} className="text-gray-400" />
+                                        </button>
+                                      )}
                                       <button
                                         onClick={(e) => {
                                           e.stopPropagation();
@@ -698,6 +795,14 @@ export default function LibraryScreen() {
           )}
         </div>
       )}
+
+      {reportView?.dialogue.report && (
+        <DialogueReportView
+          report={reportView.dialogue.report}
+          title={reportView.scenario.location}
+          onClose={() => setReportView(null)}
+        />
+      )}
     </div>
   );
 }
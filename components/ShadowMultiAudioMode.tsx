@@ -15,6 +15,8 @@ import {
 } from 'lucide-react';
 import type { ShadowDailyChallenge, ShadowAnalysisResult } from '@/lib/types';
 import { PRIMARY_BUTTON_BASE, PRIMARY_BUTTON_FAB } from '@/lib/constants/theme';
+import { apiFetch } from '@/lib/utils/api';
+import { preAnalyzeTake } from '@/lib/utils/shadowAcoustics';
 
 interface AudioEntry {
   id: string;
@@ -157,6 +159,9 @@ export function ShadowMultiAudioMode({
     const analysisPromises = withAudio.map(async (entry) => {
       setAudioEntries((prev) => prev.map((e) => (e.id === entry.id ? { ...e, analyzing: true, error: null } : e)));
       try {
+        // Reject silent/clipped/partial takes before uploading anything
+        const metrics = await preAnalyzeTake(entry.audioUrl!, `data:audio/wav;base64,${refAudioBase64}`);
+
         const userBase64 = await new Promise<string>((resolve, reject) => {
           const reader = new FileReader();
           reader.onloadend = () => {
@@ -173,7 +178,7 @@ export function ShadowMultiAudioMode({
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), 300000);
         
-        const res = await fetch('/api/shadow/analyze', {
+        const res = await apiFetch('/api/shadow/analyze', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -181,6 +186,7 @@ export function ShadowMultiAudioMode({
             userMimeType: entry.audioBlob!.type,
             refAudioBase64,
             refText: challenge.text,
+            metrics,
           }),
           signal: controller.signal,
         });
@@ -195,7 +201,7 @@ export function ShadowMultiAudioMode({
         }
         if (!res.ok) throw new Error(String((data.error ?? data.message ?? text) || 'Analysis failed'));
         
-        const result = data as unknown as ShadowAnalysisResult;
+        const result = { ...(data as unknown as ShadowAnalysisResult), metrics };
         setAudioEntries((prev) =>
           prev.map((e) => (e.id === entry.id ? { ...e, analysis: result, analyzing: false, error: null } : e))
         );
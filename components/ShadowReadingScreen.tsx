@@ -14,22 +14,39 @@ import {
   History,
   ChevronLeft as BackIcon,
   Users,
+  BarChart3,
 } from 'lucide-react';
-import type { UserLevel, PracticeMode } from '@/lib/types';
+import type { UserLevel, PracticeMode, VoicePreference } from '@/lib/types';
 import type {
   ShadowDailyChallenge,
   ShadowAnalysisResult,
   ShadowWordAnalysis,
   ShadowHistoryEntry,
 } from '@/lib/types';
-import { getCachedChallenge, getInFlightRequest, clearShadowCache } from '@/lib/shadowCache';
+import {
+  takePooledChallenge,
+  getInFlightRequest,
+  prefetchShadowChallenge,
+  savePlayedChallenge,
+  getRecentChallenges,
+  replayPooledChallenge,
+  type PooledChallengeInfo,
+} from '@/lib/shadowCache';
 import { getShadowHistory, addShadowHistoryEntry } from '@/lib/utils/shadowHistory';
+import { saveShadowRecording } from '@/lib/utils/shadowRecordings';
 import { storage } from '@/lib/utils/storage';
 import { PRIMARY_BUTTON_BASE, PRIMARY_BUTTON_FAB } from '@/lib/constants/theme';
 
 const SHADOW_SOURCE_FILE_KEY = 'speakSnapShadowSourceFile';
 import { ShadowYouTubeCard } from './ShadowYouTubeCard';
 import { ShadowMultiAudioMode } from './ShadowMultiAudioMode';
+import { apiFetch } from '@/lib/utils/api';
+import { ensureWordTimings } from '@/lib/utils/wordAlignment';
+import { preAnalyzeTake } from '@/lib/utils/shadowAcoustics';
+import { WordReplayPanel } from './WordReplayPanel';
+import { IntonationChart } from './IntonationChart';
+import { ShadowTrendsView } from './ShadowTrendsView';
+import { ShadowTakeComparison } from './ShadowTakeComparison';
 
 type ShadowState =
   | 'loading'
@@ -45,9 +62,11 @@ type AudioMode = 'single' | 'multi';
 interface ShadowReadingScreenProps {
   userLevel: UserLevel;
   practiceMode: PracticeMode;
+  /** Reference-audio voice from Plan Settings. */
+  voice: VoicePreference;
 }
 
-export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowReadingScreenProps) {
+export default function ShadowReadingScreen({ userLevel, practiceMode, voice }: ShadowReadingScreenProps) {
   const [state, setState] = useState<ShadowState>('loading');
   const [audioMode, setAudioMode] = useState<AudioMode>('single');
   const [challenge, setChallenge] = useState<ShadowDailyChallenge | null>(null);
@@ -55,6 +74,8 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
   const [refAudioUrl, setRefAudioUrl] = useState<string | null>(null);
   const [userAudioUrl, setUserAudioUrl] = useState<string | null>(null);
   const [userAudioBlob, setUserAudioBlob] = useState<Blob | null>(null);
+  /** History entry the current take was saved under, once analysed. */
+  const [savedTakeId, setSavedTakeId] = useState<string | null>(null);
   const [analysis, setAnalysis] = useState<ShadowAnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [recommendedVideos, setRecommendedVideos] = useState<Array<{
@@ -65,28 +86,26 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
   }>>([]);
 
   const [historyEntries, setHistoryEntries] = useState<ShadowHistoryEntry[]>([]);
-  const [historyView, setHistoryView] = useState<'closed' | 'list' | 'detail'>('closed');
+  const [historyView, setHistoryView] = useState<'closed' | 'list' | 'detail' | 'trends'>('closed');
   const [selectedHistoryId, setSelectedHistoryId] = useState<string | null>(null);
+  const [recentChallenges, setRecentChallenges] = useState<PooledChallengeInfo[]>([]);
+  const [offlineReplay, setOfflineReplay] = useState(false);
+  const [timedWords, setTimedWords] = useState<ShadowWordAnalysis[] | null>(null);
+  const [wordTiming, setWordTiming] = useState<'aligning' | 'ready' | 'failed'>('aligning');
+  const [selectedWordIndex, setSelectedWordIndex] = useState<number | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const refAudioUrlRef = useRef<string | null>(null);
   const userAudioUrlRef = useRef<string | null>(null);
   const loadChallengeAbortRef = useRef<AbortController | null>(null);
-  const refAudioDurationRef = useRef<number>(0);
-  const userAudioDurationRef = useRef<number>(0);
+  /** Pool id of the current challenge, so history entries can point at its reference audio. */
+  const challengeIdRef = useRef<string | null>(null);
 
-  const loadChallenge = useCallback(async () => {
-    // IELTS + uploaded file: use file as source, skip cache
-    const sourceFile =
-      practiceMode === 'IELTS'
-        ? await storage.getItem<{ uri: string; mimeType?: string; displayName?: string }>(SHADOW_SOURCE_FILE_KEY)
-        : null;
-    const useFileSource = Boolean(sourceFile?.uri);
-
-    // Sync cache check: avoid loading state when we have data (skip cache when using file)
-    const cached = !useFileSource ? getCachedChallenge(userLevel, practiceMode) : null;
-    if (cached) {
+  /** Reset the take and show a challenge with its reference audio. */
+  const showChallenge = useCallback(
+    (data: { id?: string; topic: string; text: string; sourceUrl?: string; refAudioBase64: string }) => {
       setError(null);
+      challengeIdRef.current = data.id ?? null;
       setAnalysis(null);
       setUserAudioUrl((prev) => {
         if (prev) URL.revokeObjectURL(prev);
@@ -94,129 +113,136 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
         return null;
       });
       setUserAudioBlob(null);
-      setRefAudioUrl((prev) => {
-        if (prev) URL.revokeObjectURL(prev);
-        refAudioUrlRef.current = null;
-        return null;
-      });
-      setRefAudioBase64(null);
-      setChallenge({ topic: cached.topic, text: cached.text, sourceUrl: cached.sourceUrl });
-      setRefAudioBase64(cached.refAudioBase64);
-      if (cached.refAudioBase64) {
-        const binary = atob(cached.refAudioBase64);
+      setSavedTakeId(null);
+      setChallenge({ topic: data.topic, text: data.text, sourceUrl: data.sourceUrl });
+      setRefAudioBase64(data.refAudioBase64);
+      if (refAudioUrlRef.current) URL.revokeObjectURL(refAudioUrlRef.current);
+      refAudioUrlRef.current = null;
+      setRefAudioUrl(null);
+      if (data.refAudioBase64) {
+        const binary = atob(data.refAudioBase64);
         const bytes = new Uint8Array(binary.length);
         for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
         const blob = new Blob([bytes], { type: 'audio/wav' });
         const blobUrl = URL.createObjectURL(blob);
-        if (refAudioUrlRef.current) URL.revokeObjectURL(refAudioUrlRef.current);
         refAudioUrlRef.current = blobUrl;
         setRefAudioUrl(blobUrl);
-        const audio = new Audio(blobUrl);
-        audio.onloadedmetadata = () => {
-          refAudioDurationRef.current = audio.duration;
-        };
       }
       setState('ready');
-      return;
-    }
-
-    setState('loading');
-    setError(null);
-    setAnalysis(null);
-    setUserAudioUrl((prev) => {
-      if (prev) URL.revokeObjectURL(prev);
-      userAudioUrlRef.current = null;
-      return null;
-    });
-    setUserAudioBlob(null);
-    setRefAudioUrl((prev) => {
-      if (prev) URL.revokeObjectURL(prev);
-      refAudioUrlRef.current = null;
-      return null;
-    });
-    setRefAudioBase64(null);
-    setChallenge(null);
+    },
+    []
+  );
 
+  /** Next challenge from the pool, or a fresh one; `focusWords` asks for a passage built around them. */
+  const loadChallenge = useCallback(async (focusWords?: string[]) => {
+    loadChallengeAbortRef.current?.abort();
     const ac = new AbortController();
     loadChallengeAbortRef.current = ac;
+    setOfflineReplay(false);
+
+    // IELTS + uploaded file: use file as source, skip the pool
+    const sourceFile =
+      practiceMode === 'IELTS'
+        ? await storage.getItem<{ uri: string; mimeType?: string; displayName?: string }>(SHADOW_SOURCE_FILE_KEY)
+        : null;
+    const useFileSource = Boolean(sourceFile?.uri) && !focusWords?.length;
+
     try {
-      let data: { topic: string; text: string; sourceUrl?: string; refAudioBase64: string };
-      const inFlight = !useFileSource ? getInFlightRequest() : null;
-      if (inFlight) {
-        const result = await inFlight;
+      // Ready queue first (persisted), then a refill that's already running
+      if (!useFileSource && !focusWords?.length) {
+        let pooled = await takePooledChallenge(userLevel, practiceMode, voice);
+        if (!pooled) {
+          const inFlight = getInFlightRequest(userLevel, practiceMode, voice);
+          if (inFlight) {
+            setState('loading');
+            await inFlight;
+            pooled = await takePooledChallenge(userLevel, practiceMode, voice);
+          }
+        }
         if (ac.signal.aborted) return;
-        data = {
-          topic: result.topic,
-          text: result.text,
-          sourceUrl: result.sourceUrl,
-          refAudioBase64: result.refAudioBase64,
-        };
-      } else {
-        const url =
-          typeof window !== 'undefined'
-            ? `${window.location.origin}/api/shadow/challenge`
-            : '/api/shadow/challenge';
-        const body: { level: UserLevel; mode: PracticeMode; fileUri?: string; mimeType?: string; displayName?: string } =
-          { level: userLevel, mode: practiceMode };
-        if (useFileSource && sourceFile) {
-          body.fileUri = sourceFile.uri;
-          if (sourceFile.mimeType) body.mimeType = sourceFile.mimeType;
-          if (sourceFile.displayName) body.displayName = sourceFile.displayName;
+        if (pooled) {
+          showChallenge(pooled);
+          prefetchShadowChallenge(userLevel, practiceMode, voice);
+          return;
         }
-        const res = await fetch(url, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(body),
-          signal: ac.signal,
-        });
-        const resData = (await res.json()) as {
-          topic?: string;
-          text?: string;
-          sourceUrl?: string;
-          refAudioBase64?: string;
-          error?: string;
-        };
-        if (!res.ok) throw new Error(resData.error || 'Failed to load challenge');
-        data = {
-          topic: resData.topic!,
-          text: resData.text!,
-          sourceUrl: resData.sourceUrl,
-          refAudioBase64: resData.refAudioBase64!,
-        };
       }
 
+      setState('loading');
+      setError(null);
+      setChallenge(null);
+      const url =
+        typeof window !== 'undefined'
+          ? `${window.location.origin}/api/shadow/challenge`
+          : '/api/shadow/challenge';
+      const body: {
+        level: UserLevel;
+        mode: PracticeMode;
+        voice: VoicePreference;
+        focusWords?: string[];
+        fileUri?: string;
+        mimeType?: string;
+        displayName?: string;
+      } = { level: userLevel, mode: practiceMode, voice };
+      if (focusWords?.length) body.focusWords = focusWords;
+      if (useFileSource && sourceFile) {
+        body.fileUri = sourceFile.uri;
+        if (sourceFile.mimeType) body.mimeType = sourceFile.mimeType;
+        if (sourceFile.displayName) body.displayName = sourceFile.displayName;
+      }
+      const res = await apiFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: ac.signal,
+      });
+      const resData = (await res.json()) as {
+        topic?: string;
+        text?: string;
+        sourceUrl?: string;
+        refAudioBase64?: string;
+        error?: string;
+      };
+      if (!res.ok) throw new Error(resData.error || 'Failed to load challenge');
+      const data = {
+        topic: resData.topic!,
+        text: resData.text!,
+        sourceUrl: resData.sourceUrl,
+        refAudioBase64: resData.refAudioBase64!,
+      };
+
       if (ac.signal.aborted) return;
-      setChallenge({ topic: data.topic, text: data.text, sourceUrl: data.sourceUrl });
-      setRefAudioBase64(data.refAudioBase64);
-      if (data.refAudioBase64) {
-        const binary = atob(data.refAudioBase64);
-        const bytes = new Uint8Array(binary.length);
-        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
-        const blob = new Blob([bytes], { type: 'audio/wav' });
-        const blobUrl = URL.createObjectURL(blob);
-        if (refAudioUrlRef.current) URL.revokeObjectURL(refAudioUrlRef.current);
-        refAudioUrlRef.current = blobUrl;
-        setRefAudioUrl(blobUrl);
-        const audio = new Audio(blobUrl);
-        audio.onloadedmetadata = () => {
-          refAudioDurationRef.current = audio.duration;
-        };
+      showChallenge(data);
+      if (!useFileSource) {
+        savePlayedChallenge(data, userLevel, practiceMode, voice).then((saved) => {
+          if (saved && !ac.signal.aborted) challengeIdRef.current = saved.id;
+        });
+        prefetchShadowChallenge(userLevel, practiceMode, voice);
       }
-      setState('ready');
     } catch (e) {
       if (e instanceof Error && e.name === 'AbortError') return;
       if (ac.signal.aborted) return;
       console.error(e);
-      clearShadowCache();
       const msg = e instanceof Error ? e.message : 'Unable to load challenge.';
       const isNetworkError =
         msg.includes('fetch failed') ||
         msg.includes('Failed to fetch') ||
         (e instanceof TypeError && msg.toLowerCase().includes('fetch'));
+
+      // No network: fall back to the most recent saved challenge
+      if (isNetworkError && !useFileSource) {
+        const [recent] = await getRecentChallenges(userLevel, practiceMode);
+        const saved = recent ? await replayPooledChallenge(recent) : null;
+        if (saved && !ac.signal.aborted) {
+          console.log('📴 Offline: replaying a saved shadow challenge');
+          showChallenge(saved);
+          setOfflineReplay(true);
+          return;
+        }
+      }
       setError(isNetworkError ? 'Network error. Check your connection and try again.' : msg);
       setState('error');
     }
-  }, [userLevel, practiceMode]);
+  }, [userLevel, practiceMode, voice, showChallenge]);
 
   useEffect(() => {
     loadChallenge();
@@ -268,12 +294,8 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
         if (userAudioUrlRef.current) URL.revokeObjectURL(userAudioUrlRef.current);
         userAudioUrlRef.current = url;
         setUserAudioBlob(blob);
+        setSavedTakeId(null);
         setUserAudioUrl(url);
-        // Get user audio duration
-        const audio = new Audio(url);
-        audio.onloadedmetadata = () => {
-          userAudioDurationRef.current = audio.duration;
-        };
         setState('has_recording');
       };
 
@@ -301,16 +323,23 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
     }
     setUserAudioUrl(null);
     setUserAudioBlob(null);
+    setSavedTakeId(null);
     setState('ready');
   };
 
   const runAnalysis = async () => {
-    if (!userAudioBlob || !challenge || !refAudioBase64) return;
+    if (!userAudioBlob || !userAudioUrl || !challenge || !refAudioBase64) return;
 
     setState('analyzing');
     setError(null);
 
     try {
+      // Reject silent/clipped/partial takes before uploading anything
+      const metrics = await preAnalyzeTake(
+        userAudioUrl,
+        refAudioUrl ?? `data:audio/wav;base64,${refAudioBase64}`
+      );
+
       const reader = new FileReader();
       const base64 = await new Promise<string>((resolve, reject) => {
         reader.onloadend = () => {
@@ -323,7 +352,7 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
         reader.readAsDataURL(userAudioBlob);
       });
 
-      const res = await fetch('/api/shadow/analyze', {
+      const res = await apiFetch('/api/shadow/analyze', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -331,6 +360,7 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
           userMimeType: userAudioBlob.type,
           refAudioBase64,
           refText: challenge.text,
+          metrics,
         }),
       });
 
@@ -343,13 +373,15 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
       }
       if (!res.ok) throw new Error(String((data.error ?? data.message ?? text) || 'Analysis failed'));
 
-      const result = data as unknown as ShadowAnalysisResult;
+      const result = { ...(data as unknown as ShadowAnalysisResult), metrics };
       setAnalysis(result);
       setState('results');
-      await addShadowHistoryEntry(
+      const entry = await addShadowHistoryEntry(
         { topic: challenge.topic, text: challenge.text, sourceUrl: challenge.sourceUrl },
-        result
+        result,
+        challengeIdRef.current ?? undefined
       );
+      if (await saveShadowRecording(entry.id, userAudioBlob)) setSavedTakeId(entry.id);
       const list = await getShadowHistory();
       setHistoryEntries(list);
 
@@ -364,7 +396,7 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
 
   const fetchRecommendedVideos = async (practiceText: string, weaknesses: string[]) => {
     try {
-      const res = await fetch('/api/shadow/youtube-recommend', {
+      const res = await apiFetch('/api/shadow/youtube-recommend', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ practiceText, weaknesses }),
@@ -391,72 +423,64 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
     setRecommendedVideos([]); // Clear previous recommendations
   };
 
+  useEffect(() => {
+    if (historyView !== 'list') return;
+    getRecentChallenges(userLevel, practiceMode).then(setRecentChallenges);
+  }, [historyView, userLevel, practiceMode]);
+
+  const redoChallenge = async (info: PooledChallengeInfo) => {
+    const saved = await replayPooledChallenge(info);
+    if (!saved) {
+      setRecentChallenges((list) => list.filter((c) => c.id !== info.id));
+      return;
+    }
+    loadChallengeAbortRef.current?.abort();
+    setRecommendedVideos([]);
+    setOfflineReplay(false);
+    showChallenge(saved);
+    setHistoryView('closed');
+  };
+
+  const practiceProblemWords = (words: string[]) => {
+    setRecommendedVideos([]);
+    setHistoryView('closed');
+    loadChallenge(words);
+  };
+
   const refreshChallenge = useCallback(() => {
-    clearShadowCache();
     setRecommendedVideos([]);
     loadChallenge();
   }, [loadChallenge]);
 
-  /* Temporarily unused - can be restored if timestamp analysis is re-enabled
-  const playAudioSegment = (audioUrl: string, startTime: number, endTime: number): Promise<void> => {
-    return new Promise((resolve) => {
-      const audio = new Audio(audioUrl);
-      audio.currentTime = Math.max(0, startTime);
-      audio.play();
-      const checkTime = () => {
-        if (audio.currentTime >= endTime) {
-          audio.pause();
-          resolve();
-        }
-      };
-      audio.ontimeupdate = checkTime;
-      audio.onended = () => resolve();
-    });
-  };
-  */
+  // Word timings for tap-to-replay: the model's timestamps when usable, local alignment otherwise
+  useEffect(() => {
+    setTimedWords(null);
+    setSelectedWordIndex(null);
+    if (!analysis || !refAudioUrl || !userAudioUrl) return;
+    let cancelled = false;
+    setWordTiming('aligning');
+    ensureWordTimings(analysis.words, refAudioUrl, userAudioUrl)
+      .then((words) => {
+        if (cancelled) return;
+        setTimedWords(words);
+        setWordTiming('ready');
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        console.warn('⚠️ Word alignment failed, word replay unavailable:', e);
+        setWordTiming('failed');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [analysis, refAudioUrl, userAudioUrl]);
 
   const handleWordClick = useCallback(
-    async (wordIndex: number, word: string) => {
-      if (!refAudioUrl || !userAudioUrl || !analysis) return;
-      const wordData = analysis.words[wordIndex];
-      if (!wordData) return;
-
-      // Use precise timestamps if available, otherwise fall back to linear estimation
-      let userStart: number, userEnd: number, refStart: number, refEnd: number;
-
-      if (
-        typeof wordData.userStartTime === 'number' &&
-        typeof wordData.userEndTime === 'number' &&
-        typeof wordData.refStartTime === 'number' &&
-        typeof wordData.refEndTime === 'number'
-      ) {
-        // Use precise timestamps from Gemini
-        userStart = wordData.userStartTime;
-        userEnd = wordData.userEndTime;
-        refStart = wordData.refStartTime;
-        refEnd = wordData.refEndTime;
-      } else {
-        // Fallback: linear estimation
-        const totalWords = analysis.words.length;
-        const refDuration = refAudioDurationRef.current || 10;
-        const userDuration = userAudioDurationRef.current || 10;
-        const wordRatio = wordIndex / totalWords;
-        const segmentDuration = 0.8;
-        userStart = wordRatio * userDuration;
-        userEnd = userStart + segmentDuration;
-        refStart = wordRatio * refDuration;
-        refEnd = refStart + segmentDuration;
-      }
-
-      /* PERFORMANCE OPTIMIZATION: Timestamp-based word playback temporarily disabled
-       * Original functionality allowed playing individual word segments with precise timing.
-       * This required 10-15 minutes of AI processing time for timestamp analysis.
-       * Users can now compare full recordings using the audio cards in the results section.
-       */
-      console.log('Word-by-word playback temporarily disabled for faster analysis');
-      return;
+    (wordIndex: number) => {
+      if (wordTiming === 'failed') return;
+      setSelectedWordIndex(wordIndex);
     },
-    []
+    [wordTiming]
   );
 
   /* if (state === 'loading') {
@@ -479,7 +503,7 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
           <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-3" />
           <p className="text-primary-900 font-medium mb-4">{error}</p>
           <button
-            onClick={loadChallenge}
+            onClick={() => loadChallenge()}
             className="w-full bg-primary-900 text-white py-3 rounded-xl font-semibold text-sm active:scale-[0.98] transition-transform"
           >
             Try Again
@@ -512,6 +536,16 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
     ? historyEntries.find((e) => e.id === selectedHistoryId)
     : null;
 
+  if (historyView === 'trends') {
+    return (
+      <ShadowTrendsView
+        entries={historyEntries}
+        onBack={() => setHistoryView('list')}
+        onPracticeWords={practiceProblemWords}
+      />
+    );
+  }
+
   if (historyView === 'list') {
     return (
       <div className="h-full bg-primary-50 flex flex-col overflow-y-auto overflow-x-hidden">
@@ -527,8 +561,45 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
               Back
             </button>
             <h2 className="text-lg font-semibold text-primary-900">Past Analyses</h2>
-            <div className="w-14" aria-hidden />
+            <button
+              type="button"
+              onClick={() => setHistoryView('trends')}
+              className="flex items-center gap-1.5 text-sm text-gray-500 hover:text-primary-900 font-medium touch-manipulation min-h-[44px]"
+              aria-label="View trends"
+            >
+              <BarChart3 size={18} />
+              Trends
+            </button>
           </div>
+          {recentChallenges.length > 0 && (
+            <section className="mb-6">
+              <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2 px-1">
+                Recent Challenges · saved offline
+              </h3>
+              <ul className="space-y-2">
+                {recentChallenges.map((c) => (
+                  <li key={c.id}>
+                    <button
+                      type="button"
+                      onClick={() => redoChallenge(c)}
+                      className="w-full flex items-center gap-3 text-left bg-white rounded-2xl p-4 shadow-float border border-black/5 hover:border-primary-200 transition-colors touch-manipulation"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <span className="block text-sm font-medium text-primary-900 truncate">{c.topic}</span>
+                        <span className="block text-xs text-gray-500">
+                          {new Date(c.usedAt ?? c.createdAt).toLocaleString()}
+                        </span>
+                      </div>
+                      <span className="flex items-center gap-1 text-xs font-semibold text-primary-900 shrink-0">
+                        <RotateCw size={14} />
+                        Redo
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
           {historyEntries.length === 0 ? (
             <div className="bg-white rounded-2xl p-8 shadow-float border border-black/5 text-center text-gray-500 text-sm">
               No past analyses yet. Complete an analysis to see it here.
@@ -612,6 +683,13 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
             <p className="text-xs text-gray-500 text-center">
               {new Date(selectedEntry.timestamp).toLocaleString()}
             </p>
+            <ShadowTakeComparison
+              entry={selectedEntry}
+              entries={historyEntries}
+              currentTake={
+                challenge && userAudioUrl ? { text: challenge.text, url: userAudioUrl, entryId: savedTakeId } : null
+              }
+            />
             <WordAnalysisView words={entryAnalysis.words} />
             <div className="flex flex-col gap-4">
               {entryCards.map((card) => (
@@ -658,6 +736,7 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
     ? [
         { id: 'score', title: 'Overall Score', type: 'score' as const },
         { id: 'feedback', title: "Coach's Feedback", type: 'feedback' as const },
+        ...(analysis.metrics ? [{ id: 'intonation', title: 'Intonation', type: 'intonation' as const }] : []),
         { id: 'strengths', title: 'Strengths', type: 'strengths' as const },
         { id: 'improvements', title: 'Improvements', type: 'improvements' as const },
         { id: 'youtube', title: 'Pronunciation Guides', type: 'youtube' as const },
@@ -682,9 +761,14 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
                   <History size={20} />
                 </button>
               </div>
-              <h2 className="flex-1 text-center text-base font-semibold text-primary-900 truncate px-2">
-                {challenge.topic}
-              </h2>
+              <div className="flex-1 min-w-0 px-2">
+                <h2 className="text-center text-base font-semibold text-primary-900 truncate">
+                  {challenge.topic}
+                </h2>
+                {offlineReplay && (
+                  <p className="text-xs text-gray-400 text-center">Offline · practicing a saved challenge</p>
+                )}
+              </div>
               <button
                 type="button"
                 onClick={refreshChallenge}
@@ -726,10 +810,23 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
 
             {state === 'results' && analysis ? (
               <>
-                <WordAnalysisView words={analysis.words} />
+                <WordAnalysisView
+                  words={analysis.words}
+                  selectedIndex={selectedWordIndex}
+                  onWordClick={refAudioUrl && userAudioUrl ? handleWordClick : undefined}
+                />
                 <p className="text-xs text-gray-400 text-center mt-2">
                   Color-coded feedback: <span className="text-emerald-700">Good</span> · <span className="text-amber-600">Average</span> · <span className="text-red-600">Needs Work</span>
+                  {wordTiming !== 'failed' && ' · Tap a word to replay it'}
                 </p>
+                {selectedWordIndex !== null && refAudioUrl && userAudioUrl && (
+                  <WordReplayPanel
+                    word={timedWords?.[selectedWordIndex] ?? null}
+                    refAudioUrl={refAudioUrl}
+                    userAudioUrl={userAudioUrl}
+                    onClose={() => setSelectedWordIndex(null)}
+                  />
+                )}
               </>
             ) : (
               <>
@@ -863,7 +960,9 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
                 <div className="flex flex-col gap-4">
                   {summaryCards.map((card) => (
                     <div key={card.id} className="w-full">
-                      {card.type === 'youtube' ? (
+                      {card.type === 'intonation' && analysis.metrics ? (
+                        <IntonationChart metrics={analysis.metrics} words={timedWords} />
+                      ) : card.type === 'youtube' ? (
                         <ShadowYouTubeCard
                           words={analysis.words || []}
                           weaknesses={analysis.pronunciation?.weaknesses || []}
@@ -943,10 +1042,12 @@ export default function ShadowReadingScreen({ userLevel, practiceMode }: ShadowR
 
 function WordAnalysisView({
   words,
+  selectedIndex,
   onWordClick,
 }: {
   words: ShadowWordAnalysis[];
-  onWordClick?: (wordIndex: number, word: string) => void;
+  selectedIndex?: number | null;
+  onWordClick?: (wordIndex: number) => void;
 }) {
   return (
     <div className="flex flex-wrap gap-x-2 gap-y-3 leading-relaxed justify-center max-w-2xl mx-auto px-2">
@@ -970,9 +1071,13 @@ function WordAnalysisView({
           <span
             key={idx}
             className="relative group inline-block"
-            onClick={() => onWordClick?.(idx, w.word)}
+            onClick={() => onWordClick?.(idx)}
           >
-            <span className={`text-xl md:text-2xl transition-colors ${statusColor} ${statusDecor}`}>
+            <span
+              className={`text-xl md:text-2xl transition-colors rounded ${statusColor} ${statusDecor} ${
+                idx === selectedIndex ? 'bg-primary-900/5' : ''
+              }`}
+            >
               {w.word}
             </span>
             {w.status !== 'good' && (
@@ -996,7 +1101,7 @@ function SummaryCard({
   card,
 }: {
   analysis: ShadowAnalysisResult;
-  card: { id: string; title: string; type: 'score' | 'feedback' | 'strengths' | 'improvements' | 'youtube' | 'scene' };
+  card: { id: string; title: string; type: 'score' | 'feedback' | 'intonation' | 'strengths' | 'improvements' | 'youtube' | 'scene' };
 }) {
   const { type } = card;
 
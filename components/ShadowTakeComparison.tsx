@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Mic, Volume2 } from 'lucide-react';
+import type { ShadowHistoryEntry } from '@/lib/types';
+import { getShadowRecording } from '@/lib/utils/shadowRecordings';
+import { getPooledChallengeAudio } from '@/lib/shadowCache';
+
+interface ShadowTakeComparisonProps {
+  entry: ShadowHistoryEntry;
+  /** Whole history; other takes of the same passage are shown alongside. */
+  entries: ShadowHistoryEntry[];
+  /** The take recorded in this session, shown first when it's of the same passage and not yet saved. */
+  currentTake?: { text: string; url: string; entryId?: string | null } | null;
+}
+
+interface Take {
+  id: string;
+  timestamp: number;
+  score: number;
+  url: string;
+}
+
+const MAX_TAKES = 5;
+
+function base64ToWavUrl(base64: string): string {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return URL.createObjectURL(new Blob([bytes], { type: 'audio/wav' }));
+}
+
+function scoreColor(score: number): string {
+  return score > 80 ? 'text-green-600' : score > 60 ? 'text-amber-600' : 'text-red-600';
+}
+
+/**
+ * Saved takes of a past analysis' passage (newest first) next to the reference voice and the
+ * take just recorded, so learners can hear how their reading has changed.
+ */
+export function ShadowTakeComparison({ entry, entries, currentTake }: ShadowTakeComparisonProps) {
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [refUrl, setRefUrl] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const urls: string[] = [];
+    const related = entries
+      .filter((e) => e.id === entry.id || e.challenge.text === entry.challenge.text)
+      .sort((a, b) => b.timestamp - a.timestamp);
+
+    (async () => {
+      const found: Take[] = [];
+      for (const e of related) {
+        if (found.length >= MAX_TAKES && e.id !== entry.id) continue;
+        const blob = await getShadowRecording(e.id);
+        if (!blob) continue;
+        const url = URL.createObjectURL(blob);
+        urls.push(url);
+        found.push({ id: e.id, timestamp: e.timestamp, score: e.analysis.score, url });
+      }
+
+      const refId = related.find((e) => e.refChallengeId)?.refChallengeId;
+      const refBase64 = refId ? await getPooledChallengeAudio(refId) : null;
+      let ref: string | null = null;
+      if (refBase64) {
+        ref = base64ToWavUrl(refBase64);
+        urls.push(ref);
+      }
+
+      if (cancelled) {
+        urls.forEach((u) => URL.revokeObjectURL(u));
+        return;
+      }
+      setTakes(found);
+      setRefUrl(ref);
+      setLoaded(true);
+    })();
+
+    return () => {
+      cancelled = true;
+      urls.forEach((u) => URL.revokeObjectURL(u));
+    };
+  }, [entry, entries]);
+
+  const showCurrent =
+    !!currentTake &&
+    currentTake.text === entry.challenge.text &&
+    !takes.some((t) => t.id === currentTake.entryId);
+  if (!loaded) return null;
+  if (takes.length === 0 && !refUrl && !showCurrent) {
+    return (
+      <p className="text-xs text-gray-400 text-center">
+        No recording saved for this analysis. Takes are kept while recording is on in Plan Settings.
+      </p>
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-float border border-black/5 space-y-4">
+      <h3 className="text-sm font-semibold text-primary-900">Recordings</h3>
+      {refUrl && (
+        <div>
+          <p className="flex items-center gap-1.5 text-xs font-medium text-emerald-700 mb-1.5">
+            <Volume2 size={14} />
+            Native speaker
+          </p>
+          <audio controls src={refUrl} className="w-full h-10" />
+        </div>
+      )}
+      {showCurrent && (
+        <div>
+          <p className="flex items-center gap-1.5 text-xs font-medium text-blue-700 mb-1.5">
+            <Mic size={14} />
+            Just now
+          </p>
+          <audio controls src={currentTake!.url} className="w-full h-10" />
+        </div>
+      )}
+      {takes.map((take) => (
+        <div key={take.id}>
+          <p className="flex items-center justify-between gap-2 text-xs text-gray-500 mb-1.5">
+            <span className={take.id === entry.id ? 'font-semibold text-primary-900' : undefined}>
+              {take.id === entry.id ? 'This take' : 'Take'} · {new Date(take.timestamp).toLocaleDateString()}
+            </span>
+            <span className={`font-semibold ${scoreColor(take.score)}`}>{take.score}</span>
+          </p>
+          <audio controls src={take.url} className="w-full h-10" />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { ChevronLeft as BackIcon, Target, TrendingDown, TrendingUp } from 'lucide-react';
+import type { ShadowHistoryEntry } from '@/lib/types';
+import { buildShadowTrends, type ScorePoint } from '@/lib/utils/shadowTrends';
+
+interface ShadowTrendsViewProps {
+  entries: ShadowHistoryEntry[];
+  onBack: () => void;
+  /** Generate a challenge built around these words. */
+  onPracticeWords: (words: string[]) => void;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const PAD = 16;
+const FOCUS_WORD_COUNT = 6;
+
+function ScoreChart({ points }: { points: ScorePoint[] }) {
+  const x = (i: number) => PAD + (points.length > 1 ? (i / (points.length - 1)) * (CHART_WIDTH - 2 * PAD) : (CHART_WIDTH - 2 * PAD) / 2);
+  const y = (score: number) => PAD + ((100 - score) / 100) * (CHART_HEIGHT - 2 * PAD);
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p.score).toFixed(1)}`).join('');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Score over time">
+      {[60, 80].map((score) => (
+        <g key={score}>
+          <line x1={PAD} x2={CHART_WIDTH - PAD} y1={y(score)} y2={y(score)} stroke="#e5e7eb" strokeDasharray="4 4" />
+          <text x={CHART_WIDTH - PAD} y={y(score) - 4} fontSize="11" fill="#9ca3af" textAnchor="end">
+            {score}
+          </text>
+        </g>
+      ))}
+      <path d={path} fill="none" stroke="#3b82f6" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" />
+      {points.map((p, i) => (
+        <circle
+          key={p.timestamp}
+          cx={x(i)}
+          cy={y(p.score)}
+          r="4"
+          fill={p.score > 80 ? '#10b981' : p.score > 60 ? '#f59e0b' : '#ef4444'}
+          stroke="#fff"
+          strokeWidth="1.5"
+        >
+          <title>{`${new Date(p.timestamp).toLocaleDateString()}: ${p.score}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * Trends across saved shadow analyses: score over time, words and sounds that keep going wrong,
+ * recurring coach weaknesses, and a one-tap challenge built from the problem words.
+ */
+export function ShadowTrendsView({ entries, onBack, onPracticeWords }: ShadowTrendsViewProps) {
+  const trends = useMemo(() => buildShadowTrends(entries), [entries]);
+  const focusWords = trends.problemWords.slice(0, FOCUS_WORD_COUNT).map((w) => w.word);
+
+  return (
+    <div className="h-full bg-primary-50 flex flex-col overflow-y-auto overflow-x-hidden">
+      <div className="flex-1 px-4 py-6 pb-24 safe-bottom">
+        <div className="flex items-center justify-between gap-2 mb-4">
+          <button
+            type="button"
+            onClick={onBack}
+            className="flex items-center gap-2 text-sm text-gray-500 hover:text-primary-900 font-medium touch-manipulation min-h-[44px]"
+            aria-label="Back to past analyses"
+          >
+            <BackIcon size={18} />
+            Back
+          </button>
+          <h2 className="text-lg font-semibold text-primary-900">Trends</h2>
+          <div className="w-14" aria-hidden />
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="bg-white rounded-2xl p-8 shadow-float border border-black/5 text-center text-gray-500 text-sm">
+            No analyses yet. Complete a few shadow readings to see your trends.
+          </div>
+        ) : (
+          <div className="max-w-xl mx-auto space-y-4">
+            <div className="bg-white p-6 rounded-2xl shadow-float border border-black/5">
+              <div className="flex items-baseline justify-between mb-3">
+                <h3 className="text-sm font-semibold text-primary-900">Score over time</h3>
+                <div className="flex items-center gap-2 text-xs text-gray-500">
+                  <span>
+                    Avg <span className="font-semibold text-primary-900">{trends.averageScore}</span>
+                  </span>
+                  {trends.recentChange !== null && (
+                    <span
+                      className={`flex items-center gap-0.5 font-semibold ${
+                        trends.recentChange >= 0 ? 'text-green-600' : 'text-red-600'
+                      }`}
+                    >
+                      {trends.recentChange >= 0 ? <TrendingUp size={14} /> : <TrendingDown size={14} />}
+                      {trends.recentChange >= 0 ? '+' : ''}
+                      {trends.recentChange}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <ScoreChart points={trends.scores} />
+              <p className="text-[11px] text-gray-400 mt-2">
+                {trends.scores.length} sessions since {new Date(trends.scores[0].timestamp).toLocaleDateString()}
+              </p>
+            </div>
+
+            <div className="bg-white p-6 rounded-2xl shadow-float border border-black/5">
+              <h3 className="text-sm font-semibold text-primary-900 mb-3">Problem words</h3>
+              {trends.problemWords.length === 0 ? (
+                <p className="text-sm text-gray-400 italic">No recurring problem words. Nice work!</p>
+              ) : (
+                <ul className="space-y-2">
+                  {trends.problemWords.map((w) => (
+                    <li key={w.word} className="flex items-start justify-between gap-3 text-sm">
+                      <div className="min-w-0">
+                        <span className="font-medium text-primary-900">{w.word}</span>
+                        {w.phonetic && <span className="ml-2 text-xs text-gray-400">{w.phonetic}</span>}
+                        {w.issue && <p className="text-xs text-gray-500 line-clamp-1">{w.issue}</p>}
+                      </div>
+                      <span className="shrink-0 text-xs text-gray-500">
+                        {w.poor > 0 && <span className="text-red-600 font-semibold">{w.poor}× poor</span>}
+                        {w.poor > 0 && w.average > 0 && ' · '}
+                        {w.average > 0 && <span className="text-amber-600">{w.average}× average</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {focusWords.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onPracticeWords(focusWords)}
+                  className="mt-4 w-full bg-primary-900 text-white py-3 rounded-xl font-semibold text-sm flex items-center justify-center gap-2 active:scale-[0.98] transition-transform"
+                >
+                  <Target size={16} />
+                  Practice my problem words
+                </button>
+              )}
+            </div>
+
+            {trends.phonemes.length > 0 && (
+              <div className="bg-white p-6 rounded-2xl shadow-float border border-black/5">
+                <h3 className="text-sm font-semibold text-primary-900 mb-3">Problem sounds</h3>
+                <div className="flex flex-wrap gap-2">
+                  {trends.phonemes.map((p) => (
+                    <span key={p.label} className="px-3 py-1.5 rounded-full bg-red-50 text-red-700 text-sm font-medium">
+                      {p.label} <span className="text-xs text-red-400">×{p.count}</span>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {trends.weaknesses.length > 0 && (
+              <div className="bg-white p-6 rounded-2xl shadow-float border border-black/5">
+                <h3 className="text-sm font-semibold text-primary-900 mb-3">Recurring weaknesses</h3>
+                <ul className="space-y-2">
+                  {trends.weaknesses.map((w) => (
+                    <li key={w.label} className="flex items-start justify-between gap-3 text-sm text-gray-700">
+                      <span>{w.label}</span>
+                      <span className="shrink-0 text-xs text-gray-400">×{w.count}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
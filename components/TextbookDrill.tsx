@@ -0,0 +1,401 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronLeft, Loader2, Mic, Square, Volume2, RotateCw, ArrowRight, Flag } from 'lucide-react';
+import type { ShadowAnalysisResult, VoicePreference } from '@/lib/types';
+import type { Lesson } from '@/lib/data/courses';
+import { PRIMARY_BUTTON_BASE, PRIMARY_BUTTON_FAB } from '@/lib/constants/theme';
+import { getCachedRefAudio, setCachedRefAudio } from '@/lib/textbookCache';
+import { apiFetch } from '@/lib/utils/api';
+import { preAnalyzeTake } from '@/lib/utils/shadowAcoustics';
+import { splitSentences, rollUpDrillResults, type DrillSentenceResult } from '@/lib/utils/textbookDrill';
+
+type DrillState = 'loading_audio' | 'ready' | 'recording' | 'has_recording' | 'analyzing' | 'scored';
+
+interface TextbookDrillProps {
+  courseId: string;
+  lesson: Lesson;
+  /** Reference voice for the sentence clips (the lesson's voice). */
+  voice: VoicePreference;
+  onExit: () => void;
+  /** Called with the rolled-up lesson result once the learner finishes the drill. */
+  onComplete: (result: ShadowAnalysisResult) => void;
+}
+
+function scoreColor(score: number): string {
+  return score > 80 ? 'bg-green-500' : score > 60 ? 'bg-amber-400' : 'bg-red-500';
+}
+
+/** Sentence reference audio: cache first, then TTS for just that sentence. */
+async function loadSentenceAudio(
+  courseId: string,
+  lessonId: number,
+  voice: VoicePreference,
+  index: number,
+  sentence: string
+): Promise<string> {
+  const cached = await getCachedRefAudio(courseId, lessonId, voice, index);
+  if (cached) return cached;
+  const res = await apiFetch('/api/textbook/ref-audio', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text: sentence, voice }),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || 'Failed to load reference audio');
+  const base64 = data.refAudioBase64 as string;
+  await setCachedRefAudio(courseId, lessonId, base64, voice, index);
+  return base64;
+}
+
+function base64ToWavUrl(base64: string): string {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return URL.createObjectURL(new Blob([bytes], { type: 'audio/wav' }));
+}
+
+/**
+ * Sentence-by-sentence shadowing for long lessons: each sentence gets its own reference clip,
+ * recording and analysis; finishing rolls the sentence scores up into the lesson result.
+ */
+export function TextbookDrill({ courseId, lesson, voice, onExit, onComplete }: TextbookDrillProps) {
+  const sentences = useMemo(() => splitSentences(lesson.text), [lesson.text]);
+  const [index, setIndex] = useState(0);
+  const [state, setState] = useState<DrillState>('loading_audio');
+  const [refAudioBase64, setRefAudioBase64] = useState<string | null>(null);
+  const [refAudioUrl, setRefAudioUrl] = useState<string | null>(null);
+  const [userAudioUrl, setUserAudioUrl] = useState<string | null>(null);
+  const [userAudioBlob, setUserAudioBlob] = useState<Blob | null>(null);
+  const [results, setResults] = useState<Record<number, DrillSentenceResult>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const refAudioUrlRef = useRef<string | null>(null);
+  const userAudioUrlRef = useRef<string | null>(null);
+
+  const sentence = sentences[index] ?? '';
+  const current = results[index];
+  const scoredCount = Object.keys(results).length;
+  const isLast = index === sentences.length - 1;
+
+  const clearUserAudio = useCallback(() => {
+    if (userAudioUrlRef.current) {
+      URL.revokeObjectURL(userAudioUrlRef.current);
+      userAudioUrlRef.current = null;
+    }
+    setUserAudioUrl(null);
+    setUserAudioBlob(null);
+  }, []);
+
+  // Load this sentence's reference clip and prefetch the next one
+  useEffect(() => {
+    let cancelled = false;
+    setState('loading_audio');
+    setError(null);
+    clearUserAudio();
+    setRefAudioBase64(null);
+    setRefAudioUrl(null);
+
+    loadSentenceAudio(courseId, lesson.id, voice, index, sentences[index])
+      .then((base64) => {
+        if (cancelled) return;
+        const url = base64ToWavUrl(base64);
+        if (refAudioUrlRef.current) URL.revokeObjectURL(refAudioUrlRef.current);
+        refAudioUrlRef.current = url;
+        setRefAudioBase64(base64);
+        setRefAudioUrl(url);
+        setState('ready');
+        if (index + 1 < sentences.length) {
+          loadSentenceAudio(courseId, lesson.id, voice, index + 1, sentences[index + 1]).catch(() => {});
+        }
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        console.error(e);
+        setError(e instanceof Error ? e.message : 'Failed to load audio');
+        setState('ready');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [courseId, lesson.id, voice, index, sentences, clearUserAudio]);
+
+  useEffect(() => {
+    return () => {
+      if (refAudioUrlRef.current) URL.revokeObjectURL(refAudioUrlRef.current);
+      if (userAudioUrlRef.current) URL.revokeObjectURL(userAudioUrlRef.current);
+    };
+  }, []);
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+      });
+      const options: MediaRecorderOptions = { audioBitsPerSecond: 128000 };
+      if (MediaRecorder.isTypeSupported('audio/webm;codecs=opus')) options.mimeType = 'audio/webm;codecs=opus';
+      else if (MediaRecorder.isTypeSupported('audio/mp4')) options.mimeType = 'audio/mp4';
+      const mr = new MediaRecorder(stream, options);
+      mediaRecorderRef.current = mr;
+      chunksRef.current = [];
+      mr.ondataavailable = (e) => { if (e.data.size > 0) chunksRef.current.push(e.data); };
+      mr.onstop = () => {
+        stream.getTracks().forEach((t) => t.stop());
+        const mimeType = mr.mimeType || options.mimeType || 'audio/webm';
+        const blob = new Blob(chunksRef.current, { type: mimeType });
+        const url = URL.createObjectURL(blob);
+        if (userAudioUrlRef.current) URL.revokeObjectURL(userAudioUrlRef.current);
+        userAudioUrlRef.current = url;
+        setUserAudioBlob(blob);
+        setUserAudioUrl(url);
+        setState('has_recording');
+      };
+      mr.start(250);
+      setError(null);
+      setState('recording');
+    } catch (e) {
+      console.error(e);
+      setError('Microphone access denied.');
+    }
+  };
+
+  const stopRecording = () => {
+    if (mediaRecorderRef.current?.state !== 'inactive') {
+      mediaRecorderRef.current?.stop();
+      mediaRecorderRef.current = null;
+    }
+  };
+
+  const retry = () => {
+    clearUserAudio();
+    setError(null);
+    setState('ready');
+  };
+
+  const runAnalysis = async () => {
+    if (!userAudioBlob || !userAudioUrl || !refAudioUrl || !refAudioBase64) return;
+    setState('analyzing');
+    setError(null);
+    try {
+      const metrics = await preAnalyzeTake(userAudioUrl, refAudioUrl);
+      const base64 = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => {
+          const dataUrl = reader.result as string;
+          const b64 = dataUrl?.split(',')[1];
+          if (!b64 || b64.length < 100) reject(new Error('Recording is too short or invalid'));
+          else resolve(b64);
+        };
+        reader.onerror = () => reject(new Error('Failed to read recording'));
+        reader.readAsDataURL(userAudioBlob);
+      });
+      const res = await apiFetch('/api/shadow/analyze', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userAudioBase64: base64,
+          userMimeType: userAudioBlob.type,
+          refAudioBase64,
+          refText: sentence,
+          metrics,
+        }),
+      });
+      const text = await res.text();
+      let data: { error?: string; [k: string]: unknown };
+      try {
+        data = text ? JSON.parse(text) : {};
+      } catch {
+        throw new Error(res.ok ? 'Invalid response from server' : (text || 'Analysis failed'));
+      }
+      if (!res.ok) throw new Error(String((data.error ?? data.message ?? text) || 'Analysis failed'));
+      const analysis = { ...(data as unknown as ShadowAnalysisResult), metrics };
+      setResults((prev) => ({ ...prev, [index]: { index, sentence, analysis } }));
+      setState('scored');
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : 'Analysis failed.');
+      setState('has_recording');
+    }
+  };
+
+  const finish = () => {
+    const list = Object.values(results);
+    if (list.length === 0) return;
+    console.log(`📚 Drill finished: ${list.length}/${sentences.length} sentences scored`);
+    onComplete(rollUpDrillResults(list));
+  };
+
+  const goTo = (next: number) => {
+    if (next < 0 || next >= sentences.length || state === 'recording' || state === 'analyzing') return;
+    setIndex(next);
+  };
+
+  return (
+    <div className="h-full bg-primary-50 flex flex-col overflow-y-auto overflow-x-hidden">
+      <div className="flex-1 px-4 py-6 pb-32 safe-bottom">
+        <div className="max-w-xl mx-auto space-y-6">
+          <div className="flex items-center gap-2 w-full">
+            <button
+              type="button"
+              onClick={onExit}
+              className="p-2 rounded-full text-gray-400 hover:text-primary-900 hover:bg-white/80 transition-colors touch-manipulation min-h-[44px] min-w-[44px] flex items-center justify-center shrink-0"
+              aria-label="Leave sentence drill"
+            >
+              <ChevronLeft size={20} />
+            </button>
+            <div className="flex-1 text-center min-w-0">
+              <h2 className="text-base font-semibold text-primary-900 truncate">{lesson.title}</h2>
+              <p className="text-xs text-gray-500">
+                Sentence {index + 1} of {sentences.length}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={finish}
+              disabled={scoredCount === 0 || state === 'recording' || state === 'analyzing'}
+              className="p-2 rounded-full text-gray-400 hover:text-primary-900 hover:bg-white/80 transition-colors touch-manipulation min-h-[44px] min-w-[44px] flex items-center justify-center shrink-0 disabled:opacity-30"
+              aria-label="Finish drill and see lesson result"
+              title="Finish drill"
+            >
+              <Flag size={18} />
+            </button>
+          </div>
+
+          {/* Per-sentence progress: tap to jump, color = score */}
+          <div className="flex flex-wrap gap-1.5 justify-center">
+            {sentences.map((_, i) => {
+              const r = results[i];
+              return (
+                <button
+                  key={i}
+                  type="button"
+                  onClick={() => goTo(i)}
+                  className={`h-2 rounded-full transition-all touch-manipulation ${i === index ? 'w-6' : 'w-2'} ${
+                    r ? scoreColor(r.analysis.score) : i === index ? 'bg-primary-900' : 'bg-black/10'
+                  }`}
+                  aria-label={`Sentence ${i + 1}${r ? `, score ${r.analysis.score}` : ''}`}
+                />
+              );
+            })}
+          </div>
+
+          <div className="bg-white/80 rounded-2xl border border-black/5 px-5 py-6 text-center">
+            {current && state === 'scored' ? (
+              <p className="text-xl md:text-2xl font-medium leading-relaxed">
+                {current.analysis.words.map((w, i) => (
+                  <span
+                    key={i}
+                    className={
+                      w.status === 'poor'
+                        ? 'text-red-600 font-semibold'
+                        : w.status === 'average'
+                          ? 'text-amber-600'
+                          : 'text-emerald-700'
+                    }
+                    title={w.issue}
+                  >
+                    {w.word}{' '}
+                  </span>
+                ))}
+              </p>
+            ) : (
+              <p className="text-xl md:text-2xl font-medium tracking-tight leading-relaxed text-primary-900">{sentence}</p>
+            )}
+            {state === 'loading_audio' ? (
+              <Loader2 size={20} className="mt-4 mx-auto text-primary-900/40 animate-spin" aria-hidden />
+            ) : (
+              refAudioUrl && (
+                <button
+                  type="button"
+                  onClick={() => new Audio(refAudioUrl).play()}
+                  className="mt-3 p-2 rounded-full text-gray-400 hover:text-primary-900 hover:bg-white transition-colors touch-manipulation min-h-[44px] min-w-[44px] inline-flex items-center justify-center"
+                  aria-label="Play reference audio"
+                >
+                  <Volume2 size={20} />
+                </button>
+              )
+            )}
+          </div>
+
+          {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+
+          {userAudioUrl && (state === 'has_recording' || state === 'analyzing') && (
+            <div className="bg-white rounded-2xl p-6 shadow-float border border-black/5 space-y-4">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-500">Your Recording</span>
+                {state === 'has_recording' && (
+                  <button type="button" onClick={retry} className="text-xs text-gray-400 hover:text-red-500 touch-manipulation min-h-[44px] min-w-[44px] flex items-center">
+                    Delete
+                  </button>
+                )}
+              </div>
+              <audio controls src={userAudioUrl} className="w-full h-10" />
+              {state === 'has_recording' ? (
+                <button
+                  type="button"
+                  onClick={runAnalysis}
+                  className="w-full bg-primary-900 text-white py-3 rounded-xl font-semibold text-sm flex items-center justify-center gap-2 active:scale-[0.98] transition-transform"
+                >
+                  Analyze Sentence
+                </button>
+              ) : (
+                <div className="flex items-center justify-center gap-2 py-2">
+                  <Loader2 size={20} className="animate-spin text-primary-900" />
+                  <span className="text-sm text-gray-600">Analyzing...</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {current && state === 'scored' && (
+            <div className="bg-white rounded-2xl p-6 shadow-float border border-black/5 space-y-4">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-400 uppercase tracking-widest font-semibold">Sentence Score</span>
+                <span className="text-3xl font-bold tracking-tighter text-primary-900">{current.analysis.score}</span>
+              </div>
+              {current.analysis.suggestions && (
+                <p className="text-sm text-gray-600 leading-relaxed">{current.analysis.suggestions}</p>
+              )}
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={retry}
+                  className="flex-1 py-3 rounded-xl bg-gray-100 text-primary-900 font-semibold text-sm flex items-center justify-center gap-2 touch-manipulation"
+                >
+                  <RotateCw size={16} />
+                  Retry
+                </button>
+                <button
+                  type="button"
+                  onClick={isLast ? finish : () => goTo(index + 1)}
+                  className="flex-1 py-3 rounded-xl bg-primary-900 text-white font-semibold text-sm flex items-center justify-center gap-2 touch-manipulation"
+                >
+                  {isLast ? 'Finish Lesson' : 'Next Sentence'}
+                  <ArrowRight size={16} />
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {(state === 'ready' || state === 'recording') && (
+        <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-30 safe-bottom">
+          {state === 'recording' ? (
+            <button type="button" onClick={stopRecording} className={`${PRIMARY_BUTTON_BASE} ${PRIMARY_BUTTON_FAB}`} aria-label="Stop recording">
+              <Square size={18} />
+              <span>Stop</span>
+            </button>
+          ) : (
+            <button type="button" onClick={startRecording} className={`${PRIMARY_BUTTON_BASE} ${PRIMARY_BUTTON_FAB}`} aria-label="Start recording">
+              <Mic size={18} />
+              <span>{current ? 'Record Again' : 'Start Recording'}</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import {
   Loader2,
   Mic,
@@ -13,11 +13,25 @@ import {
   RotateCw,
   Search,
   Plus,
+  ListOrdered,
+  PlayCircle,
+  Trash2,
 } from 'lucide-react';
-import type { ShadowAnalysisResult, ShadowWordAnalysis } from '@/lib/types';
+import type { ShadowAnalysisResult, ShadowWordAnalysis, TextbookAttempt, VoicePreference } from '@/lib/types';
 import { COURSES, type Lesson, type Course } from '@/lib/data/courses';
 import { PRIMARY_BUTTON_BASE, PRIMARY_BUTTON_FAB } from '@/lib/constants/theme';
+import { VOICE_OPTIONS, PACE_OPTIONS, DEFAULT_TEXTBOOK_VOICE, describeVoice } from '@/lib/constants/voices';
 import { getCachedRefAudio, setCachedRefAudio, clearCachedRefAudio, clearCachedRefAudioForCourse } from '@/lib/textbookCache';
+import { apiFetch } from '@/lib/utils/api';
+import { ensureWordTimings } from '@/lib/utils/wordAlignment';
+import { preAnalyzeTake } from '@/lib/utils/shadowAcoustics';
+import { importCourseFile, COURSE_FILE_ACCEPT } from '@/lib/utils/courseImport';
+import { getLessonVoice, setLessonVoice } from '@/lib/utils/lessonVoices';
+import { getCustomCourses, addCustomCourse, removeCustomCourse } from '@/lib/utils/customCourses';
+import { getTextbookAttempts, addTextbookAttempt, summarizeCourseProgress, getResumeLesson } from '@/lib/utils/textbookProgress';
+import { WordReplayPanel } from './WordReplayPanel';
+import { IntonationChart } from './IntonationChart';
+import { TextbookDrill } from './TextbookDrill';
 
 type TextbookView = 'list' | 'detail';
 type DetailState = 'loading_audio' | 'ready' | 'recording' | 'has_recording' | 'analyzing' | 'results';
@@ -27,7 +41,9 @@ export default function TextbookScreen() {
   const [selectedCourseId, setSelectedCourseId] = useState<string>(COURSES[0]?.id ?? 'nce2');
   const [courseSearchQuery, setCourseSearchQuery] = useState('');
   const [lesson, setLesson] = useState<Lesson | null>(null);
-  const [showAddCoursePlaceholder, setShowAddCoursePlaceholder] = useState(false);
+  const [customCourses, setCustomCourses] = useState<Course[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
   const [detailState, setDetailState] = useState<DetailState>('loading_audio');
   const [refAudioBase64, setRefAudioBase64] = useState<string | null>(null);
   const [refAudioUrl, setRefAudioUrl] = useState<string | null>(null);
@@ -35,13 +51,88 @@ export default function TextbookScreen() {
   const [userAudioBlob, setUserAudioBlob] = useState<Blob | null>(null);
   const [analysis, setAnalysis] = useState<ShadowAnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [timedWords, setTimedWords] = useState<ShadowWordAnalysis[] | null>(null);
+  const [wordTiming, setWordTiming] = useState<'aligning' | 'ready' | 'failed'>('aligning');
+  const [selectedWordIndex, setSelectedWordIndex] = useState<number | null>(null);
+  const [drillMode, setDrillMode] = useState(false);
+  const [attempts, setAttempts] = useState<TextbookAttempt[]>([]);
+  const [voice, setVoice] = useState<VoicePreference>(DEFAULT_TEXTBOOK_VOICE);
+  const [showVoicePicker, setShowVoicePicker] = useState(false);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const refAudioUrlRef = useRef<string | null>(null);
   const userAudioUrlRef = useRef<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  const currentCourse: Course | undefined = COURSES.find((c) => c.id === selectedCourseId);
+  const allCourses: Course[] = [...COURSES, ...customCourses];
+  const currentCourse: Course | undefined = allCourses.find((c) => c.id === selectedCourseId);
+
+  useEffect(() => {
+    getTextbookAttempts().then(setAttempts);
+    getCustomCourses().then(setCustomCourses);
+  }, []);
+
+  const handleImportCourse = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImporting(true);
+    setImportError(null);
+    try {
+      const course = await importCourseFile(file);
+      setCustomCourses(await addCustomCourse(course));
+      setSelectedCourseId(course.id);
+    } catch (err) {
+      console.error(err);
+      setImportError(err instanceof Error ? err.message : 'Import failed.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleRemoveCourse = async (course: Course) => {
+    if (!confirm(`Remove "${course.name}" and its cached audio?`)) return;
+    setCustomCourses(await removeCustomCourse(course.id));
+    if (selectedCourseId === course.id) setSelectedCourseId(COURSES[0]?.id ?? 'nce2');
+  };
+
+  const recordAttempt = async (result: ShadowAnalysisResult, mode: TextbookAttempt['mode']) => {
+    if (!lesson) return;
+    try {
+      await addTextbookAttempt(
+        { courseId: selectedCourseId, lessonId: lesson.id, lessonTitle: lesson.title },
+        result,
+        mode
+      );
+      setAttempts(await getTextbookAttempts());
+    } catch (e) {
+      console.warn('⚠️ Failed to save textbook attempt:', e);
+    }
+  };
+
+  // Word timings for tap-to-replay (same as Shadow): model timestamps or local alignment
+  useEffect(() => {
+    setTimedWords(null);
+    setSelectedWordIndex(null);
+    if (!analysis || !refAudioUrl || !userAudioUrl) return;
+    let cancelled = false;
+    setWordTiming('aligning');
+    ensureWordTimings(analysis.words, refAudioUrl, userAudioUrl)
+      .then((words) => {
+        if (cancelled) return;
+        setTimedWords(words);
+        setWordTiming('ready');
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        console.warn('⚠️ Word alignment failed, word replay unavailable:', e);
+        setWordTiming('failed');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [analysis, refAudioUrl, userAudioUrl]);
 
   const applyRefAudio = useCallback((base64: string) => {
     setRefAudioBase64(base64);
@@ -56,9 +147,15 @@ export default function TextbookScreen() {
     setDetailState('ready');
   }, []);
 
-  const loadLesson = useCallback(async (courseId: string, selected: Lesson, skipCache = false) => {
+  const loadLesson = useCallback(async (
+    courseId: string,
+    selected: Lesson,
+    skipCache = false,
+    voiceOverride?: VoicePreference
+  ) => {
     setLesson(selected);
     setView('detail');
+    setDrillMode(false);
     setDetailState('loading_audio');
     setError(null);
     setRefAudioBase64(null);
@@ -76,23 +173,25 @@ export default function TextbookScreen() {
     }
 
     try {
+      const lessonVoice = voiceOverride ?? (await getLessonVoice(courseId, selected.id));
+      setVoice(lessonVoice);
       if (!skipCache) {
-        const cached = await getCachedRefAudio(courseId, selected.id);
+        const cached = await getCachedRefAudio(courseId, selected.id, lessonVoice);
         if (cached) {
           applyRefAudio(cached);
           return;
         }
       }
 
-      const res = await fetch('/api/textbook/ref-audio', {
+      const res = await apiFetch('/api/textbook/ref-audio', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: selected.text }),
+        body: JSON.stringify({ text: selected.text, voice: lessonVoice }),
       });
       const data = await res.json();
       if (!res.ok) throw new Error(data.error || 'Failed to load reference audio');
       const base64 = data.refAudioBase64 as string;
-      await setCachedRefAudio(courseId, selected.id, base64);
+      await setCachedRefAudio(courseId, selected.id, base64, lessonVoice);
       applyRefAudio(base64);
     } catch (e) {
       console.error(e);
@@ -106,22 +205,28 @@ export default function TextbookScreen() {
     await clearCachedRefAudio(selectedCourseId, lesson.id);
     setDetailState('loading_audio');
     try {
-      const res = await fetch('/api/textbook/ref-audio', {
+      const res = await apiFetch('/api/textbook/ref-audio', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: lesson.text }),
+        body: JSON.stringify({ text: lesson.text, voice }),
       });
       const data = await res.json();
       if (!res.ok) throw new Error(data.error || 'Failed to load reference audio');
       const base64 = data.refAudioBase64 as string;
-      await setCachedRefAudio(selectedCourseId, lesson.id, base64);
+      await setCachedRefAudio(selectedCourseId, lesson.id, base64, voice);
       applyRefAudio(base64);
     } catch (e) {
       console.error(e);
       setError(e instanceof Error ? e.message : 'Failed to refresh audio');
       setDetailState('ready');
     }
-  }, [lesson, selectedCourseId, applyRefAudio]);
+  }, [lesson, selectedCourseId, voice, applyRefAudio]);
+
+  const handleVoiceChange = async (next: VoicePreference) => {
+    if (!lesson) return;
+    await setLessonVoice(selectedCourseId, lesson.id, next);
+    loadLesson(selectedCourseId, lesson, false, next);
+  };
 
   const startRecording = async () => {
     if (!lesson) return;
@@ -173,10 +278,15 @@ export default function TextbookScreen() {
   };
 
   const runAnalysis = async () => {
-    if (!userAudioBlob || !lesson || !refAudioBase64) return;
+    if (!userAudioBlob || !userAudioUrl || !lesson || !refAudioBase64) return;
     setDetailState('analyzing');
     setError(null);
     try {
+      // Reject silent/clipped/partial takes before uploading anything
+      const metrics = await preAnalyzeTake(
+        userAudioUrl,
+        refAudioUrl ?? `data:audio/wav;base64,${refAudioBase64}`
+      );
       const base64 = await new Promise<string>((resolve, reject) => {
         const reader = new FileReader();
         reader.onloadend = () => {
@@ -188,7 +298,7 @@ export default function TextbookScreen() {
         reader.onerror = () => reject(new Error('Failed to read recording'));
         reader.readAsDataURL(userAudioBlob);
       });
-      const res = await fetch('/api/shadow/analyze', {
+      const res = await apiFetch('/api/shadow/analyze', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -196,6 +306,7 @@ export default function TextbookScreen() {
           userMimeType: userAudioBlob.type,
           refAudioBase64,
           refText: lesson.text,
+          metrics,
         }),
       });
       const text = await res.text();
@@ -206,8 +317,10 @@ export default function TextbookScreen() {
         throw new Error(res.ok ? 'Invalid response from server' : (text || 'Analysis failed'));
       }
       if (!res.ok) throw new Error(String((data.error ?? data.message ?? text) || 'Analysis failed'));
-      setAnalysis(data as unknown as ShadowAnalysisResult);
+      const result = { ...(data as unknown as ShadowAnalysisResult), metrics };
+      setAnalysis(result);
       setDetailState('results');
+      await recordAttempt(result, 'lesson');
     } catch (e) {
       console.error(e);
       setError(e instanceof Error ? e.message : 'Analysis failed.');
@@ -215,8 +328,17 @@ export default function TextbookScreen() {
     }
   };
 
+  const completeDrill = (result: ShadowAnalysisResult) => {
+    resetRecording();
+    setAnalysis(result);
+    setDrillMode(false);
+    setDetailState('results');
+    recordAttempt(result, 'drill');
+  };
+
   const backToList = () => {
     setView('list');
+    setDrillMode(false);
     setLesson(null);
     setRefAudioUrl((prev) => {
       if (prev) URL.revokeObjectURL(prev);
@@ -238,10 +360,16 @@ export default function TextbookScreen() {
   if (view === 'list') {
     const query = courseSearchQuery.trim().toLowerCase();
     const filteredCourses = query
-      ? COURSES.filter((c) => c.name.toLowerCase().includes(query))
-      : COURSES;
+      ? allCourses.filter((c) => c.name.toLowerCase().includes(query))
+      : allCourses;
     const course = currentCourse ?? COURSES[0];
     const lessons = course?.lessons ?? [];
+    const progress = summarizeCourseProgress(attempts, course?.id ?? '');
+    const completedCount = lessons.filter((l) => progress.get(l.id)?.completed).length;
+    const resume = getResumeLesson(attempts, allCourses);
+    const resumeLesson = resume
+      ? allCourses.find((c) => c.id === resume.courseId)?.lessons.find((l) => l.id === resume.lessonId)
+      : undefined;
     return (
       <div className="h-full bg-primary-50 flex flex-col overflow-y-auto">
         <div className="flex-1 px-4 py-6 pb-24 safe-bottom">
@@ -262,6 +390,28 @@ export default function TextbookScreen() {
               />
             </div>
 
+            {/* Resume where I left off */}
+            {resume && resumeLesson && (
+              <button
+                type="button"
+                onClick={() => {
+                  setSelectedCourseId(resume.courseId);
+                  loadLesson(resume.courseId, resumeLesson);
+                }}
+                className="w-full flex items-center gap-3 rounded-xl bg-primary-900 text-white px-4 py-3.5 text-left shadow-md hover:bg-primary-800 transition-all touch-manipulation"
+              >
+                <PlayCircle size={22} className="shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <span className="block text-xs text-white/70 font-medium">
+                    Continue · {allCourses.find((c) => c.id === resume.courseId)?.name}
+                  </span>
+                  <span className="block text-sm font-medium truncate">
+                    Lesson {resumeLesson.id}: {resumeLesson.title}
+                  </span>
+                </div>
+              </button>
+            )}
+
             {/* Loaded courses – horizontal row (Shadow-style), scroll when many */}
             <section>
               <h2 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
@@ -311,6 +461,24 @@ export default function TextbookScreen() {
                         >
                           <RotateCw size={14} />
                         </button>
+                        {customCourses.some((cc) => cc.id === c.id) && (
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleRemoveCourse(c);
+                            }}
+                            className={`p-1.5 rounded-lg transition-colors opacity-0 group-hover:opacity-100 md:opacity-100 flex-shrink-0 ${
+                              selectedCourseId === c.id
+                                ? 'hover:bg-white/20 text-white'
+                                : 'text-gray-400 hover:text-red-500 hover:bg-black/5'
+                            }`}
+                            title="Remove imported course"
+                            aria-label="Remove course"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        )}
                       </div>
                     ))
                   )}
@@ -318,35 +486,47 @@ export default function TextbookScreen() {
               </div>
             </section>
 
-            {/* Add / load new course – Notion-style secondary block */}
+            {/* Import course – Markdown / text / JSON / EPUB */}
             <section>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept={COURSE_FILE_ACCEPT}
+                onChange={handleImportCourse}
+                className="hidden"
+              />
               <button
                 type="button"
-                onClick={() => setShowAddCoursePlaceholder(true)}
-                className="w-full flex items-center gap-3 rounded-xl border border-dashed border-black/15 bg-white/50 px-4 py-3.5 text-left hover:border-primary-300 hover:bg-primary-50/30 transition-all touch-manipulation"
+                onClick={() => importInputRef.current?.click()}
+                disabled={importing}
+                className="w-full flex items-center gap-3 rounded-xl border border-dashed border-black/15 bg-white/50 px-4 py-3.5 text-left hover:border-primary-300 hover:bg-primary-50/30 transition-all touch-manipulation disabled:opacity-60"
               >
                 <div className="w-9 h-9 rounded-lg bg-gray-100 flex items-center justify-center shrink-0">
-                  <Plus size={18} className="text-gray-500" />
+                  {importing ? (
+                    <Loader2 size={18} className="text-gray-500 animate-spin" />
+                  ) : (
+                    <Plus size={18} className="text-gray-500" />
+                  )}
                 </div>
                 <div className="min-w-0 flex-1">
                   <span className="block text-sm font-medium text-gray-700">
-                    Load new course
+                    {importing ? 'Importing course...' : 'Import course'}
                   </span>
                   <span className="block text-xs text-gray-500 mt-0.5">
-                    Search and add more courses
+                    Markdown, plain text, JSON or EPUB
                   </span>
                 </div>
               </button>
-              {showAddCoursePlaceholder && (
+              {importError && (
                 <div
-                  className="mt-2 rounded-xl border border-black/8 bg-white px-4 py-3 text-sm text-gray-600"
+                  className="mt-2 rounded-xl border border-red-100 bg-red-50 px-4 py-3 text-sm text-red-600"
                   role="alert"
                 >
-                  Search and load new courses will be available in a future update. For now, use the loaded courses above.
+                  {importError}
                   <button
                     type="button"
-                    onClick={() => setShowAddCoursePlaceholder(false)}
-                    className="mt-2 text-primary-600 font-medium hover:underline"
+                    onClick={() => setImportError(null)}
+                    className="block mt-2 text-red-700 font-medium hover:underline"
                   >
                     Dismiss
                   </button>
@@ -357,24 +537,47 @@ export default function TextbookScreen() {
             {/* Lessons for selected course */}
             {course && lessons.length > 0 && (
               <section>
-                <h2 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-3">
-                  {course.name}
-                </h2>
+                <div className="flex items-baseline justify-between mb-3">
+                  <h2 className="text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {course.name}
+                  </h2>
+                  {completedCount > 0 && (
+                    <span className="text-xs text-gray-500">
+                      {completedCount}/{lessons.length} completed
+                    </span>
+                  )}
+                </div>
                 <ul className="space-y-1.5">
-                  {lessons.map((l) => (
-                    <li key={l.id}>
-                      <button
-                        type="button"
-                        onClick={() => loadLesson(selectedCourseId, l)}
-                        className="w-full text-left rounded-xl border border-black/8 bg-white px-4 py-3 hover:border-primary-200 hover:bg-primary-50/30 transition-all touch-manipulation"
-                      >
-                        <span className="text-xs text-gray-500 font-medium">Lesson {l.id}</span>
-                        <p className="text-sm font-medium text-primary-900 mt-0.5 line-clamp-1">
-                          {l.title}
-                        </p>
-                      </button>
-                    </li>
-                  ))}
+                  {lessons.map((l) => {
+                    const p = progress.get(l.id);
+                    return (
+                      <li key={l.id}>
+                        <button
+                          type="button"
+                          onClick={() => loadLesson(selectedCourseId, l)}
+                          className="w-full flex items-center gap-3 text-left rounded-xl border border-black/8 bg-white px-4 py-3 hover:border-primary-200 hover:bg-primary-50/30 transition-all touch-manipulation"
+                        >
+                          <div className="min-w-0 flex-1">
+                            <span className="text-xs text-gray-500 font-medium">Lesson {l.id}</span>
+                            <p className="text-sm font-medium text-primary-900 mt-0.5 line-clamp-1">
+                              {l.title}
+                            </p>
+                          </div>
+                          {p && (
+                            <div className="text-right shrink-0">
+                              <span className="flex items-center justify-end gap-1 text-sm font-semibold text-primary-900">
+                                {p.completed && <Check size={14} className="text-green-500" aria-label="Completed" />}
+                                {p.bestScore}
+                              </span>
+                              <span className="block text-[11px] text-gray-400">
+                                {p.attempts} {p.attempts === 1 ? 'attempt' : 'attempts'}
+                              </span>
+                            </div>
+                          )}
+                        </button>
+                      </li>
+                    );
+                  })}
                 </ul>
               </section>
             )}
@@ -387,10 +590,23 @@ export default function TextbookScreen() {
   // Detail view (lesson + record + analyze – same flow as Shadow)
   if (!lesson) return null;
 
-  const summaryCards: { id: string; title: string; type: 'score' | 'feedback' | 'strengths' | 'improvements' }[] = analysis
+  if (drillMode) {
+    return (
+      <TextbookDrill
+        courseId={selectedCourseId}
+        lesson={lesson}
+        voice={voice}
+        onExit={() => setDrillMode(false)}
+        onComplete={completeDrill}
+      />
+    );
+  }
+
+  const summaryCards: { id: string; title: string; type: 'score' | 'feedback' | 'intonation' | 'strengths' | 'improvements' }[] = analysis
     ? [
         { id: 'score', title: 'Overall Score', type: 'score' },
         { id: 'feedback', title: "Coach's Feedback", type: 'feedback' },
+        ...(analysis.metrics ? [{ id: 'intonation', title: 'Intonation', type: 'intonation' as const }] : []),
         { id: 'strengths', title: 'Strengths', type: 'strengths' },
         { id: 'improvements', title: 'Improvements', type: 'improvements' },
       ]
@@ -424,6 +640,52 @@ export default function TextbookScreen() {
               </button>
             </div>
 
+            {(detailState === 'ready' || detailState === 'results') && (
+              <div className="flex flex-col items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowVoicePicker((v) => !v)}
+                  className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/80 border border-black/5 text-xs font-medium text-gray-600 hover:text-primary-900 transition-colors touch-manipulation"
+                  aria-expanded={showVoicePicker}
+                >
+                  <Volume2 size={14} />
+                  {describeVoice(voice)}
+                </button>
+                {showVoicePicker && (
+                  <div className="w-full rounded-2xl bg-white border border-black/5 p-3 space-y-3 text-left">
+                    <div className="grid grid-cols-2 gap-1.5">
+                      {VOICE_OPTIONS.map((opt) => (
+                        <button
+                          key={opt.id}
+                          type="button"
+                          onClick={() => handleVoiceChange({ ...voice, voiceId: opt.id })}
+                          className={`px-3 py-2 rounded-xl text-xs font-medium transition-colors touch-manipulation ${
+                            voice.voiceId === opt.id ? 'bg-primary-900 text-white' : 'bg-gray-50 text-gray-600 hover:bg-gray-100'
+                          }`}
+                        >
+                          {opt.label}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex gap-1.5">
+                      {PACE_OPTIONS.map((opt) => (
+                        <button
+                          key={opt.value}
+                          type="button"
+                          onClick={() => handleVoiceChange({ ...voice, pace: opt.value })}
+                          className={`flex-1 px-3 py-2 rounded-xl text-xs font-medium transition-colors touch-manipulation ${
+                            voice.pace === opt.value ? 'bg-primary-900 text-white' : 'bg-gray-50 text-gray-600 hover:bg-gray-100'
+                          }`}
+                        >
+                          {opt.label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             {detailState === 'loading_audio' && (
               <div className="flex flex-col items-center gap-2 py-8">
                 <Loader2 size={32} className="text-primary-900 animate-spin" />
@@ -435,10 +697,23 @@ export default function TextbookScreen() {
               <>
                 {detailState === 'results' && analysis ? (
                   <div className="w-full max-h-[58vh] min-h-[28vh] overflow-y-auto rounded-2xl bg-white/80 border border-black/5 px-4 py-4">
-                    <WordAnalysisView words={analysis.words} />
+                    <WordAnalysisView
+                      words={analysis.words}
+                      selectedIndex={selectedWordIndex}
+                      onWordClick={refAudioUrl && userAudioUrl && wordTiming !== 'failed' ? setSelectedWordIndex : undefined}
+                    />
                     <p className="text-xs text-gray-400 text-center mt-2">
                       Color-coded: <span className="text-emerald-700">Good</span> · <span className="text-amber-600">Average</span> · <span className="text-red-600">Needs Work</span>
+                      {refAudioUrl && userAudioUrl && wordTiming !== 'failed' && ' · Tap a word to replay it'}
                     </p>
+                    {selectedWordIndex !== null && refAudioUrl && userAudioUrl && (
+                      <WordReplayPanel
+                        word={timedWords?.[selectedWordIndex] ?? null}
+                        refAudioUrl={refAudioUrl}
+                        userAudioUrl={userAudioUrl}
+                        onClose={() => setSelectedWordIndex(null)}
+                      />
+                    )}
                   </div>
                 ) : (
                   <>
@@ -457,6 +732,16 @@ export default function TextbookScreen() {
                         <Volume2 size={20} />
                       </button>
                     )}
+                    {detailState === 'ready' && (
+                      <button
+                        type="button"
+                        onClick={() => setDrillMode(true)}
+                        className="mt-3 px-3 py-2 rounded-full text-sm font-medium text-gray-500 hover:text-primary-900 hover:bg-white/80 transition-colors touch-manipulation min-h-[44px] inline-flex items-center justify-center gap-1.5"
+                      >
+                        <ListOrdered size={18} />
+                        Sentence drill
+                      </button>
+                    )}
                   </>
                 )}
 
@@ -468,7 +753,7 @@ export default function TextbookScreen() {
                           <Volume2 size={16} className="text-white" />
                         </div>
                         <div>
-                          <h3 className="text-sm font-semibold text-emerald-900">Reference (American male)</h3>
+                          <h3 className="text-sm font-semibold text-emerald-900">Reference ({describeVoice(voice)})</h3>
                           <p className="text-xs text-emerald-600">Listen & compare</p>
                         </div>
                       </div>
@@ -547,7 +832,11 @@ export default function TextbookScreen() {
                 <div className="flex flex-col gap-4">
                   {summaryCards.map((card) => (
                     <div key={card.id} className="w-full">
-                      <SummaryCard analysis={analysis} card={card} />
+                      {card.type === 'intonation' && analysis.metrics ? (
+                        <IntonationChart metrics={analysis.metrics} words={timedWords} />
+                      ) : (
+                        <SummaryCard analysis={analysis} card={card} />
+                      )}
                     </div>
                   ))}
                 </div>
@@ -591,7 +880,15 @@ export default function TextbookScreen() {
   );
 }
 
-function WordAnalysisView({ words }: { words: ShadowWordAnalysis[] }) {
+function WordAnalysisView({
+  words,
+  selectedIndex,
+  onWordClick,
+}: {
+  words: ShadowWordAnalysis[];
+  selectedIndex?: number | null;
+  onWordClick?: (wordIndex: number) => void;
+}) {
   return (
     <div className="flex flex-wrap gap-x-2 gap-y-3 leading-relaxed justify-center max-w-2xl mx-auto px-2">
       {words.map((w, idx) => {
@@ -607,8 +904,14 @@ function WordAnalysisView({ words }: { words: ShadowWordAnalysis[] }) {
           statusColor = 'text-emerald-700 cursor-pointer';
         }
         return (
-          <span key={idx} className="relative group inline-block">
-            <span className={`text-xl md:text-2xl transition-colors ${statusColor} ${statusDecor}`}>{w.word}</span>
+          <span key={idx} className="relative group inline-block" onClick={() => onWordClick?.(idx)}>
+            <span
+              className={`text-xl md:text-2xl transition-colors rounded ${statusColor} ${statusDecor} ${
+                idx === selectedIndex ? 'bg-primary-900/5' : ''
+              }`}
+            >
+              {w.word}
+            </span>
             {w.status !== 'good' && (
               <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-max max-w-[200px] bg-primary-900 text-white text-xs rounded-lg px-3 py-2 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-20 shadow-xl">
                 {w.phonetic && <div className="font-mono text-gray-300 mb-1">{w.phonetic}</div>}
@@ -628,7 +931,7 @@ function SummaryCard({
   card,
 }: {
   analysis: ShadowAnalysisResult;
-  card: { id: string; title: string; type: 'score' | 'feedback' | 'strengths' | 'improvements' };
+  card: { id: string; title: string; type: 'score' | 'feedback' | 'intonation' | 'strengths' | 'improvements' };
 }) {
   const { type } = card;
   if (type === 'score') {
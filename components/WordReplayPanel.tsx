@@ -0,0 +1,101 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Loader2, Mic, Volume2, X } from 'lucide-react';
+import type { ShadowWordAnalysis } from '@/lib/types';
+import { playClip } from '@/lib/utils/wordAlignment';
+
+type ClipSide = 'ref' | 'user';
+
+interface WordReplayPanelProps {
+  /** Word with ref/user timestamps filled in (see ensureWordTimings). Null while aligning. */
+  word: ShadowWordAnalysis | null;
+  refAudioUrl: string;
+  userAudioUrl: string;
+  onClose: () => void;
+}
+
+/**
+ * Reference and user clips of one word, side by side. Plays the reference then the user's take
+ * whenever a new word is selected; either clip can be replayed on its own.
+ */
+export function WordReplayPanel({ word, refAudioUrl, userAudioUrl, onClose }: WordReplayPanelProps) {
+  const [playing, setPlaying] = useState<ClipSide | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const play = useCallback(
+    async (sides: ClipSide[]) => {
+      if (!word) return;
+      abortRef.current?.abort();
+      const ac = new AbortController();
+      abortRef.current = ac;
+      for (const side of sides) {
+        if (ac.signal.aborted) return;
+        setPlaying(side);
+        if (side === 'ref') await playClip(refAudioUrl, word.refStartTime ?? 0, word.refEndTime ?? 0, ac.signal);
+        else await playClip(userAudioUrl, word.userStartTime ?? 0, word.userEndTime ?? 0, ac.signal);
+      }
+      if (!ac.signal.aborted) setPlaying(null);
+    },
+    [word, refAudioUrl, userAudioUrl]
+  );
+
+  useEffect(() => {
+    play(['ref', 'user']);
+    return () => abortRef.current?.abort();
+  }, [play]);
+
+  const clipButton = (side: ClipSide) => {
+    const isRef = side === 'ref';
+    const Icon = isRef ? Volume2 : Mic;
+    return (
+      <button
+        type="button"
+        onClick={() => play([side])}
+        disabled={!word}
+        className={`flex-1 rounded-xl p-3 border flex items-center gap-2 transition-all touch-manipulation min-h-[44px] disabled:opacity-50 ${
+          isRef ? 'bg-emerald-50 border-emerald-100 text-emerald-900' : 'bg-blue-50 border-blue-100 text-blue-900'
+        } ${playing === side ? 'ring-2 ring-offset-1 ' + (isRef ? 'ring-emerald-400' : 'ring-blue-400') : ''}`}
+        aria-label={isRef ? 'Replay native speaker' : 'Replay your recording'}
+      >
+        <span className={`w-7 h-7 rounded-full flex items-center justify-center ${isRef ? 'bg-emerald-500' : 'bg-blue-500'}`}>
+          <Icon size={14} className="text-white" />
+        </span>
+        <span className="text-sm font-semibold">{isRef ? 'Native' : 'You'}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="mt-4 bg-white rounded-2xl p-4 shadow-float border border-black/5 text-left animate-in fade-in">
+      <div className="flex items-start justify-between gap-2 mb-3">
+        <div className="min-w-0">
+          {word ? (
+            <>
+              <div className="text-lg font-semibold text-primary-900 truncate">{word.word}</div>
+              {word.phonetic && <div className="font-mono text-xs text-gray-400">{word.phonetic}</div>}
+              {word.status !== 'good' && word.issue && <p className="text-xs text-gray-500 mt-1">{word.issue}</p>}
+            </>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 size={16} className="animate-spin" />
+              Aligning words...
+            </div>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1.5 rounded-full text-gray-400 hover:text-primary-900 hover:bg-gray-100 touch-manipulation"
+          aria-label="Close word replay"
+        >
+          <X size={16} />
+        </button>
+      </div>
+      <div className="flex gap-3">
+        {clipButton('ref')}
+        {clipButton('user')}
+      </div>
+    </div>
+  );
+}
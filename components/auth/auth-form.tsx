@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Loader2, Mail } from 'lucide-react';
+import { useAuthState, useAuthActions } from '@/lib/hooks/use-auth';
+import { isSupabaseConfigured } from '@/lib/supabase/client';
+
+type AuthMode = 'signin' | 'signup' | 'magic';
+
+const TITLES: Record<AuthMode, string> = {
+  signin: 'Welcome back',
+  signup: 'Create your account',
+  magic: 'Sign in with a magic link',
+};
+
+/** Path stored by useAuthGuard().redirectToAuth, or home. */
+function takeRedirectPath(): string {
+  try {
+    const path = sessionStorage.getItem('auth-redirect');
+    sessionStorage.removeItem('auth-redirect');
+    return path && path !== '/auth' ? path : '/';
+  } catch {
+    return '/';
+  }
+}
+
+/**
+ * Email/password and magic-link sign-in for the /auth page.
+ * Redirects back once a session exists (including after a magic-link round trip).
+ */
+export function AuthForm() {
+  const router = useRouter();
+  const { isAuthenticated, loading } = useAuthState();
+  const { signIn, signUp } = useAuthActions();
+  const [mode, setMode] = useState<AuthMode>('signin');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && isAuthenticated) {
+      router.replace(takeRedirectPath());
+    }
+  }, [loading, isAuthenticated, router]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setNotice(null);
+    setSubmitting(true);
+    try {
+      if (mode === 'signin') {
+        await signIn(email.trim(), password);
+      } else if (mode === 'signup') {
+        await signUp(email.trim(), password);
+        setNotice('Check your inbox to confirm your email, then sign in.');
+      } else {
+        await signIn(email.trim());
+        setNotice('Magic link sent! Open it on this device to sign in.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setError(null);
+    setNotice(null);
+  };
+
+  return (
+    <div className="w-full max-w-sm">
+      <button
+        type="button"
+        onClick={() => router.push('/')}
+        className="mb-6 flex items-center gap-2 text-sm font-medium text-gray-500 hover:text-primary-900 transition-colors"
+      >
+        <ArrowLeft size={16} />
+        Back
+      </button>
+
+      <div className="rounded-2xl p-6 bg-white border border-black/8 shadow-float">
+        <h1 className="text-2xl font-bold text-primary-900 mb-1">{TITLES[mode]}</h1>
+        <p className="text-sm text-gray-500 mb-6">Sign in to sync your progress across devices.</p>
+
+        {!isSupabaseConfigured ? (
+          <p className="text-sm text-red-600">
+            Sign-in is unavailable: Supabase is not configured. Your progress is saved on this device.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+            <input
+              type="email"
+              required
+              autoComplete="email"
+              placeholder="you@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full px-4 py-3 rounded-xl border border-black/10 bg-primary-50 text-primary-900 focus:outline-none focus:ring-2 focus:ring-primary-900/20"
+            />
+            {mode !== 'magic' && (
+              <input
+                type="password"
+                required
+                minLength={6}
+                autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+                placeholder="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-4 py-3 rounded-xl border border-black/10 bg-primary-50 text-primary-900 focus:outline-none focus:ring-2 focus:ring-primary-900/20"
+              />
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {notice && <p className="text-sm text-emerald-600">{notice}</p>}
+
+            <motion.button
+              type="submit"
+              disabled={submitting}
+              className="w-full py-3 px-4 rounded-xl bg-primary-900 text-white font-semibold hover:opacity-90 transition-opacity flex items-center justify-center gap-2 disabled:opacity-60"
+              whileTap={{ scale: 0.98 }}
+            >
+              {submitting ? <Loader2 size={18} className="animate-spin" /> : mode === 'magic' && <Mail size={18} />}
+              {mode === 'signin' ? 'Sign in' : mode === 'signup' ? 'Create account' : 'Email me a link'}
+            </motion.button>
+
+            <div className="flex flex-col items-center gap-2 mt-2 text-sm">
+              {mode !== 'magic' && (
+                <button type="button" onClick={() => switchMode('magic')} className="text-primary-900 font-medium hover:underline">
+                  Use a magic link instead
+                </button>
+              )}
+              {mode !== 'signin' && (
+                <button type="button" onClick={() => switchMode('signin')} className="text-gray-500 hover:underline">
+                  Sign in with a password
+                </button>
+              )}
+              {mode !== 'signup' && (
+                <button type="button" onClick={() => switchMode('signup')} className="text-gray-500 hover:underline">
+                  New here? Create an account
+                </button>
+              )}
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -26,7 +26,7 @@ const textSizeClasses = {
 } as const;
 
 /**
- * Avatar + optional sidebar. When not logged in, click opens sidebar with "Log in" (demo).
+ * Avatar + optional sidebar. When not logged in, click opens sidebar with "Log in" (→ /auth).
  * When logged in, click opens sidebar with profile and menu.
  */
 export function UserAvatar({
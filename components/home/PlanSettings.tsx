@@ -1,16 +1,26 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { MoreHorizontal, Check, ChevronRight, Flame, MapPin, MapPinOff } from 'lucide-react';
+import { MoreHorizontal, Check, ChevronRight, Flame, MapPin, MapPinOff, Download, Upload, Mic, MicOff } from 'lucide-react';
 import { useTheme } from '@/lib/hooks/useTheme';
 import { storage } from '@/lib/utils/storage';
-import type { UserLevel, PracticeMode, AiModelPreference } from '@/lib/types';
+import { downloadArchive, importArchive, parseArchive } from '@/lib/utils/archive';
+import {
+  DEFAULT_RECORDING_SETTINGS,
+  RECORDING_QUOTA_OPTIONS_MB,
+  getRecordingSettings,
+  getRecordingUsage,
+  saveRecordingSettings,
+} from '@/lib/utils/shadowRecordings';
+import { VOICE_OPTIONS, PACE_OPTIONS, DEFAULT_SHADOW_VOICE, parseVoicePreference } from '@/lib/constants/voices';
+import type { UserLevel, PracticeMode, AiModelPreference, VoicePreference, RecordingSettings } from '@/lib/types';
 
 const STORAGE_LEVEL = 'speakSnapLevel';
 const STORAGE_PRACTICE_MODE = 'speakSnapPracticeMode';
 const STORAGE_MODEL = 'speakSnapModel';
 const STORAGE_LOCATION_ENABLED = 'speakSnapLocationEnabled';
+const STORAGE_VOICE = 'speakSnapVoice';
 
 const DIFFICULTY_OPTIONS: UserLevel[] = ['Beginner', 'Intermediate', 'Advanced'];
 const PRACTICE_OPTIONS: PracticeMode[] = ['Daily', 'IELTS'];
@@ -33,22 +43,74 @@ export default function PlanSettings({ onClose, origin }: PlanSettingsProps) {
   const [practiceMode, setPracticeMode] = useState<PracticeMode>('Daily');
   const [model, setModel] = useState<AiModelPreference>('auto');
   const [locationEnabled, setLocationEnabled] = useState(false);
+  const [voice, setVoice] = useState<VoicePreference>(DEFAULT_SHADOW_VOICE);
+  const [recordings, setRecordings] = useState<RecordingSettings>(DEFAULT_RECORDING_SETTINGS);
+  const [recordingUsage, setRecordingUsage] = useState<{ count: number; bytes: number } | null>(null);
+  const [archiveBusy, setArchiveBusy] = useState(false);
+  const [archiveMessage, setArchiveMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const loadSettings = async () => {
+    const [savedLevel, savedMode, savedModel, savedLoc, savedVoice] = await Promise.all([
+      storage.getItem<UserLevel>(STORAGE_LEVEL, false),
+      storage.getItem<PracticeMode>(STORAGE_PRACTICE_MODE, false),
+      storage.getItem<AiModelPreference>(STORAGE_MODEL, false),
+      storage.getItem<boolean>(STORAGE_LOCATION_ENABLED, false),
+      storage.getItem<VoicePreference>(STORAGE_VOICE, false),
+    ]);
+    if (savedLevel) setDifficulty(savedLevel);
+    if (savedMode) setPracticeMode(savedMode);
+    if (savedModel) setModel(savedModel);
+    if (savedLoc != null) setLocationEnabled(savedLoc);
+    if (savedVoice) setVoice(parseVoicePreference(savedVoice, DEFAULT_SHADOW_VOICE));
+    setRecordings(await getRecordingSettings());
+    setRecordingUsage(await getRecordingUsage());
+  };
 
   useEffect(() => {
-    (async () => {
-      const [savedLevel, savedMode, savedModel, savedLoc] = await Promise.all([
-        storage.getItem<UserLevel>(STORAGE_LEVEL),
-        storage.getItem<PracticeMode>(STORAGE_PRACTICE_MODE),
-        storage.getItem<AiModelPreference>(STORAGE_MODEL),
-        storage.getItem<boolean>(STORAGE_LOCATION_ENABLED),
-      ]);
-      if (savedLevel) setDifficulty(savedLevel);
-      if (savedMode) setPracticeMode(savedMode);
-      if (savedModel) setModel(savedModel);
-      if (savedLoc != null) setLocationEnabled(savedLoc);
-    })();
+    loadSettings();
   }, []);
 
+  const handleExport = async () => {
+    setArchiveBusy(true);
+    setArchiveMessage(null);
+    try {
+      await downloadArchive();
+      setArchiveMessage('Backup downloaded.');
+    } catch (error) {
+      console.error('Export failed:', error);
+      setArchiveMessage('Export failed. Please try again.');
+    } finally {
+      setArchiveBusy(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setArchiveBusy(true);
+    setArchiveMessage(null);
+    try {
+      const report = await importArchive(parseArchive(await file.text()));
+      await loadSettings();
+      const keptLocal = report.conflicts.filter((c) => c.kept === 'local').length;
+      setArchiveMessage(
+        `Imported ${report.added} new, ${report.updated} updated, ${report.unchanged} unchanged.` +
+          (report.conflicts.length
+            ? ` ${report.conflicts.length} conflicts (${keptLocal} kept from this device, newer wins).`
+            : '') +
+          (report.skipped ? ` ${report.skipped} invalid records skipped.` : '')
+      );
+    } catch (error) {
+      console.error('Import failed:', error);
+      setArchiveMessage(error instanceof Error ? error.message : 'Import failed.');
+    } finally {
+      setArchiveBusy(false);
+    }
+  };
+
   useEffect(() => {
     storage.setItem(STORAGE_LEVEL, difficulty);
   }, [difficulty]);
@@ -65,6 +127,19 @@ export default function PlanSettings({ onClose, origin }: PlanSettingsProps) {
     storage.setItem(STORAGE_LOCATION_ENABLED, locationEnabled);
   }, [locationEnabled]);
 
+  // Only written on an explicit choice, so textbook lessons keep their own default until then
+  const chooseVoice = (next: VoicePreference) => {
+    setVoice(next);
+    storage.setItem(STORAGE_VOICE, next);
+  };
+
+  // Applied immediately: lowering the quota or turning recording off prunes stored takes
+  const chooseRecordings = async (next: RecordingSettings) => {
+    setRecordings(next);
+    await saveRecordingSettings(next);
+    setRecordingUsage(await getRecordingUsage());
+  };
+
   const startX =
     origin.x ||
     (typeof window !== 'undefined' ? window.innerWidth - 40 : 300);
@@ -225,6 +300,104 @@ export default function PlanSettings({ onClose, origin }: PlanSettingsProps) {
           </div>
         </section>
 
+        <section>
+          <h2 className={`text-xl font-bold mb-4 ${sectionTitle}`}>Reference Voice</h2>
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            {VOICE_OPTIONS.map((opt) => {
+              const isActive = voice.voiceId === opt.id;
+              return (
+                <button
+                  key={opt.id}
+                  type="button"
+                  onClick={() => chooseVoice({ ...voice, voiceId: opt.id })}
+                  className={`py-3 px-3 text-sm font-semibold rounded-2xl transition-all duration-300 ${
+                    isActive ? 'bg-apple-blue text-white shadow-md' : `${cardBg} ${cardText} ${isDark ? 'hover:text-gray-200' : 'hover:text-gray-600'}`
+                  }`}
+                >
+                  {opt.label}
+                </button>
+              );
+            })}
+          </div>
+          <div className={`p-1 rounded-full flex relative ${isDark ? 'bg-gray-800' : 'bg-gray-100'}`}>
+            {PACE_OPTIONS.map((opt) => {
+              const isActive = voice.pace === opt.value;
+              return (
+                <button
+                  key={opt.value}
+                  type="button"
+                  onClick={() => chooseVoice({ ...voice, pace: opt.value })}
+                  className={`flex-1 py-3 text-sm font-semibold rounded-full transition-all duration-300 relative z-10 ${
+                    isActive ? 'text-white shadow-md' : `${cardText} ${isDark ? 'hover:text-gray-200' : 'hover:text-gray-600'}`
+                  }`}
+                >
+                  {opt.label}
+                  {isActive && (
+                    <motion.div
+                      layoutId="paceBg"
+                      className="absolute inset-0 bg-apple-blue rounded-full -z-10"
+                      transition={{ type: 'spring', bounce: 0.2, duration: 0.6 }}
+                    />
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </section>
+
+        <section>
+          <h2 className={`text-xl font-bold mb-4 ${sectionTitle}`}>Recordings</h2>
+          <div className={`rounded-2xl overflow-hidden border mb-3 ${panelBg} ${panelBorder}`}>
+            <div className="flex items-center justify-between p-4">
+              <span className={`font-medium ${sectionTitle} flex items-center gap-2`}>
+                {recordings.enabled ? <Mic size={20} /> : <MicOff size={20} />}
+                Keep my shadow takes
+              </span>
+              <button
+                type="button"
+                onClick={() => chooseRecordings({ ...recordings, enabled: !recordings.enabled })}
+                className={`toggle-switch w-12 h-7 rounded-full p-1 transition-colors duration-300 ${recordings.enabled ? 'bg-apple-blue' : toggleTrack}`}
+              >
+                <div
+                  className={`w-5 h-5 bg-white rounded-full shadow-sm transition-transform duration-300 ${recordings.enabled ? 'translate-x-5' : 'translate-x-0'}`}
+                />
+              </button>
+            </div>
+          </div>
+          {recordings.enabled && (
+            <div className={`p-1 rounded-full flex relative ${isDark ? 'bg-gray-800' : 'bg-gray-100'}`}>
+              {RECORDING_QUOTA_OPTIONS_MB.map((mb) => {
+                const isActive = recordings.quotaMb === mb;
+                return (
+                  <button
+                    key={mb}
+                    type="button"
+                    onClick={() => chooseRecordings({ ...recordings, quotaMb: mb })}
+                    className={`flex-1 py-3 text-sm font-semibold rounded-full transition-all duration-300 relative z-10 ${
+                      isActive ? 'text-white shadow-md' : `${cardText} ${isDark ? 'hover:text-gray-200' : 'hover:text-gray-600'}`
+                    }`}
+                  >
+                    {mb} MB
+                    {isActive && (
+                      <motion.div
+                        layoutId="recordingQuotaBg"
+                        className="absolute inset-0 bg-apple-blue rounded-full -z-10"
+                        transition={{ type: 'spring', bounce: 0.2, duration: 0.6 }}
+                      />
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {recordingUsage && (
+            <p className={`mt-3 text-sm ${cardText}`}>
+              {recordingUsage.count} takes saved on this device · {(recordingUsage.bytes / (1024 * 1024)).toFixed(1)} MB.
+              Oldest takes are removed first.
+            </p>
+          )}
+        </section>
+
         <section>
           <h2 className={`text-xl font-bold mb-4 ${sectionTitle}`}>Permission</h2>
           <div className={`rounded-2xl overflow-hidden border ${panelBg} ${panelBorder}`}>
@@ -245,6 +418,38 @@ export default function PlanSettings({ onClose, origin }: PlanSettingsProps) {
             </div>
           </div>
         </section>
+
+        <section>
+          <h2 className={`text-xl font-bold mb-4 ${sectionTitle}`}>Data</h2>
+          <div className={`rounded-2xl overflow-hidden border ${panelBg} ${panelBorder}`}>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={archiveBusy}
+              className={`w-full flex items-center gap-2 p-4 font-medium ${sectionTitle} border-b ${rowBorder} disabled:opacity-50`}
+            >
+              <Download size={20} />
+              Export backup
+            </button>
+            <button
+              type="button"
+              onClick={() => importInputRef.current?.click()}
+              disabled={archiveBusy}
+              className={`w-full flex items-center gap-2 p-4 font-medium ${sectionTitle} disabled:opacity-50`}
+            >
+              <Upload size={20} />
+              Import backup
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+          {archiveMessage && <p className={`mt-3 text-sm ${cardText}`}>{archiveMessage}</p>}
+        </section>
       </div>
     </motion.div>
   );
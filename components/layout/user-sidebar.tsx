@@ -11,8 +11,10 @@ import {
   BookOpen,
   MessageSquare,
   Star,
+  RefreshCw,
 } from 'lucide-react';
-import { useAuthState, useAuthActions } from '@/lib/hooks/use-auth';
+import { useAuthState, useAuthActions, useAuthGuard } from '@/lib/hooks/use-auth';
+import { useSync } from '@/lib/contexts/sync-context';
 import { getAvatarUrl } from '@/lib/utils/avatar';
 
 export interface UserSidebarProps {
@@ -104,7 +106,9 @@ function SidebarItemRow({
 
 export function UserSidebar({ isOpen, onClose }: UserSidebarProps) {
   const { user, profile, isAuthenticated } = useAuthState();
-  const { signIn, signOut } = useAuthActions();
+  const { signOut } = useAuthActions();
+  const { redirectToAuth } = useAuthGuard();
+  const { status: syncStatus, lastSyncedAt, syncNow } = useSync();
   const sidebarRef = useRef<HTMLDivElement>(null);
   const [mounted, setMounted] = useState(false);
   const [avatarImgError, setAvatarImgError] = useState(false);
@@ -161,13 +165,9 @@ export function UserSidebar({ isOpen, onClose }: UserSidebarProps) {
     }
   };
 
-  const handleDemoLogin = async () => {
-    try {
-      await signIn('user@speaksnap.demo');
-      onClose();
-    } catch (err) {
-      console.error('Demo login error:', err);
-    }
+  const handleLogin = () => {
+    onClose();
+    redirectToAuth();
   };
 
   const displayName =
@@ -195,6 +195,24 @@ export function UserSidebar({ isOpen, onClose }: UserSidebarProps) {
       badge: 'Beta',
     },
     { id: 'settings', label: 'Settings and privacy', icon: Settings, href: '/settings' },
+    ...(syncStatus !== 'disabled'
+      ? [
+          {
+            id: 'sync',
+            label: 'Sync now',
+            icon: RefreshCw,
+            onClick: syncNow,
+            badge:
+              syncStatus === 'syncing'
+                ? 'Syncing'
+                : syncStatus === 'error'
+                  ? 'Failed'
+                  : lastSyncedAt
+                    ? new Date(lastSyncedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+                    : undefined,
+          },
+        ]
+      : []),
     { id: 'divider', label: '', icon: User, isDivider: true },
     {
       id: 'logout',
@@ -292,13 +310,13 @@ export function UserSidebar({ isOpen, onClose }: UserSidebarProps) {
                   </p>
                   <motion.button
                     type="button"
-                    onClick={handleDemoLogin}
+                    onClick={handleLogin}
                     className="w-full py-3 px-4 rounded-xl bg-primary-900 text-white font-semibold hover:opacity-90 transition-opacity flex items-center justify-center gap-2"
                     whileHover={{ scale: 1.02 }}
                     whileTap={{ scale: 0.98 }}
                   >
                     <Star size={18} />
-                    Log in (demo)
+                    Log in
                   </motion.button>
                 </div>
               )}
@@ -3,83 +3,17 @@
  * Comprehensive diary analysis with single AI call
  */
 
-import { DoubaoProvider } from './doubao';
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-// Initialize providers
-const doubaoConfig = {
-  apiKey: process.env.NEXT_DOUBAO_API_KEY || '',
-  endpoint: process.env.NEXT_DOUBAO_CHAT_ENDPOINT || '',
-  model: process.env.NEXT_DOUBAO_CHAT_MODEL || '',
-};
-
-const doubao =
-  doubaoConfig.apiKey && doubaoConfig.endpoint
-    ? new DoubaoProvider(doubaoConfig)
-    : null;
-
-const openaiKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY || '';
-const openai = openaiKey ? new OpenAI({ apiKey: openaiKey }) : null;
-
-const geminiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY || '';
-const gemini = geminiKey ? new GoogleGenerativeAI(geminiKey) : null;
-
-const AI_PROVIDER = (process.env.NEXT_PUBLIC_AI_PROVIDER || 'auto').toLowerCase();
+import { routeJSON, ensureProviderAvailable, type RouteResult } from './provider-router';
+import { AIOutputValidationError, completeDiaryAnalysisSchema } from './schemas';
+import type { AiModelPreference, CompleteDiaryAnalysis } from '@/lib/types';
 
 /**
  * Complete Diary Analysis - Single comprehensive call with detailed feedback
  */
-export async function analyzeCompleteDiary(text: string): Promise<{
-  // 总体评分（按真实英语能力维度）
-  dimensions: {
-    contentExpression: { score: number; comment: string };
-    grammarAccuracy: { score: number; comment: string };
-    vocabularyNaturalness: { score: number; comment: string };
-    englishThinking: { score: number; comment: string };
-  };
-  overallScore: number;
-  overallLevel: string;
-  summary: string;
-  stats: {
-    wordCount: number;
-    sentenceCount: number;
-    avgSentenceLength: number;
-    uniqueWords: number;
-  };
-  strengths: string[];
-  improvements: string[];
-  grammarFocus: string[];
-  // 逐句详细分析
-  sentenceAnalysis: Array<{
-    original: string;
-    isCorrect: boolean;
-    issues: Array<{
-      errorText: string;
-      errorType: string;
-      reason: string;
-      correction: string;
-      explanation: string;
-    }>;
-    naturalExpression: string;
-    thinkingTips?: string;
-  }>;
-  optimized: string;
-  upgradedVersion: string;
-  patterns: Array<{
-    pattern: string;
-    explanation: string;
-    example: string;
-  }>;
-  flashcards: Array<{
-    term: string;
-    phonetic: string;
-    translation: string;
-    definition: string;
-    example: string;
-    nativeUsage: string;
-  }>;
-}> {
+export async function analyzeCompleteDiary(
+  text: string,
+  preferredModel: AiModelPreference = 'auto'
+): Promise<RouteResult<CompleteDiaryAnalysis>> {
   // Limit text length to prevent overly long responses
   const maxTextLength = 2000;
   const truncatedText = text.length > maxTextLength ? text.substring(0, maxTextLength) + '...' : text;
@@ -196,107 +130,36 @@ CRITICAL REQUIREMENTS:
 9. Return VALID JSON only - no markdown, no extra text
 `;
 
-  if (!doubao && !gemini && !openai) {
-    throw new Error('No AI provider configured. Please set at least one of: NEXT_PUBLIC_GEMINI_API_KEY, NEXT_PUBLIC_OPENAI_API_KEY, or Doubao env vars.');
-  }
-
-  let lastError: any = null;
+  ensureProviderAvailable();
 
-  // Try Doubao (priority 1)
-  if ((AI_PROVIDER === 'doubao' || AI_PROVIDER === 'auto') && doubao) {
-    try {
-      console.log('🔥 Analyzing complete diary with Doubao...');
-      let responseText: string | undefined;
-      
-      const response = await doubao.chat(
-        [
-          { role: 'system', content: 'You are an English writing coach. Return ONLY valid JSON. Keep all responses concise. Maximum 3000 tokens total.' },
-          { role: 'user', content: prompt },
-        ],
-        {
-          maxTokens: 3000, // Limit to prevent truncation
-          temperature: 0.2, // Lower temperature for more consistent JSON
-        }
-      );
-      
-      responseText = response.choices[0]?.message?.content;
-      if (!responseText) throw new Error('Empty response');
-      
-      console.log('📝 Doubao response length:', responseText.length);
-      const parsed = DoubaoProvider.parseJSONResponse(responseText);
-      console.log('✅ Doubao JSON parsed successfully');
-      console.log('📊 Parsed data keys:', Object.keys(parsed));
-      console.log('📊 Has dimensions:', !!parsed.dimensions);
-      console.log('📊 Has sentenceAnalysis:', !!parsed.sentenceAnalysis);
-      return parsed;
-    } catch (error: any) {
-      lastError = error;
-      console.warn('❌ Doubao analysis failed:', error.message);
-    }
-  }
-
-  // Try Gemini (priority 2)
-  if ((AI_PROVIDER === 'gemini' || AI_PROVIDER === 'auto') && gemini) {
-    try {
-      console.log('🔄 Trying Gemini...');
-      const model = gemini.getGenerativeModel({
-        model: 'gemini-2.5-flash',
-        generationConfig: { 
-          responseMimeType: 'application/json',
-          maxOutputTokens: 4000,
-          temperature: 0.3,
-        },
-      });
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
-      const parsed = JSON.parse(responseText);
-      console.log('✅ Gemini JSON parsed successfully');
-      console.log('📊 Parsed data keys:', Object.keys(parsed));
-      return parsed;
-    } catch (error: any) {
-      lastError = error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403') || error.message?.includes('quota') || error.message?.includes('429')) {
-        console.log('ℹ️ Gemini skipped (API key or quota issue)');
-      } else {
-        console.warn('❌ Gemini analysis failed:', error.message);
+  try {
+    const result = await routeJSON(
+      [
+        { role: 'system', content: 'You are an English writing coach. Return ONLY valid JSON. Keep all responses concise. Maximum 3000 tokens total.' },
+        { role: 'user', content: prompt },
+      ],
+      {
+        label: 'Diary Analysis',
+        preference: preferredModel,
+        schema: completeDiaryAnalysisSchema,
+        maxTokens: 3000, // Limit to prevent truncation
+        temperature: 0.2, // Lower temperature for more consistent JSON
       }
-    }
-  }
-
-  // Try OpenAI (priority 3 - fallback)
-  if ((AI_PROVIDER === 'openai' || AI_PROVIDER === 'auto') && openai) {
-    try {
-      console.log('🔄 Trying OpenAI...');
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'You are an English learning assistant. Return ONLY valid JSON, no markdown.' },
-          { role: 'user', content: prompt },
-        ],
-        response_format: { type: 'json_object' },
-        max_tokens: 4000,
-        temperature: 0.3,
-      });
-      const responseText = response.choices[0]?.message?.content;
-      if (!responseText) throw new Error('Empty response');
-      console.log('✅ OpenAI analysis successful');
-      return JSON.parse(responseText);
-    } catch (error: any) {
-      lastError = error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ OpenAI skipped (API key issue)');
-      } else {
-        console.warn('❌ OpenAI analysis failed:', error.message);
+    );
+    console.log('📊 Parsed data keys:', Object.keys(result.data));
+    return result;
+  } catch (error: any) {
+    // Provide user-friendly error message
+    const errorMessage = error?.message || 'All AI providers failed';
+    if (errorMessage.includes('JSON') || errorMessage.includes('incomplete')) {
+      const truncated = 'The diary entry is too long and the response was truncated. Please try with a shorter entry (under 2000 characters) or split it into multiple entries.';
+      if (error instanceof AIOutputValidationError) {
+        throw new AIOutputValidationError(error.schemaName, error.issues, truncated);
       }
+      throw new Error(truncated);
     }
+    throw error;
   }
-
-  // Provide user-friendly error message
-  const errorMessage = lastError?.message || 'All AI providers failed';
-  if (errorMessage.includes('JSON') || errorMessage.includes('incomplete')) {
-    throw new Error('The diary entry is too long and the response was truncated. Please try with a shorter entry (under 2000 characters) or split it into multiple entries.');
-  }
-  throw new Error(errorMessage);
 }
 
 // Keep legacy functions for backward compatibility if needed
@@ -305,8 +168,9 @@ CRITICAL REQUIREMENTS:
  */
 export async function generateDiaryOutline(
   topic: string,
-  level: string
-): Promise<{ keywords: string[]; events: string[]; details: string[] }> {
+  level: string,
+  preferredModel: AiModelPreference = 'auto'
+): Promise<RouteResult<{ keywords: string[]; events: string[]; details: string[] }>> {
   const prompt = `
 You are an English learning diary assistant. The user wants to write about: "${topic}"
 Their English level is: ${level}
@@ -325,78 +189,18 @@ Return JSON:
 }
 `;
 
-  let lastError: any = null;
-
-  // Try Doubao (priority 1)
-  if ((AI_PROVIDER === 'doubao' || AI_PROVIDER === 'auto') && doubao) {
-    try {
-      console.log('🔥 Generating outline with Doubao...');
-      const response = await doubao.chat([
-        { role: 'system', content: 'You are an English learning assistant. Always return valid JSON.' },
-        { role: 'user', content: prompt },
-      ], {
-        maxTokens: 2000, // Outline generation needs moderate token limit
-        temperature: 0.7,
-      });
-      const text = response.choices[0]?.message?.content;
-      if (!text) throw new Error('Empty response');
-      console.log('✅ Doubao outline generation successful');
-      return DoubaoProvider.parseJSONResponse(text);
-    } catch (error: any) {
-      lastError = error;
-      console.warn('❌ Doubao outline failed:', error.message);
-    }
-  }
-
-  // Try Gemini (priority 2)
-  if ((AI_PROVIDER === 'gemini' || AI_PROVIDER === 'auto') && gemini) {
-    try {
-      console.log('🔄 Trying Gemini...');
-      const model = gemini.getGenerativeModel({
-        model: 'gemini-2.5-flash',
-        generationConfig: { responseMimeType: 'application/json' },
-      });
-      const result = await model.generateContent(prompt);
-      const text = result.response.text();
-      console.log('✅ Gemini outline generation successful');
-      return JSON.parse(text);
-    } catch (error: any) {
-      lastError = error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ Gemini skipped (API key issue)');
-      } else {
-        console.warn('❌ Gemini outline failed:', error.message);
-      }
-    }
-  }
-
-  // Try OpenAI (priority 3 - fallback)
-  if ((AI_PROVIDER === 'openai' || AI_PROVIDER === 'auto') && openai) {
-    try {
-      console.log('🔄 Trying OpenAI...');
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'You are an English learning assistant. Always return valid JSON.' },
-          { role: 'user', content: prompt },
-        ],
-        response_format: { type: 'json_object' },
-      });
-      const text = response.choices[0]?.message?.content;
-      if (!text) throw new Error('Empty response');
-      console.log('✅ OpenAI outline generation successful');
-      return JSON.parse(text);
-    } catch (error: any) {
-      lastError = error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ OpenAI skipped (API key issue)');
-      } else {
-        console.warn('❌ OpenAI outline failed:', error.message);
-      }
+  return routeJSON(
+    [
+      { role: 'system', content: 'You are an English learning assistant. Always return valid JSON.' },
+      { role: 'user', content: prompt },
+    ],
+    {
+      label: 'Diary Outline',
+      preference: preferredModel,
+      maxTokens: 2000, // Outline generation needs moderate token limit
+      temperature: 0.7,
     }
-  }
-
-  throw new Error(lastError?.message || 'All AI providers failed');
+  );
 }
 
 /**
@@ -404,8 +208,9 @@ Return JSON:
  */
 export async function analyzeDiaryDraft(
   text: string,
-  level: string
-): Promise<{ analysis: any[]; optimized: string }> {
+  level: string,
+  preferredModel: AiModelPreference = 'auto'
+): Promise<RouteResult<{ analysis: any[]; optimized: string }>> {
   const prompt = `
 You are an English writing coach. Analyze this diary entry:
 
@@ -431,78 +236,18 @@ Return JSON:
 }
 `;
 
-  let lastError: any = null;
-
-  // Try Doubao (priority 1)
-  if ((AI_PROVIDER === 'doubao' || AI_PROVIDER === 'auto') && doubao) {
-    try {
-      console.log('🔥 Analyzing with Doubao...');
-      const response = await doubao.chat([
-        { role: 'system', content: 'You are an English writing coach. Always return valid JSON.' },
-        { role: 'user', content: prompt },
-      ], {
-        maxTokens: 3000, // Analysis needs detailed feedback
-        temperature: 0.7,
-      });
-      const responseText = response.choices[0]?.message?.content;
-      if (!responseText) throw new Error('Empty response');
-      console.log('✅ Doubao analysis successful');
-      return DoubaoProvider.parseJSONResponse(responseText);
-    } catch (error: any) {
-      lastError = error;
-      console.warn('❌ Doubao analysis failed:', error.message);
-    }
-  }
-
-  // Try Gemini (priority 2)
-  if ((AI_PROVIDER === 'gemini' || AI_PROVIDER === 'auto') && gemini) {
-    try {
-      console.log('🔄 Trying Gemini...');
-      const model = gemini.getGenerativeModel({
-        model: 'gemini-2.5-flash',
-        generationConfig: { responseMimeType: 'application/json' },
-      });
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
-      console.log('✅ Gemini analysis successful');
-      return JSON.parse(responseText);
-    } catch (error: any) {
-      lastError = error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ Gemini skipped (API key issue)');
-      } else {
-        console.warn('❌ Gemini analysis failed:', error.message);
-      }
-    }
-  }
-
-  // Try OpenAI (priority 3 - fallback)
-  if ((AI_PROVIDER === 'openai' || AI_PROVIDER === 'auto') && openai) {
-    try {
-      console.log('🔄 Trying OpenAI...');
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'You are an English writing coach. Always return valid JSON.' },
-          { role: 'user', content: prompt },
-        ],
-        response_format: { type: 'json_object' },
-      });
-      const responseText = response.choices[0]?.message?.content;
-      if (!responseText) throw new Error('Empty response');
-      console.log('✅ OpenAI analysis successful');
-      return JSON.parse(responseText);
-    } catch (error: any) {
-      lastError = error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ OpenAI skipped (API key issue)');
-      } else {
-        console.warn('❌ OpenAI analysis failed:', error.message);
-      }
+  return routeJSON(
+    [
+      { role: 'system', content: 'You are an English writing coach. Always return valid JSON.' },
+      { role: 'user', content: prompt },
+    ],
+    {
+      label: 'Diary Draft',
+      preference: preferredModel,
+      maxTokens: 3000, // Analysis needs detailed feedback
+      temperature: 0.7,
     }
-  }
-
-  throw new Error(lastError?.message || 'All AI providers failed');
+  );
 }
 
 /**
@@ -510,12 +255,13 @@ Return JSON:
  */
 export async function upgradeDiaryText(
   text: string,
-  level: string
-): Promise<{
+  level: string,
+  preferredModel: AiModelPreference = 'auto'
+): Promise<RouteResult<{
   localUpgrades: Array<{ original: string; upgraded: string; explanation: string }>;
   fullUpgrade: string;
   explanation: string;
-}> {
+}>> {
   const prompt = `
 You are an English writing upgrade assistant. Take this diary entry and enhance it by 30% difficulty:
 
@@ -541,78 +287,18 @@ Return JSON:
 }
 `;
 
-  let lastError: any = null;
-
-  // Try Doubao (priority 1)
-  if ((AI_PROVIDER === 'doubao' || AI_PROVIDER === 'auto') && doubao) {
-    try {
-      console.log('🔥 Upgrading with Doubao...');
-      const response = await doubao.chat([
-        { role: 'system', content: 'You are an English writing upgrade assistant. Always return valid JSON.' },
-        { role: 'user', content: prompt },
-      ], {
-        maxTokens: 2500, // Upgrade suggestions need moderate token limit
-        temperature: 0.7,
-      });
-      const responseText = response.choices[0]?.message?.content;
-      if (!responseText) throw new Error('Empty response');
-      console.log('✅ Doubao upgrade successful');
-      return DoubaoProvider.parseJSONResponse(responseText);
-    } catch (error: any) {
-      lastError = error;
-      console.warn('❌ Doubao upgrade failed:', error.message);
-    }
-  }
-
-  // Try Gemini (priority 2)
-  if ((AI_PROVIDER === 'gemini' || AI_PROVIDER === 'auto') && gemini) {
-    try {
-      console.log('🔄 Trying Gemini...');
-      const model = gemini.getGenerativeModel({
-        model: 'gemini-2.5-flash',
-        generationConfig: { responseMimeType: 'application/json' },
-      });
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
-      console.log('✅ Gemini upgrade successful');
-      return JSON.parse(responseText);
-    } catch (error: any) {
-      lastError = error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ Gemini skipped (API key issue)');
-      } else {
-        console.warn('❌ Gemini upgrade failed:', error.message);
-      }
-    }
-  }
-
-  // Try OpenAI (priority 3 - fallback)
-  if ((AI_PROVIDER === 'openai' || AI_PROVIDER === 'auto') && openai) {
-    try {
-      console.log('🔄 Trying OpenAI...');
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'You are an English writing upgrade assistant. Always return valid JSON.' },
-          { role: 'user', content: prompt },
-        ],
-        response_format: { type: 'json_object' },
-      });
-      const responseText = response.choices[0]?.message?.content;
-      if (!responseText) throw new Error('Empty response');
-      console.log('✅ OpenAI upgrade successful');
-      return JSON.parse(responseText);
-    } catch (error: any) {
-      lastError = error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ OpenAI skipped (API key issue)');
-      } else {
-        console.warn('❌ OpenAI upgrade failed:', error.message);
-      }
+  return routeJSON(
+    [
+      { role: 'system', content: 'You are an English writing upgrade assistant. Always return valid JSON.' },
+      { role: 'user', content: prompt },
+    ],
+    {
+      label: 'Diary Upgrade',
+      preference: preferredModel,
+      maxTokens: 2500, // Upgrade suggestions need moderate token limit
+      temperature: 0.7,
     }
-  }
-
-  throw new Error(lastError?.message || 'All AI providers failed');
+  );
 }
 
 /**
@@ -622,8 +308,9 @@ export async function generateDiaryFlashcards(
   originalText: string,
   optimizedText: string,
   upgradedText: string,
-  level: string
-): Promise<{ flashcards: any[] }> {
+  level: string,
+  preferredModel: AiModelPreference = 'auto'
+): Promise<RouteResult<{ flashcards: any[] }>> {
   const prompt = `
 You are a flashcard generator. Extract key learning points from these diary versions:
 
@@ -655,76 +342,16 @@ Return JSON:
 }
 `;
 
-  let lastError: any = null;
-
-  // Try Doubao (priority 1)
-  if ((AI_PROVIDER === 'doubao' || AI_PROVIDER === 'auto') && doubao) {
-    try {
-      console.log('🔥 Generating flashcards with Doubao...');
-      const response = await doubao.chat([
-        { role: 'system', content: 'You are a flashcard generator. Always return valid JSON.' },
-        { role: 'user', content: prompt },
-      ], {
-        maxTokens: 2000, // Flashcards need moderate token limit
-        temperature: 0.7,
-      });
-      const responseText = response.choices[0]?.message?.content;
-      if (!responseText) throw new Error('Empty response');
-      console.log('✅ Doubao flashcards generation successful');
-      return DoubaoProvider.parseJSONResponse(responseText);
-    } catch (error: any) {
-      lastError = error;
-      console.warn('❌ Doubao flashcards failed:', error.message);
-    }
-  }
-
-  // Try Gemini (priority 2)
-  if ((AI_PROVIDER === 'gemini' || AI_PROVIDER === 'auto') && gemini) {
-    try {
-      console.log('🔄 Trying Gemini...');
-      const model = gemini.getGenerativeModel({
-        model: 'gemini-2.5-flash',
-        generationConfig: { responseMimeType: 'application/json' },
-      });
-      const result = await model.generateContent(prompt);
-      const responseText = result.response.text();
-      console.log('✅ Gemini flashcards generation successful');
-      return JSON.parse(responseText);
-    } catch (error: any) {
-      lastError = error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ Gemini skipped (API key issue)');
-      } else {
-        console.warn('❌ Gemini flashcards failed:', error.message);
-      }
-    }
-  }
-
-  // Try OpenAI (priority 3 - fallback)
-  if ((AI_PROVIDER === 'openai' || AI_PROVIDER === 'auto') && openai) {
-    try {
-      console.log('🔄 Trying OpenAI...');
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'You are a flashcard generator. Always return valid JSON.' },
-          { role: 'user', content: prompt },
-        ],
-        response_format: { type: 'json_object' },
-      });
-      const responseText = response.choices[0]?.message?.content;
-      if (!responseText) throw new Error('Empty response');
-      console.log('✅ OpenAI flashcards generation successful');
-      return JSON.parse(responseText);
-    } catch (error: any) {
-      lastError = error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ OpenAI skipped (API key issue)');
-      } else {
-        console.warn('❌ OpenAI flashcards failed:', error.message);
-      }
+  return routeJSON(
+    [
+      { role: 'system', content: 'You are a flashcard generator. Always return valid JSON.' },
+      { role: 'user', content: prompt },
+    ],
+    {
+      label: 'Diary Flashcards',
+      preference: preferredModel,
+      maxTokens: 2000, // Flashcards need moderate token limit
+      temperature: 0.7,
     }
-  }
-
-  throw new Error(lastError?.message || 'All AI providers failed');
+  );
 }
@@ -133,6 +133,76 @@ export class DoubaoProvider {
     throw lastError || new Error('Doubao API call failed after retries');
   }
 
+  /**
+   * Streaming chat completion (OpenAI-compatible SSE). Yields content deltas.
+   * No retry: once tokens have been handed out a retry would duplicate them.
+   */
+  async *chatStream(
+    messages: DoubaoMessage[],
+    options?: {
+      temperature?: number;
+      maxTokens?: number;
+    }
+  ): AsyncGenerator<string> {
+    const payload = {
+      model: this.model,
+      messages: messages.map((msg) => ({
+        role: msg.role,
+        content: msg.content,
+      })),
+      temperature: options?.temperature ?? 0.7,
+      max_tokens: options?.maxTokens,
+      stream: true,
+    };
+
+    console.log('🔥 Doubao API Stream Request:', {
+      url: this.endpoint,
+      model: this.model,
+      messageCount: messages.length,
+    });
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      throw new Error(
+        `Doubao API error (${response.status} ${response.statusText}): ${errorText}`
+      );
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const data = trimmed.slice(5).trim();
+        if (data === '[DONE]') return;
+        try {
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (delta) yield delta as string;
+        } catch {
+          // Ignore keep-alive or partial lines
+        }
+      }
+    }
+  }
+
   /**
    * Vision: chat with image (VisualQuestionAnswering).
    * Uses vision model and content array with image_url + text. Supports data URL for base64.
@@ -0,0 +1,64 @@
+/**
+ * Incremental extraction of one string field from a JSON object that is still being
+ * streamed, e.g. `next_response` from a dialogue reply, so it can be shown token by token.
+ */
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Returns a function that takes the next raw chunk and returns the newly decoded
+ * characters of `field`'s value ('' until the field starts and after it ends).
+ */
+export function createJSONFieldStreamer(field: string): (chunk: string) => string {
+  const keyPattern = new RegExp(`"${field}"\\s*:\\s*"`);
+  let buffer = '';
+  let pos = -1; // Index in buffer of the next undecoded value character; -1 = key not found yet
+  let finished = false;
+
+  return (chunk: string) => {
+    if (finished) return '';
+    buffer += chunk;
+
+    if (pos < 0) {
+      const match = keyPattern.exec(buffer);
+      if (!match) return '';
+      pos = match.index + match[0].length;
+    }
+
+    let out = '';
+    while (pos < buffer.length) {
+      const ch = buffer[pos];
+      if (ch === '"') {
+        finished = true;
+        break;
+      }
+      if (ch !== '\\') {
+        out += ch;
+        pos += 1;
+        continue;
+      }
+      // Escape sequence: wait for the rest of it if it is split across chunks
+      const next = buffer[pos + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = buffer.slice(pos + 2, pos + 6);
+        if (hex.length < 4) break;
+        out += String.fromCharCode(parseInt(hex, 16));
+        pos += 6;
+        continue;
+      }
+      out += SIMPLE_ESCAPES[next] ?? next;
+      pos += 2;
+    }
+    return out;
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Ephemeral Gemini Live tokens – the browser connects to the Live API with a short-lived,
+ * single-use token minted here, so the Gemini key never leaves the server.
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import type { LiveToken } from '@/lib/types';
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+
+/** Live sessions each user may start per day (in-memory, per server instance). */
+const SESSIONS_PER_DAY = Number(process.env.LIVE_SESSIONS_PER_DAY) || 20;
+const QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+/** A token must open its session within this window… */
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+/** …and the session is cut off after this long. */
+const SESSION_MAX_MS = 30 * 60 * 1000;
+
+const geminiKey = process.env.GEMINI_API_KEY || '';
+// Ephemeral tokens are only served by the v1alpha API
+const genai = geminiKey ? new GoogleGenAI({ apiKey: geminiKey, httpOptions: { apiVersion: 'v1alpha' } }) : null;
+
+const quotaWindows = new Map<string, { startedAt: number; count: number }>();
+
+export class LiveQuotaError extends Error {
+  readonly retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super(`You've used today's ${SESSIONS_PER_DAY} live calls. Try again tomorrow or keep practising by text.`);
+    this.name = 'LiveQuotaError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export function isLiveAvailable(): boolean {
+  return !!genai;
+}
+
+/** Reserves a slot in the user's quota before minting, so parallel requests cannot overshoot it; a failed mint gives it back. */
+export async function createLiveToken(userId: string): Promise<LiveToken> {
+  if (!genai) throw new Error('Live calls are not configured on this server.');
+
+  const now = Date.now();
+  let quota = quotaWindows.get(userId);
+  if (!quota || now - quota.startedAt >= QUOTA_WINDOW_MS) {
+    quota = { startedAt: now, count: 0 };
+    quotaWindows.set(userId, quota);
+  }
+  if (quota.count >= SESSIONS_PER_DAY) {
+    throw new LiveQuotaError(Math.ceil((quota.startedAt + QUOTA_WINDOW_MS - now) / 1000));
+  }
+  quota.count += 1;
+
+  const expiresAt = new Date(now + SESSION_MAX_MS).toISOString();
+  let tokenName: string;
+  try {
+    const token = await genai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime: expiresAt,
+        newSessionExpireTime: new Date(now + NEW_SESSION_WINDOW_MS).toISOString(),
+        liveConnectConstraints: { model: LIVE_MODEL },
+      },
+    });
+    if (!token.name) throw new Error('Failed to create a live session token.');
+    tokenName = token.name;
+  } catch (error) {
+    quota.count -= 1;
+    throw error;
+  }
+
+  console.log(`🎟️ Live token issued (${quota.count}/${SESSIONS_PER_DAY} today for this user)`);
+  return { token: tokenName, model: LIVE_MODEL, expiresAt, remaining: SESSIONS_PER_DAY - quota.count };
+}
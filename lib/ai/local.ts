@@ -0,0 +1,513 @@
+/**
+ * Local AI Provider (offline stand-in)
+ * Deterministic, rule-based answers so the UI and API routes can be exercised without
+ * API keys or network. Enable with NEXT_PUBLIC_AI_PROVIDER=local (use it for everything)
+ * or AI_LOCAL_PROVIDER=true (last resort after the real providers).
+ *
+ * The router passes its call label ('Dialogue', 'Scene', 'Diary Analysis', ...) so the
+ * provider knows which response shape to produce.
+ */
+
+import type {
+  AnalyzeImageResponse,
+  CompleteDiaryAnalysis,
+  DialogueResponse,
+  DialogueReportAnalysis,
+  DialogueTurnScore,
+  DiaryProcessResult,
+  ShadowAcousticMetrics,
+  ShadowAnalysisResult,
+  ShadowWordAnalysis,
+  SpeechPace,
+} from '@/lib/types';
+
+export interface LocalMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const SAMPLE_RATE = 24000;
+const STREAM_CHUNK_DELAY_MS = 15;
+const DIALOGUE_TURNS_TO_FINISH = 4;
+
+const SCENES: AnalyzeImageResponse[] = [
+  {
+    location: 'Corner Café',
+    situation: 'Ordering a drink at a busy neighborhood café',
+    difficulty: 'A2',
+    role_name: 'Barista',
+    context: 'You are a friendly barista. Greet the customer, take their order and suggest a pastry.',
+    goals: ['Order a drink', 'Choose a size', 'Pay for the order'],
+    completion_phrase: 'Here is your drink, enjoy!',
+    first_line: 'Hi there! What can I get started for you today?',
+    user_hints: ["I'd like a latte, please.", 'What do you recommend?', 'Do you have oat milk?'],
+  },
+  {
+    location: 'Train Station',
+    situation: 'Buying a ticket and asking about the platform',
+    difficulty: 'B1',
+    role_name: 'Ticket Agent',
+    context: 'You are a helpful ticket agent. Wait for the traveler to ask, then help them buy a ticket.',
+    goals: ['Ask about the next train', 'Buy a ticket', 'Find the platform'],
+    completion_phrase: 'Have a safe trip!',
+    first_line: 'Good morning! Where are you heading today?',
+    user_hints: ['When is the next train to the city?', 'One return ticket, please.', 'Which platform is it?'],
+  },
+  {
+    location: 'Bookstore',
+    situation: 'Looking for a book recommendation',
+    difficulty: 'B1',
+    role_name: 'Bookseller',
+    context: 'You are a bookseller who loves recommending novels. Ask about their taste and suggest a book.',
+    goals: ['Describe what you like to read', 'Ask for a recommendation', 'Decide whether to buy it'],
+    completion_phrase: "I think you'll love it!",
+    first_line: 'Hello! Are you looking for anything in particular?',
+    user_hints: ['I like mystery novels.', 'Can you recommend something?', 'How much is this one?'],
+  },
+];
+
+const DIALOGUE_REPLIES = [
+  'That sounds great! Could you tell me a little more about what you need?',
+  'Sure, I can help with that. Is there anything else you would like?',
+  'Perfect. Let me take care of that for you right away.',
+  "Wonderful, you're all set. Thanks so much and have a great day!",
+];
+
+const PASSAGES: Record<string, { topic: string; text: string }[]> = {
+  Beginner: [
+    {
+      topic: 'Morning walk',
+      text: 'I walk my dog every morning. The park is quiet and green. We both feel happy after our walk.',
+    },
+    {
+      topic: 'Grocery list',
+      text: 'I need milk, eggs and bread. The store is close to my home. I always bring my own bag.',
+    },
+  ],
+  Intermediate: [
+    {
+      topic: 'Remote work day',
+      text: 'I start work at nine with a cup of coffee. My team meets on a video call every morning. After lunch I usually take a short walk to clear my head.',
+    },
+    {
+      topic: 'Weekend brunch',
+      text: 'On Sundays we meet friends for a late brunch. The café by the river always has a long line. It is worth the wait for their pancakes.',
+    },
+  ],
+  Advanced: [
+    {
+      topic: 'Learning a new skill',
+      text: 'Picking up the piano as an adult has been humbling, to say the least. Progress comes in fits and starts rather than a steady climb. Still, the small breakthroughs make every frustrating session worthwhile.',
+    },
+    {
+      topic: 'City versus countryside',
+      text: 'Living in the city offers convenience at the cost of constant noise. Friends who moved to the countryside rave about the slower pace of life. I suspect the grass is always greener on the other side.',
+    },
+  ],
+};
+
+/** FNV-1a: a stable seed so the same input always produces the same answer. */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function pick<T>(list: T[], seed: number): T {
+  return list[seed % list.length];
+}
+
+/** First "quoted" value that ends a line — where every prompt puts the learner's text. */
+function firstQuoted(prompt: string): string {
+  const match = prompt.match(/"([\s\S]*?)"\s*(?:\n|$)/);
+  return match?.[1]?.trim() ?? '';
+}
+
+function lastUserMessage(messages: LocalMessage[]): string {
+  return [...messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+}
+
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?]+[.!?]*/g) ?? []).map((s) => s.trim()).filter(Boolean);
+}
+
+/** Acoustic metrics come from the client body: missing or non-numeric values read as 0. */
+function metricNumber(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function words(text: string): string[] {
+  return text.match(/[A-Za-z']+/g) ?? [];
+}
+
+/** The only "grammar" rules the stand-in knows: capital letters, a lone "i", end punctuation. */
+function correctSentence(sentence: string): string {
+  let fixed = sentence.trim().replace(/\bi\b/g, 'I');
+  if (!fixed) return fixed;
+  fixed = fixed[0].toUpperCase() + fixed.slice(1);
+  if (!/[.!?]$/.test(fixed)) fixed += '.';
+  return fixed;
+}
+
+function correctText(text: string): string {
+  return splitSentences(text).map(correctSentence).join(' ');
+}
+
+function scoreText(text: string): number {
+  const count = words(text).length;
+  let score = 50 + Math.min(30, count * 3);
+  if (text.trim() !== correctText(text)) score -= 15;
+  return Math.max(0, Math.min(100, score));
+}
+
+function grammarNote(text: string): string {
+  const notes: string[] = [];
+  if (/\bi\b/.test(text)) notes.push('Always write the pronoun "I" with a capital letter.');
+  if (/^[a-z]/.test(text.trim())) notes.push('Start each sentence with a capital letter.');
+  if (!/[.!?]\s*$/.test(text)) notes.push('End the sentence with punctuation.');
+  return notes.join(' ');
+}
+
+function flashcardFor(term: string) {
+  return {
+    term,
+    phonetic: '',
+    translation: `（本地）${term}`,
+    definition: `Offline placeholder definition for "${term}".`,
+    example: `I used "${term}" in a sentence today.`,
+    native_usage: `Native speakers often use "${term}" in everyday conversation.`,
+  };
+}
+
+function keywords(text: string, count: number): string[] {
+  const seen = new Set<string>();
+  for (const w of words(text)) {
+    const lower = w.toLowerCase();
+    if (lower.length > 4) seen.add(lower);
+    if (seen.size >= count) break;
+  }
+  return Array.from(seen);
+}
+
+export class LocalProvider {
+  /** Chat completion: returns the reply text (JSON for JSON tasks). */
+  async chat(messages: LocalMessage[], options: { label?: string } = {}): Promise<string> {
+    const reply = this.respond(options.label ?? '', messages);
+    return typeof reply === 'string' ? reply : JSON.stringify(reply);
+  }
+
+  /** Same reply as chat(), delivered in small word chunks to exercise streaming UIs. */
+  async *chatStream(messages: LocalMessage[], options: { label?: string } = {}): AsyncGenerator<string> {
+    const text = await this.chat(messages, options);
+    const chunks = text.match(/\S+\s*|\s+/g) ?? [text];
+    for (const chunk of chunks) {
+      await new Promise((resolve) => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+      yield chunk;
+    }
+  }
+
+  /** Vision: the image only seeds which fixture scene is returned. */
+  async chatWithImage(prompt: string, imageBase64: string): Promise<string> {
+    return JSON.stringify(pick(SCENES, hash(imageBase64.slice(-256))));
+  }
+
+  async transcribe(): Promise<string> {
+    return "I'd like to practice ordering coffee at a café.";
+  }
+
+  /**
+   * Rule-based shadow scoring: every word gets a stable status seeded by the recording.
+   * Fluency and intonation quote the client's acoustic metrics when they are sent.
+   */
+  analyzeShadowReading(
+    referenceText: string,
+    userAudioBase64: string,
+    metrics?: ShadowAcousticMetrics
+  ): ShadowAnalysisResult {
+    const seed = hash(userAudioBase64.slice(0, 512));
+    const analyzed: ShadowWordAnalysis[] = words(referenceText).map((word, i) => {
+      const roll = hash(`${word}:${i}:${seed}`) % 10;
+      const status = roll < 7 ? 'good' : roll < 9 ? 'average' : 'poor';
+      return {
+        word,
+        status,
+        issue: status === 'good' ? undefined : `Stress and vowel length in "${word}" need work.`,
+      };
+    });
+    const points = analyzed.reduce(
+      (sum, w) => sum + (w.status === 'good' ? 100 : w.status === 'average' ? 65 : 30),
+      0
+    );
+    const score = analyzed.length ? Math.round(points / analyzed.length) : 0;
+    const weak = analyzed.filter((w) => w.status !== 'good').map((w) => w.word);
+
+    return {
+      score,
+      fluency:
+        (score >= 80 ? 'Smooth and steady.' : 'Some hesitation between phrases.') +
+        (metrics
+          ? ` You spoke for ${metricNumber(metrics.user?.speechDuration)}s vs ${metricNumber(metrics.reference?.speechDuration)}s in the reference, with ${Array.isArray(metrics.user?.pauses) ? metrics.user.pauses.length : 0} pauses.`
+          : ''),
+      words: analyzed,
+      pronunciation: {
+        strengths: ['Clear consonants', 'Good overall pace'],
+        weaknesses: weak.length ? [`Practice: ${weak.slice(0, 5).join(', ')}`] : [],
+      },
+      intonation:
+        'Try to let your pitch fall at the end of each statement.' +
+        (metrics
+          ? ` Your pitch range was ${metricNumber(metrics.user?.pitchRangeSemitones)} semitones (reference ${metricNumber(metrics.reference?.pitchRangeSemitones)}).`
+          : ''),
+      suggestions: 'Shadow the reference one sentence at a time, then the whole passage.',
+    };
+  }
+
+  /**
+   * Speech stand-in: one soft tone per word (16-bit mono PCM at 24 kHz), stretched for the pace.
+   * Wrap with addWavHeader() to get a playable WAV.
+   */
+  synthesizeSpeech(text: string, pace: SpeechPace = 'normal'): Uint8Array {
+    const stretch = pace === 'slow' ? 1.4 : pace === 'fast' ? 0.75 : 1;
+    const toneSamples = Math.round(SAMPLE_RATE * 0.22 * stretch);
+    const gapSamples = Math.round(SAMPLE_RATE * 0.08 * stretch);
+    const tokens = words(text).slice(0, 120);
+    const pcm = new Int16Array(Math.max(1, tokens.length) * (toneSamples + gapSamples));
+
+    tokens.forEach((word, i) => {
+      const freq = 180 + (hash(word.toLowerCase()) % 140);
+      const offset = i * (toneSamples + gapSamples);
+      for (let n = 0; n < toneSamples; n++) {
+        const envelope = Math.sin((Math.PI * n) / toneSamples); // fade in/out, no clicks
+        pcm[offset + n] = Math.round(Math.sin((2 * Math.PI * freq * n) / SAMPLE_RATE) * envelope * 8000);
+      }
+    });
+
+    return new Uint8Array(pcm.buffer);
+  }
+
+  private respond(label: string, messages: LocalMessage[]): unknown {
+    const prompt = lastUserMessage(messages);
+    const quoted = firstQuoted(prompt);
+
+    switch (label) {
+      case 'Scene':
+      case 'Audio Scene':
+        return pick(SCENES, hash(prompt));
+      case 'Dialogue':
+        return this.dialogue(messages);
+      case 'Dialogue Score':
+        return this.dialogueScore(prompt);
+      case 'Dialogue Report':
+        return this.dialogueReport(prompt);
+      case 'Scenario Adapt': {
+        const target = prompt.match(/^Target difficulty: (\S+)/m)?.[1] ?? 'B1';
+        return /^Direction: harder$/m.test(prompt)
+          ? {
+              difficulty: target,
+              first_line: "Hi there! I'm afraid we've just run out of what most people order. What can I get you instead?",
+              user_hints: ["Oh no, what would you recommend?", 'Do you have anything similar?', "That's a shame. I'll try something else."],
+              role_behavior: 'Speak at natural speed and use everyday idioms. Tell the learner their first choice is out of stock and let them find an alternative.',
+            }
+          : {
+              difficulty: target,
+              first_line: 'Hello! Welcome. What would you like?',
+              user_hints: ['Hello! I would like a coffee, please.', 'Can you help me, please?', 'What do you have?'],
+              role_behavior: 'Speak slowly with short, simple sentences. Offer two choices at a time and check the learner understands.',
+            };
+      }
+      case 'Translate':
+        return `（本地翻译）${quoted}`;
+      case 'Optimize':
+        return correctText(quoted);
+      case 'Flashcard': {
+        const { term: _term, ...card } = flashcardFor(quoted);
+        return card;
+      }
+      case 'Diary Analysis':
+        return this.diaryAnalysis(quoted);
+      case 'Diary Outline':
+        return {
+          keywords: [quoted, 'feelings', 'people', 'place', 'moment'],
+          events: ['What happened first?', 'What happened next?', 'How did it end?'],
+          details: ['How did you feel?', 'What did you see or hear?', 'What will you remember?'],
+        };
+      case 'Diary Draft':
+        return {
+          analysis: splitSentences(quoted)
+            .filter((s) => correctSentence(s) !== s)
+            .map((s) => ({ original: s, suggestion: correctSentence(s), reason: grammarNote(s) })),
+          optimized: correctText(quoted),
+        };
+      case 'Diary Upgrade':
+        return {
+          localUpgrades: splitSentences(quoted).slice(0, 3).map((s) => ({
+            original: s,
+            upgraded: `Honestly, ${correctSentence(s).replace(/^./, (c) => c.toLowerCase())}`,
+            explanation: 'An opening adverb makes the sentence sound more natural.',
+          })),
+          fullUpgrade: correctText(quoted),
+          explanation: 'Offline upgrade: capitalization and punctuation were fixed.',
+        };
+      case 'Diary Flashcards':
+        return {
+          flashcards: keywords(quoted, 3).map((term) => {
+            const { native_usage, definition, ...card } = flashcardFor(term);
+            return { ...card, type: 'vocabulary', level: 'intermediate', notes: definition, nativeUsage: native_usage };
+          }),
+        };
+      case 'Diary Process':
+        return this.diaryProcess(quoted);
+      case 'Shadow Challenge': {
+        const focus = prompt.match(/Focus words: (.+)/)?.[1]?.split(',').map((w) => w.trim()).filter(Boolean);
+        if (focus?.length) {
+          return {
+            topic: 'Problem words',
+            text: `Today I practiced the words ${focus.join(', ')}. I said each one slowly, then at a natural pace. Now "${focus[0]}" feels much easier to say.`,
+          };
+        }
+        const level = prompt.match(/Target: (Beginner|Intermediate|Advanced)/)?.[1] ?? 'Intermediate';
+        return pick(PASSAGES[level], hash(prompt));
+      }
+      default:
+        return { text: correctText(quoted || prompt) };
+    }
+  }
+
+  private dialogue(messages: LocalMessage[]): DialogueResponse {
+    const userText = lastUserMessage(messages);
+    const turn = messages.filter((m) => m.role === 'user').length;
+    const system = messages.find((m) => m.role === 'system')?.content ?? '';
+
+    return {
+      next_response: DIALOGUE_REPLIES[Math.min(turn - 1, DIALOGUE_REPLIES.length - 1)],
+      ...this.dialogueTurn(userText, turn, system),
+      next_hints: ['Could you tell me more?', 'That sounds good, thanks.', 'How much is it?'],
+      is_finished: turn >= DIALOGUE_TURNS_TO_FINISH,
+    };
+  }
+
+  /** Live turns arrive as one prompt: the transcript so far, then the quoted latest turn. */
+  private dialogueScore(prompt: string): DialogueTurnScore {
+    const userText = prompt.match(/LATEST TURN[^\n]*\n"(.*)"$/m)?.[1] ?? '';
+    const turn = (prompt.match(/^Student: /gm)?.length ?? 0) + 1;
+    return this.dialogueTurn(userText, turn, prompt);
+  }
+
+  private dialogueTurn(userText: string, turn: number, prompt: string): DialogueTurnScore {
+    const grammar = grammarNote(userText);
+
+    // Goals listed as "1. [status] Goal" in the prompt; one more is reached every few turns
+    const goalTexts = Array.from(prompt.matchAll(/^\d+\. \[\w+\] (.+)$/gm), (m) => m[1]);
+    const reached = Math.floor((turn * goalTexts.length) / DIALOGUE_TURNS_TO_FINISH);
+    const goals = goalTexts.map((goal, i) =>
+      i < reached
+        ? { goal, status: 'achieved' as const, evidence: userText }
+        : { goal, status: i === reached ? ('in_progress' as const) : ('not_started' as const) }
+    );
+
+    return {
+      feedback: {
+        score: scoreText(userText),
+        comment: grammar ? 'Good effort! A couple of small fixes below.' : 'Nice and clear!',
+        grammar,
+        native_expression: correctText(userText),
+      },
+      goals,
+    };
+  }
+
+  private dialogueReport(prompt: string): DialogueReportAnalysis {
+    const turns = Array.from(prompt.matchAll(/^Turn \d+: "(.*)"$/gm), (m) => m[1]);
+    const scenario = prompt.match(/^Scenario: (.+)$/m)?.[1] ?? '';
+    const target = Array.from(new Set(words(scenario).map((w) => w.toLowerCase()).filter((w) => w.length >= 5))).slice(0, 8);
+
+    return {
+      summary: `You finished the conversation in ${turns.length} turns. Keep practising to make your replies even more natural.`,
+      grammar_errors: turns
+        .filter((t) => grammarNote(t))
+        .map((t) => ({ type: 'Capitalization & punctuation', original: t, correction: correctText(t) })),
+      target_vocabulary: target,
+    };
+  }
+
+  private diaryAnalysis(text: string): CompleteDiaryAnalysis {
+    const sentences = splitSentences(text);
+    const allWords = words(text);
+    const score = scoreText(text);
+    const dimension = (comment: string) => ({ score, comment });
+
+    return {
+      dimensions: {
+        contentExpression: dimension('Your ideas come across clearly.'),
+        grammarAccuracy: dimension(grammarNote(text) || 'No basic errors found.'),
+        vocabularyNaturalness: dimension('Try adding a few more specific words.'),
+        englishThinking: dimension('Sentences follow a natural English order.'),
+      },
+      overallScore: score,
+      overallLevel: score >= 80 ? 'B2' : score >= 60 ? 'B1' : 'A2',
+      summary: 'Offline analysis: basic capitalization and punctuation checks only.',
+      stats: {
+        wordCount: allWords.length,
+        sentenceCount: sentences.length,
+        avgSentenceLength: sentences.length ? Math.round(allWords.length / sentences.length) : 0,
+        uniqueWords: new Set(allWords.map((w) => w.toLowerCase())).size,
+      },
+      strengths: ['Clear topic', 'Personal voice'],
+      improvements: ['Vary sentence openings', 'Add sensory details'],
+      grammarFocus: ['Capitalization', 'Sentence punctuation'],
+      sentenceAnalysis: sentences.map((original) => {
+        const corrected = correctSentence(original);
+        const isCorrect = corrected === original;
+        return {
+          original,
+          isCorrect,
+          issues: isCorrect
+            ? []
+            : [
+                {
+                  errorText: original,
+                  errorType: 'Mechanics',
+                  reason: grammarNote(original),
+                  correction: corrected,
+                  explanation: 'Capital letters and end punctuation mark sentence boundaries.',
+                },
+              ],
+          naturalExpression: corrected,
+        };
+      }),
+      optimized: correctText(text) || text,
+      upgradedVersion: correctText(text) || text,
+      patterns: [
+        {
+          pattern: 'Not only [A], but also [B]',
+          explanation: 'Adds a second point with emphasis',
+          example: 'Not only was it sunny, but it was also warm.',
+        },
+      ],
+      flashcards: keywords(text, 3).map((term) => {
+        const { native_usage, ...card } = flashcardFor(term);
+        return { ...card, nativeUsage: native_usage };
+      }),
+    };
+  }
+
+  private diaryProcess(text: string): DiaryProcessResult {
+    const corrected = correctText(text);
+    return {
+      semantic_summary: corrected,
+      rewrites: [corrected, `To be honest, ${corrected}`, `What a day! ${corrected}`],
+      extracted_patterns: [
+        {
+          pattern: 'Despite [X], I still [Y]',
+          explanation: 'Shows contrast',
+          example: 'Despite being tired, I still finished my work.',
+          tags: ['contrast'],
+        },
+      ],
+      flashcards: keywords(text, 3).map(flashcardFor),
+    };
+  }
+}
@@ -0,0 +1,697 @@
+/**
+ * AI Provider Router
+ * Single place that owns the Doubao / OpenAI / Gemini clients and the fallback chain.
+ * Services describe *what* they need (chat, vision, JSON, transcription); the router
+ * decides *who* answers: ordered fallback, per-provider timeouts and a circuit breaker
+ * that skips a provider for a while after repeated failures.
+ * The deterministic LocalProvider (lib/ai/local.ts) can join the chain for offline work.
+ */
+
+import { DoubaoProvider } from './doubao';
+import { LocalProvider } from './local';
+import { AIOutputValidationError, parseStructured, type Schema } from './schemas';
+import OpenAI from 'openai';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GoogleGenAI } from '@google/genai';
+import type { AiModelPreference, AiProvider } from '@/lib/types';
+
+// Routes narrow the user's choice with it; it lives with the constants so client code can share it
+export { parseModelPreference } from '@/lib/constants/models';
+
+export type ProviderName = AiProvider;
+export type Capability = 'chat' | 'vision' | 'transcription';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface RouteOptions {
+  /** Log label, e.g. 'Dialogue' → "🔄 [Dialogue] Trying Gemini..." */
+  label?: string;
+  /** Explicit provider order for this call; defaults to the capability order. */
+  order?: ProviderName[];
+  /**
+   * Per-request user preference ('auto' = no preference). The preferred provider is
+   * tried first and overrides NEXT_PUBLIC_AI_PROVIDER; the rest of the order stays as fallback.
+   */
+  preference?: AiModelPreference;
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask the provider for a JSON object (response_format / responseMimeType). */
+  json?: boolean;
+  /** Overrides the per-provider default timeout. */
+  timeoutMs?: number;
+  /** Per-provider model overrides, e.g. { gemini: 'gemini-3-flash-preview' }. */
+  models?: Partial<Record<ProviderName, string>>;
+  /** Aborted when the caller goes away (e.g. the client closed the stream): stop without falling back. */
+  signal?: AbortSignal;
+}
+
+export interface JSONRouteOptions<T> extends RouteOptions {
+  /** Validate the parsed reply; a mismatch triggers a repair turn, then the next provider. */
+  schema?: Schema<T>;
+}
+
+export interface RouteResult<T> {
+  data: T;
+  provider: ProviderName;
+}
+
+/** Error message when no AI provider is configured (map to 503 in API routes). */
+export const NO_AI_PROVIDER_MESSAGE = 'No AI provider configured. Please set at least one of: GEMINI_API_KEY, NEXT_PUBLIC_OPENAI_API_KEY, or Doubao env vars (AI_LOCAL_PROVIDER=true for offline development).';
+
+/** Prefix of the error thrown when every provider in the chain failed (map to 503). */
+export const ALL_PROVIDERS_FAILED_MESSAGE = 'All AI providers failed';
+
+// ---------------------------------------------------------------------------
+// Clients
+// ---------------------------------------------------------------------------
+
+const doubaoConfig = {
+  apiKey: process.env.NEXT_DOUBAO_API_KEY || '',
+  endpoint: process.env.NEXT_DOUBAO_CHAT_ENDPOINT || '',
+  model: process.env.NEXT_DOUBAO_CHAT_MODEL || '',
+  visionModel:
+    process.env.NEXT_DOUBAO_VISION_MODEL || process.env.NEXT_DOUBAO_CHAT_MODEL || '',
+};
+
+const doubao =
+  doubaoConfig.apiKey && doubaoConfig.endpoint && doubaoConfig.model
+    ? new DoubaoProvider({
+        ...doubaoConfig,
+        visionModel: doubaoConfig.visionModel || doubaoConfig.model,
+      })
+    : null;
+
+const openaiKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY || '';
+const openai = openaiKey
+  ? new OpenAI({
+      apiKey: openaiKey,
+      timeout: 60000,
+      maxRetries: 2,
+    })
+  : null;
+
+const geminiKey = process.env.GEMINI_API_KEY || '';
+const gemini = geminiKey ? new GoogleGenerativeAI(geminiKey) : null;
+const genai = geminiKey ? new GoogleGenAI({ apiKey: geminiKey }) : null;
+
+const AI_PROVIDER = (process.env.NEXT_PUBLIC_AI_PROVIDER || 'auto').toLowerCase();
+
+/**
+ * Offline stand-in: NEXT_PUBLIC_AI_PROVIDER=local answers everything locally,
+ * AI_LOCAL_PROVIDER=true keeps it as the last resort after the real providers.
+ */
+const local =
+  AI_PROVIDER === 'local' || process.env.AI_LOCAL_PROVIDER === 'true' ? new LocalProvider() : null;
+
+/**
+ * Fallback order per capability when AI_PROVIDER is 'auto'.
+ * Change these to reorder providers app-wide.
+ */
+const DEFAULT_ORDER: Record<Capability, ProviderName[]> = {
+  chat: ['doubao', 'gemini', 'openai', 'local'],
+  vision: ['gemini', 'openai', 'doubao', 'local'],
+  transcription: ['openai', 'local'],
+};
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  doubao: doubaoConfig.model,
+  openai: 'gpt-4o-mini',
+  gemini: 'gemini-2.5-flash',
+  local: 'local',
+};
+
+const PROVIDER_TIMEOUT_MS: Record<ProviderName, number> = {
+  doubao: 60000,
+  openai: 60000,
+  gemini: 60000,
+  local: 5000,
+};
+
+const DISPLAY_NAME: Record<ProviderName, string> = {
+  doubao: 'Doubao',
+  openai: 'OpenAI',
+  gemini: 'Gemini',
+  local: 'Local',
+};
+
+function isConfigured(name: ProviderName): boolean {
+  if (name === 'doubao') return !!doubao;
+  if (name === 'openai') return !!openai;
+  if (name === 'local') return !!local;
+  return !!gemini;
+}
+
+export function hasAnyProvider(): boolean {
+  return !!doubao || !!openai || !!gemini || !!local;
+}
+
+export function ensureProviderAvailable(): void {
+  if (!hasAnyProvider()) {
+    throw new Error(NO_AI_PROVIDER_MESSAGE);
+  }
+}
+
+/**
+ * Gemini-only features (TTS, audio understanding, Files API) have no fallback
+ * provider; they use the shared @google/genai client directly.
+ */
+export function getGenAIClient(): GoogleGenAI | null {
+  return AI_PROVIDER === 'local' ? null : genai;
+}
+
+/**
+ * The local stand-in for Gemini-only features: returned when it is pinned via
+ * NEXT_PUBLIC_AI_PROVIDER=local, or enabled and no Gemini key is configured.
+ */
+export function getLocalStandIn(): LocalProvider | null {
+  if (!local) return null;
+  return AI_PROVIDER === 'local' || !genai ? local : null;
+}
+
+// ---------------------------------------------------------------------------
+// Circuit breaker
+// ---------------------------------------------------------------------------
+
+/** Extra turns asking a provider to fix a reply that failed parsing/validation. */
+const REPAIR_ATTEMPTS = 1;
+
+const BREAKER_FAILURE_THRESHOLD = 3;
+const BREAKER_COOLDOWN_MS = 30000;
+
+interface BreakerState {
+  failures: number;
+  openedAt: number | null;
+}
+
+const breakers: Record<ProviderName, BreakerState> = {
+  doubao: { failures: 0, openedAt: null },
+  openai: { failures: 0, openedAt: null },
+  gemini: { failures: 0, openedAt: null },
+  local: { failures: 0, openedAt: null },
+};
+
+/** Open breaker = skip provider. After the cooldown one trial call is let through (half-open). */
+function isCircuitOpen(name: ProviderName): boolean {
+  const state = breakers[name];
+  if (state.openedAt === null) return false;
+  if (Date.now() - state.openedAt >= BREAKER_COOLDOWN_MS) {
+    state.openedAt = null;
+    state.failures = BREAKER_FAILURE_THRESHOLD - 1; // one more failure re-opens it
+    return false;
+  }
+  return true;
+}
+
+function recordSuccess(name: ProviderName): void {
+  breakers[name] = { failures: 0, openedAt: null };
+}
+
+function recordFailure(name: ProviderName): void {
+  const state = breakers[name];
+  state.failures += 1;
+  if (state.failures >= BREAKER_FAILURE_THRESHOLD && state.openedAt === null) {
+    state.openedAt = Date.now();
+    console.warn(`⚡ ${DISPLAY_NAME[name]} circuit opened after ${state.failures} failures`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Provider adapters
+// ---------------------------------------------------------------------------
+
+function withTimeout<T>(promise: Promise<T>, ms: number, name: ProviderName): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${DISPLAY_NAME[name]} request timeout after ${Math.round(ms / 1000)}s`)),
+      ms
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+type GeminiContent = { role: 'user' | 'model'; parts: Array<{ text: string }> };
+
+/**
+ * Gemini needs alternating user/model turns starting with user.
+ * Consecutive same-role turns are merged; a history that starts with the model
+ * is flattened into a single transcript prompt.
+ */
+function toGeminiContents(turns: ChatMessage[]): GeminiContent[] {
+  const contents: GeminiContent[] = [];
+  for (const m of turns) {
+    const role = m.role === 'assistant' ? 'model' : 'user';
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts[0].text += `\n\n${m.content}`;
+    } else {
+      contents.push({ role, parts: [{ text: m.content }] });
+    }
+  }
+  if (contents.length > 0 && contents[0].role === 'model') {
+    const transcript = contents
+      .map((c) => `${c.role === 'user' ? 'User' : 'Assistant'}: ${c.parts[0].text}`)
+      .join('\n\n');
+    return [{ role: 'user', parts: [{ text: transcript }] }];
+  }
+  return contents;
+}
+
+async function chatWith(
+  name: ProviderName,
+  messages: ChatMessage[],
+  options: RouteOptions
+): Promise<string> {
+  const model = options.models?.[name] || DEFAULT_MODELS[name];
+
+  if (name === 'local') {
+    return local!.chat(messages, { label: options.label });
+  }
+
+  if (name === 'doubao') {
+    const response = await doubao!.chat(messages, {
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+    });
+    return response.choices?.[0]?.message?.content || '';
+  }
+
+  if (name === 'openai') {
+    const response = await openai!.chat.completions.create({
+      model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      response_format: options.json ? { type: 'json_object' } : undefined,
+    });
+    return response.choices[0]?.message?.content || '';
+  }
+
+  const systemInstruction = messages
+    .filter((m) => m.role === 'system')
+    .map((m) => m.content)
+    .join('\n\n');
+  const geminiModel = gemini!.getGenerativeModel({
+    model,
+    systemInstruction: systemInstruction || undefined,
+    generationConfig: {
+      responseMimeType: options.json ? 'application/json' : undefined,
+      maxOutputTokens: options.maxTokens,
+      temperature: options.temperature,
+    },
+  });
+  const result = await geminiModel.generateContent({
+    contents: toGeminiContents(messages.filter((m) => m.role !== 'system')),
+  });
+  return result.response.text();
+}
+
+/** Same request as chatWith, yielding text deltas as they arrive. */
+async function* streamWith(
+  name: ProviderName,
+  messages: ChatMessage[],
+  options: RouteOptions
+): AsyncGenerator<string> {
+  const model = options.models?.[name] || DEFAULT_MODELS[name];
+
+  if (name === 'local') {
+    yield* local!.chatStream(messages, { label: options.label });
+    return;
+  }
+
+  if (name === 'doubao') {
+    yield* doubao!.chatStream(messages, {
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+    });
+    return;
+  }
+
+  if (name === 'openai') {
+    const stream = await openai!.chat.completions.create({
+      model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      response_format: options.json ? { type: 'json_object' } : undefined,
+      stream: true,
+    });
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+    return;
+  }
+
+  const systemInstruction = messages
+    .filter((m) => m.role === 'system')
+    .map((m) => m.content)
+    .join('\n\n');
+  const geminiModel = gemini!.getGenerativeModel({
+    model,
+    systemInstruction: systemInstruction || undefined,
+    generationConfig: {
+      responseMimeType: options.json ? 'application/json' : undefined,
+      maxOutputTokens: options.maxTokens,
+      temperature: options.temperature,
+    },
+  });
+  const result = await geminiModel.generateContentStream({
+    contents: toGeminiContents(messages.filter((m) => m.role !== 'system')),
+  });
+  for await (const chunk of result.stream) {
+    const delta = chunk.text();
+    if (delta) yield delta;
+  }
+}
+
+async function visionWith(
+  name: ProviderName,
+  prompt: string,
+  imageBase64: string,
+  options: RouteOptions
+): Promise<string> {
+  const model = options.models?.[name] || DEFAULT_MODELS[name];
+
+  if (name === 'local') {
+    return local!.chatWithImage(prompt, imageBase64);
+  }
+
+  if (name === 'doubao') {
+    const response = await doubao!.chatWithImage(prompt, imageBase64, {
+      reasoningEffort: 'medium',
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      timeoutMs: options.timeoutMs ?? PROVIDER_TIMEOUT_MS.doubao,
+    });
+    return response.choices?.[0]?.message?.content || '';
+  }
+
+  if (name === 'openai') {
+    const response = await openai!.chat.completions.create({
+      model,
+      messages: [
+        { role: 'system', content: 'You are a scenario generator. Always return valid JSON.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${imageBase64}` } },
+          ],
+        },
+      ],
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      response_format: options.json ? { type: 'json_object' } : undefined,
+    });
+    return response.choices[0]?.message?.content || '';
+  }
+
+  const geminiModel = gemini!.getGenerativeModel({
+    model,
+    generationConfig: {
+      responseMimeType: options.json ? 'application/json' : undefined,
+      maxOutputTokens: options.maxTokens,
+      temperature: options.temperature,
+    },
+  });
+  const result = await geminiModel.generateContent([
+    prompt,
+    { inlineData: { mimeType: 'image/jpeg', data: imageBase64 } },
+  ]);
+  return result.response.text();
+}
+
+// ---------------------------------------------------------------------------
+// Routing
+// ---------------------------------------------------------------------------
+
+/**
+ * Providers to try, in order, for a capability.
+ * A per-request preference wins; otherwise NEXT_PUBLIC_AI_PROVIDER pins the provider.
+ */
+export function resolveProviderOrder(
+  capability: Capability,
+  order?: ProviderName[],
+  preference: AiModelPreference = 'auto'
+): ProviderName[] {
+  const base = order ?? DEFAULT_ORDER[capability];
+  if (preference !== 'auto' && base.includes(preference)) {
+    return [preference, ...base.filter((name) => name !== preference)];
+  }
+  if (AI_PROVIDER !== 'auto' && (base as string[]).includes(AI_PROVIDER)) {
+    return [AI_PROVIDER as ProviderName];
+  }
+  return base;
+}
+
+function isAuthError(message: string): boolean {
+  return (
+    message.includes('API key') ||
+    message.includes('401') ||
+    message.includes('403') ||
+    message.includes('quota') ||
+    message.includes('429')
+  );
+}
+
+/**
+ * Run `call` against each provider in order until one succeeds.
+ * `accept` may throw to reject a response (e.g. unparseable JSON). If `repair` is given the
+ * same provider is asked to fix its reply first; otherwise (or if that fails too) we move on
+ * to the next provider without counting against the circuit breaker.
+ */
+async function route<T>(
+  capability: Capability,
+  options: RouteOptions,
+  call: (name: ProviderName) => Promise<string>,
+  accept: (text: string) => T,
+  repair?: (name: ProviderName, badText: string, problem: string) => Promise<string>
+): Promise<RouteResult<T>> {
+  const label = options.label || 'AI';
+  const candidates = resolveProviderOrder(capability, options.order, options.preference).filter(isConfigured);
+  if (candidates.length === 0) {
+    throw new Error(NO_AI_PROVIDER_MESSAGE);
+  }
+
+  let lastError: any = null;
+  let attempted = 0;
+
+  const throwIfAborted = () => {
+    if (!options.signal?.aborted) return;
+    const error = new Error(`[${label}] request aborted`);
+    error.name = 'AbortError';
+    throw error;
+  };
+
+  for (const name of candidates) {
+    throwIfAborted();
+    if (isCircuitOpen(name)) {
+      console.log(`⏭️ [${label}] ${DISPLAY_NAME[name]} skipped (circuit open)`);
+      continue;
+    }
+    attempted += 1;
+
+    let text: string;
+    try {
+      console.log(`🔄 [${label}] Trying ${DISPLAY_NAME[name]}...`);
+      text = await withTimeout(call(name), options.timeoutMs ?? PROVIDER_TIMEOUT_MS[name], name);
+      if (!text) throw new Error(`Empty response from ${DISPLAY_NAME[name]}`);
+      recordSuccess(name);
+    } catch (error: any) {
+      // The caller left: not the provider's fault, and nobody is waiting for a fallback
+      throwIfAborted();
+      lastError = error;
+      recordFailure(name);
+      if (isAuthError(error?.message || '')) {
+        console.log(`ℹ️ [${label}] ${DISPLAY_NAME[name]} skipped (API key or quota issue)`);
+      } else {
+        console.warn(`❌ [${label}] ${DISPLAY_NAME[name]} failed:`, error?.message);
+      }
+      continue;
+    }
+
+    for (let repairsLeft = repair ? REPAIR_ATTEMPTS : 0; ; repairsLeft--) {
+      try {
+        const data = accept(text);
+        console.log(`✅ [${label}] ${DISPLAY_NAME[name]} successful`);
+        return { data, provider: name };
+      } catch (error: any) {
+        lastError = error;
+        console.warn(`❌ [${label}] ${DISPLAY_NAME[name]} returned an unusable response:`, error?.message);
+      }
+      if (repairsLeft <= 0) break;
+      try {
+        console.log(`🔧 [${label}] Asking ${DISPLAY_NAME[name]} to repair its response...`);
+        text = await withTimeout(
+          repair!(name, text, lastError?.message || 'invalid response'),
+          options.timeoutMs ?? PROVIDER_TIMEOUT_MS[name],
+          name
+        );
+      } catch (error: any) {
+        throwIfAborted();
+        console.warn(`❌ [${label}] ${DISPLAY_NAME[name]} repair failed:`, error?.message);
+        break;
+      }
+    }
+  }
+
+  if (attempted === 0) {
+    throw new Error(`${ALL_PROVIDERS_FAILED_MESSAGE}: every provider is temporarily unavailable`);
+  }
+  // Providers answered but never in the right shape: surface that as a 502, not a 503
+  if (lastError instanceof AIOutputValidationError) {
+    throw lastError;
+  }
+  throw new Error(`${ALL_PROVIDERS_FAILED_MESSAGE}: ${lastError?.message || 'unknown error'}`);
+}
+
+/** Plain-text chat completion. */
+export function routeChat(
+  messages: ChatMessage[],
+  options: RouteOptions = {}
+): Promise<RouteResult<string>> {
+  return route('chat', options, (name) => chatWith(name, messages, options), (text) => text.trim());
+}
+
+function repairInstruction(problem: string): string {
+  return `Your previous reply could not be used: ${problem}. Reply again with ONLY the corrected JSON object, following the requested format exactly.`;
+}
+
+/**
+ * Chat completion that must return a JSON object.
+ * With `schema`, the reply is validated and a malformed one gets a repair turn.
+ */
+export function routeJSON<T = any>(
+  messages: ChatMessage[],
+  options: JSONRouteOptions<T> = {}
+): Promise<RouteResult<T>> {
+  const { schema, ...rest } = options;
+  const opts = { ...rest, json: true };
+  return route(
+    'chat',
+    opts,
+    (name) => chatWith(name, messages, opts),
+    (text) => (schema ? parseStructured(text, schema) : (DoubaoProvider.parseJSONResponse(text) as T)),
+    schema
+      ? (name, badText, problem) =>
+          chatWith(
+            name,
+            [
+              ...messages,
+              { role: 'assistant', content: badText },
+              { role: 'user', content: repairInstruction(problem) },
+            ],
+            opts
+          )
+      : undefined
+  );
+}
+
+export interface StreamHandlers {
+  /** Raw text delta from the provider currently answering. */
+  onDelta: (chunk: string) => void;
+  /** A provider failed mid-stream and the next one starts over: discard what was shown. */
+  onReset?: () => void;
+}
+
+/**
+ * Streaming variant of routeJSON: deltas are forwarded while the provider writes, and the
+ * full reply is parsed/validated at the end (a repair turn, if needed, is not streamed).
+ */
+export function routeJSONStream<T = any>(
+  messages: ChatMessage[],
+  options: JSONRouteOptions<T>,
+  handlers: StreamHandlers
+): Promise<RouteResult<T>> {
+  const { schema, ...rest } = options;
+  const opts = { ...rest, json: true };
+  let emitted = false;
+  let currentAttempt = 0;
+  return route(
+    'chat',
+    opts,
+    async (name) => {
+      // A timed-out stream keeps running in the background; stop it from leaking deltas
+      const attempt = ++currentAttempt;
+      if (emitted) {
+        handlers.onReset?.();
+        emitted = false;
+      }
+      let text = '';
+      for await (const chunk of streamWith(name, messages, opts)) {
+        if (attempt !== currentAttempt) break;
+        if (opts.signal?.aborted) throw new Error('Stream aborted by the client');
+        text += chunk;
+        emitted = true;
+        handlers.onDelta(chunk);
+      }
+      return text;
+    },
+    (text) => (schema ? parseStructured(text, schema) : (DoubaoProvider.parseJSONResponse(text) as T)),
+    schema
+      ? (name, badText, problem) =>
+          chatWith(
+            name,
+            [
+              ...messages,
+              { role: 'assistant', content: badText },
+              { role: 'user', content: repairInstruction(problem) },
+            ],
+            opts
+          )
+      : undefined
+  );
+}
+
+/** Image + prompt → JSON object. `imageBase64` is raw base64 (no data URL prefix). */
+export function routeVisionJSON<T = any>(
+  prompt: string,
+  imageBase64: string,
+  options: JSONRouteOptions<T> = {}
+): Promise<RouteResult<T>> {
+  const { schema, ...rest } = options;
+  const opts = { ...rest, json: true };
+  return route(
+    'vision',
+    opts,
+    (name) => visionWith(name, prompt, imageBase64, opts),
+    (text) => (schema ? parseStructured(text, schema) : (DoubaoProvider.parseJSONResponse(text) as T)),
+    schema
+      ? (name, badText, problem) =>
+          visionWith(
+            name,
+            `${prompt}\n\nYour previous reply was:\n${badText}\n\n${repairInstruction(problem)}`,
+            imageBase64,
+            opts
+          )
+      : undefined
+  );
+}
+
+/** Speech → text (OpenAI Whisper; the local stand-in returns a fixed sentence). `base64Audio` may include a data URL prefix. */
+export function routeTranscription(
+  base64Audio: string,
+  options: RouteOptions = {}
+): Promise<RouteResult<string>> {
+  const base64Data = base64Audio.includes(',') ? base64Audio.split(',')[1] : base64Audio;
+  return route(
+    'transcription',
+    options,
+    async (name) => {
+      if (name === 'local') return local!.transcribe();
+      const audioBuffer = Buffer.from(base64Data, 'base64');
+      const file = new File([audioBuffer], 'audio.webm', { type: 'audio/webm' });
+      const transcription = await openai!.audio.transcriptions.create({
+        file,
+        model: 'whisper-1',
+        language: 'en',
+      });
+      return transcription.text;
+    },
+    (text) => text.trim()
+  );
+}
@@ -0,0 +1,449 @@
+/**
+ * Runtime schemas for structured AI output.
+ * A tiny validator (no extra dependency): required fields are reported as issues so the
+ * router can ask the model to repair its reply; cosmetic fields fall back to defaults.
+ */
+
+import { DoubaoProvider } from './doubao';
+import type {
+  AnalyzeImageResponse,
+  DialogueResponse,
+  DialogueReportAnalysis,
+  DialogueTurnScore,
+  ScenarioAdaptation,
+  ShadowAnalysisResult,
+  ShadowWordAnalysis,
+  FlashcardGeneration,
+  CompleteDiaryAnalysis,
+  DiaryProcessResult,
+} from '@/lib/types';
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** The model's reply still did not match the schema after repair (map to 502 in API routes). */
+export class AIOutputValidationError extends Error {
+  readonly schemaName: string;
+  readonly issues: string[];
+
+  constructor(schemaName: string, issues: string[], message?: string) {
+    super(message ?? `AI response did not match ${schemaName}: ${issues.slice(0, 5).join('; ')}`);
+    this.name = 'AIOutputValidationError';
+    this.schemaName = schemaName;
+    this.issues = issues;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Combinators
+// ---------------------------------------------------------------------------
+
+export interface Schema<T> {
+  /** Used in error messages, e.g. 'DialogueResponse'. */
+  name?: string;
+  /** Returns the (possibly coerced) value, or pushes to `issues` and returns undefined. */
+  parse(value: unknown, path: string, issues: string[]): T | undefined;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function label(path: string): string {
+  return path || 'response';
+}
+
+function string(opts: { allowEmpty?: boolean } = {}): Schema<string> {
+  return {
+    parse(value, path, issues) {
+      if (typeof value === 'number') return String(value);
+      if (typeof value !== 'string') {
+        issues.push(`${label(path)} must be a string`);
+        return undefined;
+      }
+      if (!opts.allowEmpty && value.trim() === '') {
+        issues.push(`${label(path)} must not be empty`);
+        return undefined;
+      }
+      return value;
+    },
+  };
+}
+
+function number(opts: { min?: number; max?: number } = {}): Schema<number> {
+  return {
+    parse(value, path, issues) {
+      const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof n !== 'number' || !Number.isFinite(n)) {
+        issues.push(`${label(path)} must be a number`);
+        return undefined;
+      }
+      if ((opts.min !== undefined && n < opts.min) || (opts.max !== undefined && n > opts.max)) {
+        issues.push(`${label(path)} must be between ${opts.min ?? '-∞'} and ${opts.max ?? '∞'}`);
+        return undefined;
+      }
+      return n;
+    },
+  };
+}
+
+function boolean(): Schema<boolean> {
+  return {
+    parse(value, path, issues) {
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      issues.push(`${label(path)} must be a boolean`);
+      return undefined;
+    },
+  };
+}
+
+function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    parse(value, path, issues) {
+      const v = typeof value === 'string' ? value.trim().toLowerCase() : value;
+      if (values.includes(v as T)) return v as T;
+      issues.push(`${label(path)} must be one of ${values.join(', ')}`);
+      return undefined;
+    },
+  };
+}
+
+function array<T>(item: Schema<T>, opts: { min?: number } = {}): Schema<T[]> {
+  return {
+    parse(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push(`${label(path)} must be an array`);
+        return undefined;
+      }
+      if (opts.min !== undefined && value.length < opts.min) {
+        issues.push(`${label(path)} must have at least ${opts.min} item(s)`);
+        return undefined;
+      }
+      const before = issues.length;
+      const out = value.map((v, i) => item.parse(v, `${path}[${i}]`, issues));
+      return issues.length === before ? (out as T[]) : undefined;
+    },
+  };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function object<S extends Shape>(shape: S, name?: string): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return {
+    name,
+    parse(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push(`${label(path)} must be an object`);
+        return undefined;
+      }
+      const record = value as Record<string, unknown>;
+      const before = issues.length;
+      const out: Record<string, unknown> = {};
+      for (const key of Object.keys(shape)) {
+        const parsed = shape[key].parse(record[key], path ? `${path}.${key}` : key, issues);
+        if (parsed !== undefined) out[key] = parsed;
+      }
+      return issues.length === before ? (out as { [K in keyof S]: Infer<S[K]> }) : undefined;
+    },
+  };
+}
+
+/** Missing/null is fine; a present but invalid value is still an issue. */
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    parse(value, path, issues) {
+      if (isMissing(value)) return undefined;
+      return schema.parse(value, path, issues);
+    },
+  };
+}
+
+/** Missing or invalid values are replaced by `fallback` instead of failing validation. */
+function withDefault<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return {
+    parse(value, path) {
+      if (isMissing(value)) return fallback;
+      const parsed = schema.parse(value, path, []);
+      return parsed === undefined ? fallback : parsed;
+    },
+  };
+}
+
+/** Optional and lenient: missing or invalid values are dropped. */
+function loose<T>(schema: Schema<T>): Schema<T | undefined> {
+  return withDefault(optional(schema), undefined);
+}
+
+export const s = { string, number, boolean, oneOf, array, object, optional, withDefault, loose };
+
+// ---------------------------------------------------------------------------
+// Validation entry points
+// ---------------------------------------------------------------------------
+
+/** Validate an already-parsed value; throws AIOutputValidationError on mismatch. */
+export function validate<T>(schema: Schema<T>, value: unknown): T {
+  const issues: string[] = [];
+  const parsed = schema.parse(value, '', issues);
+  if (parsed === undefined || issues.length > 0) {
+    throw new AIOutputValidationError(schema.name || 'response', issues.length ? issues : ['invalid response']);
+  }
+  return parsed;
+}
+
+/** Parse raw model text (fences, surrounding prose) and validate it. */
+export function parseStructured<T>(text: string, schema: Schema<T>): T {
+  let json: unknown;
+  try {
+    json = DoubaoProvider.parseJSONResponse(text);
+  } catch (error: any) {
+    throw new AIOutputValidationError(schema.name || 'response', [
+      `response is not valid JSON (${error?.message || 'parse error'})`,
+    ]);
+  }
+  return validate(schema, json);
+}
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+const stringList = s.array(s.string());
+
+export const analyzeImageSchema: Schema<AnalyzeImageResponse> = s.object(
+  {
+    location: s.string(),
+    situation: s.string(),
+    difficulty: s.withDefault(s.string(), 'A1'),
+    role_name: s.string(),
+    context: s.string(),
+    goals: s.optional(stringList),
+    completion_phrase: s.loose(s.string()),
+    first_line: s.string(),
+    user_hints: s.withDefault(s.array(s.string(), { min: 1 }), ['Hello', 'Help me', 'Goodbye']),
+  },
+  'AnalyzeImageResponse'
+);
+
+const dialogueFeedbackSchema = s.object({
+  score: s.number({ min: 0, max: 100 }),
+  comment: s.withDefault(s.string(), 'Keep going!'),
+  grammar: s.withDefault(s.string({ allowEmpty: true }), ''),
+  native_expression: s.withDefault(s.string({ allowEmpty: true }), ''),
+  correction: s.loose(s.string({ allowEmpty: true })),
+  better_alternative: s.loose(s.string({ allowEmpty: true })),
+});
+
+const goalProgressListSchema = s.withDefault(
+  s.array(
+    s.object({
+      goal: s.string(),
+      status: s.oneOf(['not_started', 'in_progress', 'achieved'] as const),
+      evidence: s.loose(s.string({ allowEmpty: true })),
+    })
+  ),
+  []
+);
+
+export const dialogueSchema: Schema<DialogueResponse> = s.object(
+  {
+    feedback: dialogueFeedbackSchema,
+    next_response: s.string(),
+    next_hints: s.withDefault(s.array(s.string(), { min: 1 }), ['Continue', 'Ask more']),
+    goals: goalProgressListSchema,
+    is_finished: s.withDefault(s.boolean(), false),
+  },
+  'DialogueResponse'
+);
+
+export const dialogueTurnScoreSchema: Schema<DialogueTurnScore> = s.object(
+  {
+    feedback: dialogueFeedbackSchema,
+    goals: goalProgressListSchema,
+  },
+  'DialogueTurnScore'
+);
+
+export const scenarioAdaptationSchema: Schema<ScenarioAdaptation> = s.object(
+  {
+    difficulty: s.withDefault(s.string(), 'B1'),
+    first_line: s.string(),
+    user_hints: s.withDefault(s.array(s.string(), { min: 1 }), ['Hello', 'Could you repeat that?', 'Thank you']),
+    role_behavior: s.string(),
+  },
+  'ScenarioAdaptation'
+);
+
+export const dialogueReportSchema: Schema<DialogueReportAnalysis> = s.object(
+  {
+    summary: s.withDefault(s.string(), 'Well done on finishing the conversation!'),
+    grammar_errors: s.withDefault(
+      s.array(
+        s.object({
+          type: s.withDefault(s.string(), 'Other'),
+          original: s.string(),
+          correction: s.string(),
+        })
+      ),
+      []
+    ),
+    target_vocabulary: s.withDefault(stringList, []),
+  },
+  'DialogueReportAnalysis'
+);
+
+const timestamp = s.loose(s.number({ min: 0 }));
+
+const shadowWordSchema: Schema<ShadowWordAnalysis> = s.object({
+  word: s.string(),
+  status: s.oneOf(['good', 'average', 'poor'] as const),
+  phonetic: s.loose(s.string({ allowEmpty: true })),
+  issue: s.loose(s.string({ allowEmpty: true })),
+  refStartTime: timestamp,
+  refEndTime: timestamp,
+  userStartTime: timestamp,
+  userEndTime: timestamp,
+});
+
+export const shadowAnalysisSchema: Schema<ShadowAnalysisResult> = s.object(
+  {
+    score: s.number({ min: 0, max: 100 }),
+    fluency: s.withDefault(s.string({ allowEmpty: true }), ''),
+    words: s.array(shadowWordSchema, { min: 1 }),
+    pronunciation: s.withDefault(
+      s.object({
+        strengths: s.withDefault(stringList, []),
+        weaknesses: s.withDefault(stringList, []),
+      }),
+      { strengths: [], weaknesses: [] }
+    ),
+    intonation: s.withDefault(s.string({ allowEmpty: true }), ''),
+    suggestions: s.withDefault(s.string({ allowEmpty: true }), ''),
+  },
+  'ShadowAnalysisResult'
+);
+
+export const flashcardGenerationSchema: Schema<FlashcardGeneration> = s.object(
+  {
+    term: s.string(),
+    phonetic: s.loose(s.string({ allowEmpty: true })),
+    translation: s.string(),
+    definition: s.string(),
+    example: s.string(),
+    native_usage: s.loose(s.string({ allowEmpty: true })),
+    video_ids: s.loose(stringList),
+  },
+  'FlashcardGeneration'
+);
+
+/** /api/flashcard/generate asks for the card body only; the term is the selected text. */
+export const flashcardContentSchema: Schema<Omit<FlashcardGeneration, 'term' | 'video_ids'>> =
+  s.object(
+    {
+      phonetic: s.loose(s.string({ allowEmpty: true })),
+      translation: s.string(),
+      definition: s.string(),
+      example: s.string(),
+      native_usage: s.loose(s.string({ allowEmpty: true })),
+    },
+    'FlashcardGeneration'
+  );
+
+const dimensionSchema = s.object({
+  score: s.number({ min: 0, max: 100 }),
+  comment: s.withDefault(s.string({ allowEmpty: true }), ''),
+});
+
+export const completeDiaryAnalysisSchema: Schema<CompleteDiaryAnalysis> = s.object(
+  {
+    dimensions: s.object({
+      contentExpression: dimensionSchema,
+      grammarAccuracy: dimensionSchema,
+      vocabularyNaturalness: dimensionSchema,
+      englishThinking: dimensionSchema,
+    }),
+    overallScore: s.number({ min: 0, max: 100 }),
+    overallLevel: s.withDefault(s.string(), ''),
+    summary: s.withDefault(s.string({ allowEmpty: true }), ''),
+    stats: s.withDefault(
+      s.object({
+        wordCount: s.withDefault(s.number({ min: 0 }), 0),
+        sentenceCount: s.withDefault(s.number({ min: 0 }), 0),
+        avgSentenceLength: s.withDefault(s.number({ min: 0 }), 0),
+        uniqueWords: s.withDefault(s.number({ min: 0 }), 0),
+      }),
+      { wordCount: 0, sentenceCount: 0, avgSentenceLength: 0, uniqueWords: 0 }
+    ),
+    strengths: s.withDefault(stringList, []),
+    improvements: s.withDefault(stringList, []),
+    grammarFocus: s.withDefault(stringList, []),
+    sentenceAnalysis: s.array(
+      s.object({
+        original: s.string(),
+        isCorrect: s.withDefault(s.boolean(), true),
+        issues: s.withDefault(
+          s.array(
+            s.object({
+              errorText: s.withDefault(s.string({ allowEmpty: true }), ''),
+              errorType: s.withDefault(s.string({ allowEmpty: true }), ''),
+              reason: s.withDefault(s.string({ allowEmpty: true }), ''),
+              correction: s.withDefault(s.string({ allowEmpty: true }), ''),
+              explanation: s.withDefault(s.string({ allowEmpty: true }), ''),
+            })
+          ),
+          []
+        ),
+        naturalExpression: s.withDefault(s.string({ allowEmpty: true }), ''),
+        thinkingTips: s.loose(s.string({ allowEmpty: true })),
+      })
+    ),
+    optimized: s.string(),
+    upgradedVersion: s.string(),
+    patterns: s.withDefault(
+      s.array(
+        s.object({
+          pattern: s.string(),
+          explanation: s.withDefault(s.string({ allowEmpty: true }), ''),
+          example: s.withDefault(s.string({ allowEmpty: true }), ''),
+        })
+      ),
+      []
+    ),
+    flashcards: s.withDefault(
+      s.array(
+        s.object({
+          term: s.string(),
+          phonetic: s.withDefault(s.string({ allowEmpty: true }), ''),
+          translation: s.string(),
+          definition: s.withDefault(s.string({ allowEmpty: true }), ''),
+          example: s.withDefault(s.string({ allowEmpty: true }), ''),
+          nativeUsage: s.withDefault(s.string({ allowEmpty: true }), ''),
+        })
+      ),
+      []
+    ),
+  },
+  'CompleteDiaryAnalysis'
+);
+
+export const diaryProcessSchema: Schema<DiaryProcessResult> = s.object(
+  {
+    semantic_summary: s.string(),
+    rewrites: s.array(s.string(), { min: 1 }),
+    extracted_patterns: s.withDefault(
+      s.array(
+        s.object({
+          pattern: s.string(),
+          explanation: s.withDefault(s.string({ allowEmpty: true }), ''),
+          example: s.withDefault(s.string({ allowEmpty: true }), ''),
+          tags: s.withDefault(stringList, []),
+        })
+      ),
+      []
+    ),
+    flashcards: s.withDefault(s.array(flashcardGenerationSchema), []),
+  },
+  'DiaryProcessResult'
+);
@@ -1,57 +1,46 @@
 /**
  * AI Service Layer
- * Handles all AI interactions with automatic fallback between providers
+ * Handles all AI interactions; provider selection and fallback live in provider-router
  */
 
-import { DoubaoProvider, DoubaoMessage } from './doubao';
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  routeChat,
+  routeJSON,
+  routeJSONStream,
+  routeVisionJSON,
+  routeTranscription,
+  ensureProviderAvailable,
+  type ChatMessage,
+  type RouteResult,
+} from './provider-router';
+import {
+  AIOutputValidationError,
+  analyzeImageSchema,
+  dialogueSchema,
+  dialogueReportSchema,
+  dialogueTurnScoreSchema,
+  diaryProcessSchema,
+  scenarioAdaptationSchema,
+} from './schemas';
+import { createJSONFieldStreamer } from './json-stream';
+import { allGoalsAchieved, mergeGoalProgress } from '@/lib/utils/dialogueGoals';
 import type {
   AnalyzeImageResponse,
   DialogueResponse,
+  DialogueReportAnalysis,
+  DialogueTurnScore,
   DiaryProcessResult,
+  DifficultyDirection,
+  GoalProgress,
+  Scenario,
+  ScenarioAdaptation,
+  ScenarioAttemptSummary,
   UserLevel,
   PracticeMode,
   AiModelPreference,
 } from '@/lib/types';
 
-// Initialize providers
-const doubaoConfig = {
-  apiKey: process.env.NEXT_DOUBAO_API_KEY || '',
-  endpoint: process.env.NEXT_DOUBAO_CHAT_ENDPOINT || '',
-  model: process.env.NEXT_DOUBAO_CHAT_MODEL || '',
-  visionModel:
-    process.env.NEXT_DOUBAO_VISION_MODEL || process.env.NEXT_DOUBAO_CHAT_MODEL || '',
-};
-
-const doubao =
-  doubaoConfig.apiKey && doubaoConfig.endpoint && doubaoConfig.model
-    ? new DoubaoProvider({
-        ...doubaoConfig,
-        visionModel: doubaoConfig.visionModel || doubaoConfig.model,
-      })
-    : null;
-
-const openaiKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY || '';
-const openai = openaiKey ? new OpenAI({ 
-  apiKey: openaiKey,
-  timeout: 60000, // 30 seconds default timeout
-  maxRetries: 2, // Retry on failure
-}) : null;
-
-const geminiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY || '';
-const gemini = geminiKey ? new GoogleGenerativeAI(geminiKey) : null;
-
-const AI_PROVIDER = (process.env.NEXT_PUBLIC_AI_PROVIDER || 'auto').toLowerCase();
-
-/** Error message when no AI provider is configured (map to 503 in API routes). */
-export const NO_AI_PROVIDER_MESSAGE = 'No AI provider configured. Please set at least one of: NEXT_PUBLIC_GEMINI_API_KEY, NEXT_PUBLIC_OPENAI_API_KEY, or Doubao env vars.';
-
-function ensureProviderAvailable(): void {
-  if (!doubao && !gemini && !openai) {
-    throw new Error(NO_AI_PROVIDER_MESSAGE);
-  }
-}
+export { NO_AI_PROVIDER_MESSAGE } from './provider-router';
 
 /**
  * Analyze image to create a learning scenario
@@ -61,10 +50,9 @@ export async function analyzeScene(
   level: UserLevel,
   location?: { lat: number; lng: number },
   mode: PracticeMode = 'Daily',
-  preferredModel?: AiModelPreference
-): Promise<AnalyzeImageResponse> {
+  preferredModel: AiModelPreference = 'auto'
+): Promise<RouteResult<AnalyzeImageResponse>> {
   ensureProviderAvailable();
-  const provider: string = (preferredModel && preferredModel !== 'auto') ? preferredModel : (AI_PROVIDER || 'auto');
   const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
 
   const now = new Date();
@@ -126,157 +114,27 @@ Return JSON:
 }
   `;
 
-  let lastError: any = null;
-
-  // Priority: Gemini -> OpenAI -> Doubao (vision) as fallback; or single provider when preferredModel is set
-  const tryGemini = (provider === 'gemini' || provider === 'auto') && gemini;
-  const tryOpenAI = (provider === 'openai' || provider === 'auto') && openai;
-  const tryDoubao = (provider === 'doubao' || provider === 'auto') && doubao;
-
-  if (tryGemini) {
-    try {
-      console.log('🔄 Analyzing image with Gemini Vision...');
-      const model = gemini.getGenerativeModel({ 
-        model: 'gemini-2.5-flash',
-        generationConfig: {
-          maxOutputTokens: 2048,
-          temperature: 0.7,
-        },
-      });
-
-      // Add timeout control (30 seconds)
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Gemini request timeout after 30s')), 60000);
-      });
-
-      const result = await Promise.race([
-        model.generateContent([
-          prompt,
-          {
-            inlineData: {
-              mimeType: 'image/jpeg',
-              data: cleanBase64,
-            },
-          },
-        ]),
-        timeoutPromise,
-      ]);
-
-      const text = result.response.text();
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) throw new Error('No JSON found');
-
-      console.log('✅ Gemini Vision analysis successful');
-      return validateAnalysisResponse(JSON.parse(jsonMatch[0]));
-    } catch (error: any) {
-      lastError = error;
-      if (provider === 'gemini') throw error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ Gemini skipped (API key issue)');
-      } else if (error.message?.includes('timeout')) {
-        console.warn('❌ Gemini analysis timeout');
-      } else if (error.message?.includes('fetch failed')) {
-        console.warn('❌ Gemini network error - check your internet connection');
-      } else {
-        console.warn('❌ Gemini analysis failed:', error.message);
-      }
-    }
-  }
-
-  if (tryOpenAI) {
-    try {
-      console.log('🔄 Trying OpenAI Vision...');
-      
-      // Add timeout control (30 seconds)
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('OpenAI request timeout after 30s')), 60000);
-      });
-
-      const response = await Promise.race([
-        openai.chat.completions.create({
-          model: 'gpt-4o-mini',
-          messages: [
-            { role: 'system', content: 'You are a scenario generator. Always return valid JSON.' },
-            {
-              role: 'user',
-              content: [
-                { type: 'text', text: prompt },
-                {
-                  type: 'image_url',
-                  image_url: { url: `data:image/jpeg;base64,${cleanBase64}` },
-                },
-              ],
-            },
-          ],
-          response_format: { type: 'json_object' },
-        }),
-        timeoutPromise,
-      ]);
-
-      const text = response.choices[0]?.message?.content;
-      if (!text) throw new Error('Empty response');
-
-      console.log('✅ OpenAI Vision analysis successful');
-      return validateAnalysisResponse(JSON.parse(text));
-    } catch (error: any) {
-      lastError = error;
-      if (provider === 'openai') throw error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ OpenAI skipped (API key issue)');
-      } else if (error.message?.includes('timeout')) {
-        console.warn('❌ OpenAI analysis timeout');
-      } else if (error.message?.includes('Connection error') || error.message?.includes('fetch failed')) {
-        console.warn('❌ OpenAI network error - check your internet connection');
-      } else {
-        console.warn('❌ OpenAI analysis failed:', error.message);
-      }
-    }
-  }
-
-  if (tryDoubao) {
-    try {
-      console.log('🔄 Trying Doubao Vision (fallback)...');
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Doubao Vision request timeout')), 60000);
-      });
-      const result = await Promise.race([
-        doubao.chatWithImage(prompt, cleanBase64, {
-          reasoningEffort: 'medium',
-          maxTokens: 2048,
-          timeoutMs: 60000,
-        }),
-        timeoutPromise,
-      ]);
-      const text = result.choices?.[0]?.message?.content;
-      if (!text) throw new Error('Empty response from Doubao Vision');
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) throw new Error('No JSON in Doubao Vision response');
-      const parsed = DoubaoProvider.parseJSONResponse(jsonMatch[0]);
-      console.log('✅ Doubao Vision analysis successful (fallback)');
-      return validateAnalysisResponse(parsed);
-    } catch (error: any) {
-      lastError = error;
-      if (provider === 'doubao') throw error;
-      if (error.message?.includes('timeout')) {
-        console.warn('❌ Doubao Vision analysis timeout');
-      } else if (error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ Doubao Vision skipped (API key issue)');
-      } else {
-        console.warn('❌ Doubao Vision analysis failed:', error.message);
-      }
+  try {
+    return await routeVisionJSON(prompt, cleanBase64, {
+      label: 'Scene',
+      preference: preferredModel,
+      schema: analyzeImageSchema,
+      maxTokens: 2048,
+      temperature: 0.7,
+    });
+  } catch (error: any) {
+    if (error instanceof AIOutputValidationError) throw error;
+    const errorMsg = error?.message || 'All AI providers failed';
+    if (errorMsg.includes('timeout')) {
+      throw new Error('Image analysis timeout. Please check your internet connection and try again.');
+    } else if (errorMsg.includes('fetch failed') || errorMsg.includes('Connection error') || errorMsg.includes('network error')) {
+      throw new Error('Network connection failed. Please check your internet connection and try again.');
+    } else if (errorMsg.includes('API key')) {
+      throw new Error('AI service configuration error. Please contact support.');
+    } else {
+      throw new Error('Unable to analyze image. Please try again or use a different image.');
     }
   }
-
-  const errorMsg = lastError?.message || 'All AI providers failed';
-  if (errorMsg.includes('timeout')) {
-    throw new Error('Image analysis timeout. Please check your internet connection and try again.');
-  } else if (errorMsg.includes('fetch failed') || errorMsg.includes('Connection error') || errorMsg.includes('network error')) {
-    throw new Error('Network connection failed. Please check your internet connection and try again.');
-  } else if (errorMsg.includes('API key')) {
-    throw new Error('AI service configuration error. Please contact support.');
-  } else {
-    throw new Error('Unable to analyze image. Please try again or use a different image.');
-  }
 }
 
 /**
@@ -285,54 +143,14 @@ Return JSON:
 async function transcribeAudio(
   base64Audio: string
 ): Promise<string> {
-  // Extract base64 data (remove data URL prefix if present)
-  const base64Data = base64Audio.includes(',') 
-    ? base64Audio.split(',')[1] 
-    : base64Audio;
-
-  // Try OpenAI Whisper
-  if (openai) {
-    try {
-      console.log('🔄 Transcribing audio with OpenAI Whisper...');
-      const audioBuffer = Buffer.from(base64Data, 'base64');
-      
-      // Create a File object from the buffer for OpenAI SDK
-      // File is available in Node.js 18+ and modern browsers
-      let file: File | Blob;
-      try {
-        file = new File([audioBuffer], 'audio.webm', { 
-          type: 'audio/webm' 
-        });
-      } catch {
-        // Fallback to Blob if File is not available
-        file = new Blob([audioBuffer], { type: 'audio/webm' });
-      }
-      
-      const transcription = await openai.audio.transcriptions.create({
-        file: file as any,
-        model: 'whisper-1',
-        language: 'en',
-      });
-
-      const text = transcription.text.trim();
-      if (text) {
-        console.log('✅ OpenAI Whisper transcription successful:', text);
-        return text;
-      }
-    } catch (error: any) {
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ OpenAI Whisper skipped (API key issue)');
-      } else {
-        console.warn('❌ OpenAI Whisper transcription failed:', error.message);
-        // Continue to fallback - don't throw, let analyzeAudio handle it
-      }
-    }
+  try {
+    const { data } = await routeTranscription(base64Audio, { label: 'Transcription' });
+    return data;
+  } catch (error: any) {
+    // Cannot transcribe; analyzeAudio falls back to a generic scenario prompt
+    console.warn('⚠️ Audio transcription unavailable:', error.message);
+    return '';
   }
-
-  // Fallback: Cannot transcribe, return empty string
-  // The analyzeAudio function will handle this gracefully
-  console.warn('⚠️ Audio transcription unavailable');
-  return '';
 }
 
 /**
@@ -343,10 +161,9 @@ export async function analyzeAudio(
   level: UserLevel,
   location?: { lat: number; lng: number },
   mode: PracticeMode = 'Daily',
-  preferredModel?: AiModelPreference
+  preferredModel: AiModelPreference = 'auto'
 ): Promise<AnalyzeImageResponse> {
   ensureProviderAvailable();
-  const provider: string = (preferredModel && preferredModel !== 'auto') ? preferredModel : (AI_PROVIDER || 'auto');
   const now = new Date();
   const timeStr = now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   const dayPart =
@@ -415,81 +232,25 @@ Return JSON:
 }
   `;
 
-  let lastError: any = null;
-  const tryDoubaoA = (provider === 'doubao' || provider === 'auto') && doubao;
-  const tryGeminiA = (provider === 'gemini' || provider === 'auto') && gemini;
-  const tryOpenAIA = (provider === 'openai' || provider === 'auto') && openai;
-
-  if (tryDoubaoA) {
-    try {
-      console.log('🔥 Trying Doubao audio analysis...');
-      const response = await doubao!.chat([
+  try {
+    const { data } = await routeJSON(
+      [
         { role: 'system', content: 'You are a scenario generator. Always return valid JSON.' },
         { role: 'user', content: prompt },
-      ], {
+      ],
+      {
+        label: 'Audio Scene',
+        preference: preferredModel,
+        schema: analyzeImageSchema,
         maxTokens: 4000,
         temperature: 0.8,
-      });
-      const text = response.choices[0]?.message?.content;
-      if (!text) throw new Error('Empty response from Doubao');
-      const parsed = DoubaoProvider.parseJSONResponse(text);
-      console.log('✅ Doubao audio analysis successful');
-      return validateAnalysisResponse(parsed);
-    } catch (error: any) {
-      lastError = error;
-      if (provider === 'doubao') throw error;
-      console.warn('❌ Doubao audio analysis failed:', error.message);
-    }
-  }
-
-  if (tryGeminiA) {
-    try {
-      console.log('🔄 Trying Gemini audio analysis...');
-      const model = gemini.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      const result = await model.generateContent(prompt);
-      const text = result.response.text();
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) throw new Error('No JSON found');
-      console.log('✅ Gemini audio analysis successful');
-      return validateAnalysisResponse(JSON.parse(jsonMatch[0]));
-    } catch (error: any) {
-      lastError = error;
-      if (provider === 'gemini') throw error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ Gemini skipped (API key issue)');
-      } else {
-        console.warn('❌ Gemini audio analysis failed:', error.message);
       }
-    }
-  }
-
-  if (tryOpenAIA) {
-    try {
-      console.log('🔄 Trying OpenAI audio analysis...');
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'You are a scenario generator. Always return valid JSON.' },
-          { role: 'user', content: prompt },
-        ],
-        response_format: { type: 'json_object' },
-      });
-      const text = response.choices[0]?.message?.content;
-      if (!text) throw new Error('Empty response from OpenAI');
-      console.log('✅ OpenAI audio analysis successful');
-      return validateAnalysisResponse(JSON.parse(text));
-    } catch (error: any) {
-      lastError = error;
-      if (provider === 'openai') throw error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ OpenAI skipped (API key issue)');
-      } else {
-        console.warn('❌ OpenAI audio analysis failed:', error.message);
-      }
-    }
+    );
+    return data;
+  } catch (error: any) {
+    console.warn('⚠️ All AI providers failed, using fallback scenario:', error.message);
   }
 
-  console.warn('⚠️ All AI providers failed, using fallback scenario');
   return {
     location: transcribedText || 'Practice Location',
     situation: transcribedText 
@@ -505,22 +266,50 @@ Return JSON:
   };
 }
 
+export interface DialogueStreamHandlers {
+  /** Newly generated characters of `next_response`. */
+  onToken: (text: string) => void;
+  /** The answering provider changed mid-reply; drop the tokens shown so far. */
+  onReset: () => void;
+  /** Aborted when the client disconnects. */
+  signal?: AbortSignal;
+}
+
 /**
- * Continue dialogue conversation
+ * Continue dialogue conversation.
+ * `goals` is the checklist so far; the model re-judges each goal and `is_finished` follows from
+ * all of them being achieved. With `stream`, `next_response` is forwarded token by token before
+ * the full reply resolves.
  */
 export async function continueDialogue(
   history: Array<{ role: string; text: string }>,
   userText: string,
   scenarioContext: string,
-  level: UserLevel
-): Promise<DialogueResponse> {
+  goals: GoalProgress[],
+  level: UserLevel,
+  preferredModel: AiModelPreference = 'auto',
+  stream?: DialogueStreamHandlers
+): Promise<RouteResult<DialogueResponse>> {
   ensureProviderAvailable();
+  const goalBlock = goals.length
+    ? `
+✅ GOAL TRACKING:
+Scenario goals with their status before the student's latest message:
+${goals.map((g, i) => `${i + 1}. [${g.status}] ${g.goal}`).join('\n')}
+
+After the student's latest message and your reply, judge every goal again:
+- "achieved": the conversation clearly shows it done; quote the line that proves it as evidence
+- "in_progress": started but not finished (e.g. asked about it, details still missing)
+- "not_started": not touched yet
+- Never move an achieved goal back; return the goals in the same order with the same wording
+`
+    : '';
   const systemPrompt = `
 You are an English conversation tutor conducting a roleplay dialogue exercise.
 
 📍 SCENARIO CONTEXT & GOAL:
 ${scenarioContext}
-
+${goalBlock}
 🎯 YOUR ROLE & BEHAVIOR:
 CRITICAL: Check the context above to understand your role correctly:
 - If context says "wait for student's question" or "respond to inquiries": Student leads, YOU respond helpfully
@@ -556,21 +345,25 @@ Scoring guide:
 - End when the scenario goal is naturally achieved
 - Provide actionable, specific suggestions
 
-Return JSON:
+Return JSON (write "next_response" first):
 {
+  "next_response": "Your character's natural reply that advances the scenario",
   "feedback": {
     "score": 0-100,
     "comment": "Overall assessment of their response",
     "grammar": "Grammar analysis - point out errors and explain corrections (empty string if perfect)",
     "native_expression": "How a native speaker would naturally express the same idea"
   },
-  "next_response": "Your character's natural reply that advances the scenario",
   "next_hints": ["Suggestion that moves towards goal", "Alternative that progresses conversation", "Option that addresses next step"],
+  "goals": [
+    { "goal": "Goal text exactly as listed", "status": "not_started | in_progress | achieved", "evidence": "Short quote from the conversation (empty if not started)" }
+  ],
   "is_finished": false
 }
+${goals.length ? '"is_finished" is true only when every goal is achieved.' : 'Return "goals": [] (no goals to track).'}
   `;
 
-  const messages: DoubaoMessage[] = [
+  const messages: ChatMessage[] = [
     { role: 'system', content: systemPrompt },
     ...history.map((h) => ({
       role: (h.role === 'model' ? 'assistant' : 'user') as 'assistant' | 'user',
@@ -579,153 +372,240 @@ Return JSON:
     { role: 'user', content: userText },
   ];
 
-  let lastError: any = null;
-
-  // Try Doubao (priority 1)
-  if ((AI_PROVIDER === 'doubao' || AI_PROVIDER === 'auto') && doubao) {
-    try {
-      console.log('🔥 Trying Doubao dialogue...');
-      const response = await doubao.chat(messages, {
-        maxTokens: 3000, // Prevent response truncation
-        temperature: 0.7,
-      });
-      const text = response.choices[0]?.message?.content;
-      if (!text) {
-        throw new Error('Empty response from Doubao');
-      }
-      
-      console.log('📝 Doubao response received, length:', text.length);
-      const parsed = DoubaoProvider.parseJSONResponse(text);
-      console.log('✅ Doubao JSON parsed successfully');
-      return validateDialogueResponse(parsed);
-    } catch (error: any) {
-      lastError = error;
-      console.warn('❌ Doubao dialogue failed:', error.message);
-      if (error.stack) {
-        console.warn('Stack trace:', error.stack);
-      }
-    }
+  const options = {
+    label: 'Dialogue',
+    preference: preferredModel,
+    schema: dialogueSchema,
+    maxTokens: 3000, // Prevent response truncation
+    temperature: 0.7,
+    signal: stream?.signal,
+  };
+  // The model's verdict is merged into the goals it was sent, so goals can't regress or go missing
+  const withGoals = ({ data, provider }: RouteResult<DialogueResponse>): RouteResult<DialogueResponse> => {
+    if (goals.length === 0) return { data: { ...data, goals: [] }, provider };
+    const merged = mergeGoalProgress(goals, data.goals);
+    return { data: { ...data, goals: merged, is_finished: allGoalsAchieved(merged) }, provider };
+  };
+  if (!stream) {
+    return withGoals(await routeJSON(messages, options));
   }
 
-  // Try Gemini (priority 2)
-  if ((AI_PROVIDER === 'gemini' || AI_PROVIDER === 'auto') && gemini) {
-    try {
-      console.log('🔄 Trying Gemini dialogue...');
-      const model = gemini.getGenerativeModel({ 
-        model: 'gemini-2.5-flash',
-        generationConfig: { responseMimeType: 'application/json' },
-        systemInstruction: systemPrompt,
-      });
-
-      // Build conversation history for Gemini
-      // Gemini requires alternating user/model messages, starting with user
-      const geminiHistory: Array<{ role: 'user' | 'model'; parts: Array<{ text: string }> }> = [];
-      
-      // Process history, ensuring proper alternation
-      for (const h of history) {
-        const role = h.role === 'model' ? 'model' : 'user';
-        
-        // Skip consecutive same roles (shouldn't happen, but be defensive)
-        if (geminiHistory.length > 0 && geminiHistory[geminiHistory.length - 1].role === role) {
-          console.warn('⚠️ Skipping duplicate role in history:', role);
-          continue;
-        }
-        
-        geminiHistory.push({
-          role,
-          parts: [{ text: h.text }],
-        });
-      }
-      
-      // If history exists and doesn't start with user, we need to handle it
-      // If history is empty or starts with model, we'll use generateContent instead
-      if (geminiHistory.length === 0 || geminiHistory[0].role === 'user') {
-        // Use startChat when history is valid
-        const chat = model.startChat({
-          history: geminiHistory,
-        });
-        
-        const result = await chat.sendMessage(userText);
-        const text = result.response.text();
-        
-        // Parse JSON response
-        let parsed;
-        try {
-          parsed = JSON.parse(text);
-        } catch {
-          const jsonMatch = text.match(/\{[\s\S]*\}/);
-          if (!jsonMatch) throw new Error('No JSON found in response');
-          parsed = JSON.parse(jsonMatch[0]);
-        }
-        
-        return validateDialogueResponse(parsed);
-      } else {
-        // History starts with model - use generateContent with full context
-        const conversationText = [
-          systemPrompt,
-          ...geminiHistory.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.parts[0].text}`),
-          `User: ${userText}`,
-        ].join('\n\n');
-        
-        const result = await model.generateContent(conversationText);
-        const text = result.response.text();
-        
-        let parsed;
-        try {
-          parsed = JSON.parse(text);
-        } catch {
-          const jsonMatch = text.match(/\{[\s\S]*\}/);
-          if (!jsonMatch) throw new Error('No JSON found in response');
-          parsed = JSON.parse(jsonMatch[0]);
-        }
-        
-        return validateDialogueResponse(parsed);
-      }
-    } catch (error: any) {
-      lastError = error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ Gemini skipped (API key issue)');
-      } else {
-        console.warn('❌ Gemini dialogue failed:', error.message);
-        if (error.stack) {
-          console.warn('Stack trace:', error.stack);
-        }
-      }
+  let extractReply = createJSONFieldStreamer('next_response');
+  const result = await routeJSONStream(messages, options, {
+    onDelta: (chunk) => {
+      const text = extractReply(chunk);
+      if (text) stream.onToken(text);
+    },
+    onReset: () => {
+      extractReply = createJSONFieldStreamer('next_response');
+      stream.onReset();
+    },
+  });
+  return withGoals(result);
+}
+
+/**
+ * Score a turn the learner already spoke in a Gemini Live call: the same feedback and goal verdict as
+ * continueDialogue, without a reply (Live answered by voice). `history` ends before the learner's turn.
+ */
+export async function scoreDialogueTurn(
+  history: Array<{ role: string; text: string }>,
+  userText: string,
+  scenarioContext: string,
+  goals: GoalProgress[],
+  level: UserLevel,
+  preferredModel: AiModelPreference = 'auto'
+): Promise<RouteResult<DialogueTurnScore>> {
+  ensureProviderAvailable();
+  const transcript = history
+    .map((h) => `${h.role === 'model' ? 'Partner' : 'Student'}: ${h.text}`)
+    .join('\n');
+  const prompt = `
+A ${level} English learner is in a spoken roleplay.
+
+📍 SCENARIO CONTEXT & GOAL:
+${scenarioContext}
+${
+  goals.length
+    ? `
+✅ GOALS (status before the student's latest turn):
+${goals.map((g, i) => `${i + 1}. [${g.status}] ${g.goal}`).join('\n')}
+`
+    : ''
+}
+💬 CONVERSATION SO FAR:
+${transcript || '(no earlier turns)'}
+
+🎤 STUDENT'S LATEST TURN (speech transcript — ignore missing punctuation and capitalization):
+"${userText}"
+
+Evaluate the latest turn on:
+1. **Grammar** - Identify errors and explain corrections
+2. **Natural Expression** - Show how a native speaker would say it
+3. **Scenario Progress** - How well it moves towards the goal (0-100 score)
+
+Scoring guide:
+- 0-30: Off-topic or grammatically poor, not progressing
+- 31-60: On-topic but needs improvement, slight progress
+- 61-85: Good response, clear progress towards goal
+- 86-100: Excellent, significant progress or goal achieved
+${
+  goals.length
+    ? `
+Judge every goal again after this turn: "achieved" (quote the line that proves it as evidence),
+"in_progress" or "not_started". Never move an achieved goal back; keep the same order and wording.
+`
+    : ''
+}
+Return JSON:
+{
+  "feedback": {
+    "score": 0-100,
+    "comment": "Overall assessment of the turn",
+    "grammar": "Grammar analysis - point out errors and explain corrections (empty string if perfect)",
+    "native_expression": "How a native speaker would naturally express the same idea"
+  },
+  "goals": [
+    { "goal": "Goal text exactly as listed", "status": "not_started | in_progress | achieved", "evidence": "Short quote (empty if not started)" }
+  ]
+}
+${goals.length ? '' : 'Return "goals": [] (no goals to track).'}
+`;
+
+  const { data, provider } = await routeJSON(
+    [
+      { role: 'system', content: 'You are an English conversation tutor giving feedback on a spoken roleplay. Always return valid JSON.' },
+      { role: 'user', content: prompt },
+    ],
+    {
+      label: 'Dialogue Score',
+      preference: preferredModel,
+      schema: dialogueTurnScoreSchema,
+      maxTokens: 1500,
+      temperature: 0.3,
     }
-  }
+  );
+  return { data: { ...data, goals: goals.length ? mergeGoalProgress(goals, data.goals) : [] }, provider };
+}
 
-  // Try OpenAI (priority 3 - fallback)
-  if ((AI_PROVIDER === 'openai' || AI_PROVIDER === 'auto') && openai) {
-    try {
-      console.log('🔄 Trying OpenAI dialogue...');
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages,
-        response_format: { type: 'json_object' },
-      });
-      const text = response.choices[0]?.message?.content;
-      if (!text) throw new Error('Empty response from OpenAI');
-      console.log('✅ OpenAI dialogue successful');
-      return validateDialogueResponse(JSON.parse(text));
-    } catch (error: any) {
-      lastError = error;
-      if (error.message?.includes('API key') || error.message?.includes('401') || error.message?.includes('403')) {
-        console.log('ℹ️ OpenAI skipped (API key issue)');
-      } else {
-        console.warn('❌ OpenAI dialogue failed:', error.message);
-      }
+/**
+ * End-of-dialogue analysis: the learner's grammar errors classified by type and the vocabulary the
+ * scenario called for. Scores, rewrites and goals come from the turns themselves (lib/utils/dialogueReport).
+ */
+export async function generateDialogueReport(
+  scenarioContext: string,
+  goals: string[],
+  turns: Array<{ text: string; grammar?: string }>,
+  level: UserLevel,
+  preferredModel: AiModelPreference = 'auto'
+): Promise<RouteResult<DialogueReportAnalysis>> {
+  const prompt = `
+A ${level} English learner just finished this roleplay:
+Scenario: ${scenarioContext}
+${goals.length ? `Goals: ${goals.join('; ')}\n` : ''}
+The learner's turns, with the tutor's grammar notes:
+${turns
+  .map((t, i) => `Turn ${i + 1}: "${t.text}"${t.grammar ? `\nTutor note: ${t.grammar}` : ''}`)
+  .join('\n')}
+
+Tasks:
+1. List every grammar error in the learner's turns. Give each a short type label (e.g. "Verb tense",
+   "Articles", "Prepositions", "Subject-verb agreement", "Word order", "Plurals"), the wrong fragment
+   and its correction. Reuse the same label for the same kind of error.
+2. List 6-10 words or short phrases a fluent speaker would naturally use in this scenario
+   (target vocabulary), lowercase.
+3. Write a 2-sentence encouraging summary of how the learner did.
+
+Return JSON:
+{
+  "summary": "2-sentence summary",
+  "grammar_errors": [{ "type": "Verb tense", "original": "I go yesterday", "correction": "I went yesterday" }],
+  "target_vocabulary": ["reservation", "check in"]
+}
+`;
+
+  return routeJSON(
+    [
+      { role: 'system', content: 'You are an English tutor reviewing a practice conversation. Always return valid JSON.' },
+      { role: 'user', content: prompt },
+    ],
+    {
+      label: 'Dialogue Report',
+      preference: preferredModel,
+      schema: dialogueReportSchema,
+      maxTokens: 2000,
+      temperature: 0.3,
     }
-  }
+  );
+}
 
-  throw new Error(lastError?.message || 'All AI providers failed');
+/**
+ * Regenerate a scenario's opening line, hints and role behaviour one CEFR step harder or easier,
+ * based on how the learner did in past attempts. `targetDifficulty` is decided by the caller.
+ */
+export async function adaptScenarioDifficulty(
+  scenario: Pick<Scenario, 'location' | 'situation' | 'role_name' | 'context' | 'goals' | 'difficulty'>,
+  summary: ScenarioAttemptSummary,
+  direction: DifficultyDirection,
+  targetDifficulty: string,
+  level: UserLevel,
+  preferredModel: AiModelPreference = 'auto'
+): Promise<RouteResult<ScenarioAdaptation>> {
+  const approach =
+    direction === 'harder'
+      ? `Make it HARDER: add one realistic complication the learner must handle (e.g. the item is out of stock,
+a misunderstanding about the order, a delay, a wrong booking). Speak at natural native speed, use idioms
+and phrasal verbs, give less guidance and ask open questions.`
+      : `Make it EASIER: speak slowly in short, simple sentences, use common words, offer choices
+("Would you like A or B?"), check understanding, rephrase when the learner struggles and never add complications.`;
+
+  const prompt = `
+A ${level} English learner wants to retry this roleplay ${direction === 'harder' ? 'at a harder' : 'at an easier'} level.
+
+Scenario: ${scenario.location} - ${scenario.situation}
+Your role: ${scenario.role_name}
+Context: ${scenario.context}
+${scenario.goals?.length ? `Goals: ${scenario.goals.join('; ')}\n` : ''}Current difficulty: ${scenario.difficulty}
+Target difficulty: ${targetDifficulty} (CEFR)
+Direction: ${direction}
+
+Past attempts: ${summary.attempts}, average score ${summary.averageScore}, recent scores ${summary.recentScores.join(', ') || 'none'}
+${summary.recurringErrors.length ? `Recurring grammar errors: ${summary.recurringErrors.join(', ')}\n` : ''}${summary.missedGoals.length ? `Goals missed last time: ${summary.missedGoals.join('; ')}\n` : ''}
+${approach}
+Keep the same place, role and goals. If the learner keeps making the errors above, create moments that practise them.
+
+Return JSON:
+{
+  "difficulty": "${targetDifficulty}",
+  "first_line": "Your opening line at the new difficulty",
+  "user_hints": ["3 possible learner replies at ${targetDifficulty}"],
+  "role_behavior": "2-4 sentences telling the roleplay AI how to behave this time (pace, vocabulary, complication to introduce)"
+}
+`;
+
+  const result = await routeJSON(
+    [
+      { role: 'system', content: 'You design English roleplay practice. Always return valid JSON.' },
+      { role: 'user', content: prompt },
+    ],
+    {
+      label: 'Scenario Adapt',
+      preference: preferredModel,
+      schema: scenarioAdaptationSchema,
+      maxTokens: 1500,
+      temperature: 0.8,
+    }
+  );
+  return { ...result, data: { ...result.data, difficulty: targetDifficulty } };
 }
 
 /**
  * Process diary entry
  */
-export async function processDiaryEntry(
-  diaryText: string
-): Promise<DiaryProcessResult> {
+export function processDiaryEntry(
+  diaryText: string,
+  preferredModel: AiModelPreference = 'auto'
+): Promise<RouteResult<DiaryProcessResult>> {
   const prompt = `
 Analyze this English learner's diary entry:
 "${diaryText}"
@@ -762,131 +642,48 @@ Return JSON:
 }
   `;
 
-  // Try providers with fallback
-  let lastError: any = null;
-
-  if ((AI_PROVIDER === 'doubao' || AI_PROVIDER === 'auto') && doubao) {
-    try {
-      const response = await doubao.chat([
-        { role: 'system', content: 'You are an English learning assistant. Return valid JSON.' },
-        { role: 'user', content: prompt },
-      ], {
-        maxTokens: 2000, // Flashcards need moderate token limit
-        temperature: 0.7,
-      });
-      const text = response.choices[0]?.message?.content;
-      if (!text) throw new Error('Empty response');
-      return DoubaoProvider.parseJSONResponse(text);
-    } catch (error: any) {
-      lastError = error;
-      console.warn('❌ Doubao diary processing failed:', error.message);
+  return routeJSON(
+    [
+      { role: 'system', content: 'You are an English learning assistant. Return valid JSON.' },
+      { role: 'user', content: prompt },
+    ],
+    {
+      label: 'Diary Process',
+      preference: preferredModel,
+      schema: diaryProcessSchema,
+      maxTokens: 2000, // Flashcards need moderate token limit
+      temperature: 0.7,
     }
-  }
-
-  // Fallback to OpenAI/Gemini...
-  throw new Error(lastError?.message || 'Diary processing failed');
-}
-
-// Validation helpers
-function validateAnalysisResponse(data: any): AnalyzeImageResponse {
-  return {
-    location: data?.location || 'Unknown Place',
-    situation: data?.situation || 'General conversation',
-    difficulty: data?.difficulty || 'A1',
-    role_name: data?.role_name || 'Partner',
-    context: data?.context || 'Be friendly and helpful',
-    goals: Array.isArray(data?.goals) ? data.goals : undefined,
-    completion_phrase: data?.completion_phrase || undefined,
-    first_line: data?.first_line || 'Hello! How can I help you?',
-    user_hints: Array.isArray(data?.user_hints)
-      ? data.user_hints
-      : ['Hello', 'Help me', 'Goodbye'],
-  };
-}
-
-function validateDialogueResponse(data: any): DialogueResponse {
-  return {
-    feedback: {
-      score: typeof data?.feedback?.score === 'number' ? data.feedback.score : 50,
-      comment: data?.feedback?.comment || 'Keep going!',
-      grammar: data?.feedback?.grammar || '',
-      native_expression: data?.feedback?.native_expression || '',
-      correction: data?.feedback?.correction,
-      better_alternative: data?.feedback?.better_alternative,
-    },
-    next_response: data?.next_response || 'Could you repeat that?',
-    next_hints: Array.isArray(data?.next_hints)
-      ? data.next_hints
-      : ['Continue', 'Ask more'],
-    is_finished: !!data?.is_finished,
-  };
+  );
 }
 
 /**
  * Helper functions for text operations
  */
-export async function translateText(text: string): Promise<string> {
+export function translateText(
+  text: string,
+  preferredModel: AiModelPreference = 'auto'
+): Promise<RouteResult<string>> {
   const prompt = `Translate to Chinese (Simplified): "${text}"`;
 
-  try {
-    // Try Doubao (priority 1)
-    if (doubao) {
-      const response = await doubao.chat([{ role: 'user', content: prompt }], {
-        maxTokens: 1000, // Translation should be concise
-        temperature: 0.3,
-      });
-      return response.choices[0]?.message?.content || 'Translation failed';
-    }
-    // Try Gemini (priority 2)
-    if (gemini) {
-      const model = gemini.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      const result = await model.generateContent(prompt);
-      return result.response.text();
-    }
-    // Try OpenAI (priority 3 - fallback)
-    if (openai) {
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [{ role: 'user', content: prompt }],
-      });
-      return response.choices[0]?.message?.content || 'Translation failed';
-    }
-  } catch (error) {
-    console.error('Translation error:', error);
-  }
-
-  return 'Translation unavailable';
+  return routeChat([{ role: 'user', content: prompt }], {
+    label: 'Translate',
+    preference: preferredModel,
+    maxTokens: 1000, // Translation should be concise
+    temperature: 0.3,
+  });
 }
 
-export async function optimizeText(text: string): Promise<string> {
+export function optimizeText(
+  text: string,
+  preferredModel: AiModelPreference = 'auto'
+): Promise<RouteResult<string>> {
   const prompt = `Make this English more natural and native: "${text}"`;
 
-  try {
-    // Try Doubao (priority 1)
-    if (doubao) {
-      const response = await doubao.chat([{ role: 'user', content: prompt }], {
-        maxTokens: 1000, // Optimization should be concise
-        temperature: 0.7,
-      });
-      return response.choices[0]?.message?.content || text;
-    }
-    // Try Gemini (priority 2)
-    if (gemini) {
-      const model = gemini.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      const result = await model.generateContent(prompt);
-      return result.response.text();
-    }
-    // Try OpenAI (priority 3 - fallback)
-    if (openai) {
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [{ role: 'user', content: prompt }],
-      });
-      return response.choices[0]?.message?.content || text;
-    }
-  } catch (error) {
-    console.error('Optimization error:', error);
-  }
-
-  return text;
+  return routeChat([{ role: 'user', content: prompt }], {
+    label: 'Optimize',
+    preference: preferredModel,
+    maxTokens: 1000, // Optimization should be concise
+    temperature: 0.7,
+  });
 }
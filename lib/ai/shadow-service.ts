@@ -1,41 +1,54 @@
 /**
  * Shadow Reading (影子跟读) AI service.
- * Uses @google/genai for daily challenge, TTS, and accent analysis.
- * Doubao is used as fallback for challenge text when Gemini times out or is unavailable.
+ * Uses @google/genai for document extraction, TTS, and accent analysis.
+ * Challenge text goes through the provider router (Gemini first, Doubao fallback).
+ * With the local provider enabled, TTS and analysis fall back to its offline stand-ins.
  */
 
-import { GoogleGenAI, Modality, ThinkingLevel, createPartFromUri, createUserContent } from '@google/genai';
-import { DoubaoProvider } from './doubao';
+import { Modality, ThinkingLevel, createPartFromUri, createUserContent } from '@google/genai';
+import { getGenAIClient, getLocalStandIn, routeJSON } from './provider-router';
+import { parseStructured, s, shadowAnalysisSchema, type Schema } from './schemas';
 import type {
   UserLevel,
   PracticeMode,
   ShadowDailyChallenge,
   ShadowAnalysisResult,
+  ShadowAcousticMetrics,
+  SpeechPace,
+  VoicePreference,
 } from '@/lib/types';
+import { DEFAULT_SHADOW_VOICE, getVoiceOption } from '@/lib/constants/voices';
 import { addWavHeader, arrayBufferToBase64, base64ToUint8Array } from '@/lib/utils/shadowAudio';
-
-const apiKey = process.env.NEXT_PUBLIC_GEMINI_API_KEY || process.env.GEMINI_API_KEY;
-const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
-
-const doubaoConfig = {
-  apiKey: process.env.NEXT_DOUBAO_API_KEY || '',
-  endpoint: process.env.NEXT_DOUBAO_CHAT_ENDPOINT || '',
-  model: process.env.NEXT_DOUBAO_CHAT_MODEL || '',
-};
-const doubao =
-  doubaoConfig.apiKey && doubaoConfig.endpoint && doubaoConfig.model
-    ? new DoubaoProvider(doubaoConfig)
-    : null;
-
-function parseJSON(text: string): Record<string, unknown> {
-  try {
-    const cleanText = text.replace(/```json\n?|\n?```/g, '').trim();
-    return JSON.parse(cleanText) as Record<string, unknown>;
-  } catch (e) {
-    console.error('Shadow: Failed to parse JSON', e);
-    throw new Error('Invalid response format from AI');
-  }
-}
+import { describeAcousticMetrics } from '@/lib/utils/shadowAcoustics';
+
+const ai = getGenAIClient();
+const localStandIn = getLocalStandIn();
+
+/** Extra attempts when the analysis reply does not match ShadowAnalysisResult. */
+const ANALYSIS_RETRIES = 1;
+
+const challengeSchema: Schema<{ topic?: string; text: string }> = s.object(
+  { topic: s.loose(s.string()), text: s.string() },
+  'ShadowDailyChallenge'
+);
+
+const recommendedVideosSchema: Schema<{ videos: Partial<RecommendedVideo>[] }> = s.object(
+  {
+    videos: s.withDefault(
+      s.array(
+        s.object({
+          url: s.loose(s.string()),
+          videoId: s.loose(s.string()),
+          title: s.loose(s.string()),
+          summary: s.withDefault(s.string({ allowEmpty: true }), ''),
+          relevanceScore: s.loose(s.number()),
+        })
+      ),
+      []
+    ),
+  },
+  'RecommendedVideos'
+);
 
 export interface ShadowSourceFile {
   uri: string;
@@ -46,14 +59,9 @@ export interface ShadowSourceFile {
 export async function generateDailyChallenge(
   level: UserLevel,
   mode: PracticeMode = 'Daily',
-  sourceFile?: ShadowSourceFile | null
+  sourceFile?: ShadowSourceFile | null,
+  focusWords: string[] = []
 ): Promise<ShadowDailyChallenge> {
-  if (!ai && !doubao) {
-    throw new Error(
-      'No AI provider configured for Shadow. Set NEXT_PUBLIC_GEMINI_API_KEY or Doubao env vars (NEXT_DOUBAO_API_KEY, NEXT_DOUBAO_CHAT_ENDPOINT, NEXT_DOUBAO_CHAT_MODEL).'
-    );
-  }
-
   // IELTS + uploaded file: extract 3 sentences from document (Gemini only)
   if (mode === 'IELTS' && sourceFile?.uri && ai) {
     const mimeType = sourceFile.mimeType || 'application/pdf';
@@ -76,11 +84,9 @@ Rules:
       });
       const text = response.text;
       if (text) {
-        const data = parseJSON(text) as { topic?: string; text?: string };
-        const topic = data?.topic ?? sourceFile.displayName ?? 'Reading excerpt';
-        const textContent = data?.text ?? '';
-        if (!textContent) throw new Error('No text extracted from document');
-        return { topic, text: textContent, sourceUrl: '' };
+        const data = parseStructured(text, challengeSchema);
+        const topic = data.topic ?? sourceFile.displayName ?? 'Reading excerpt';
+        return { topic, text: data.text, sourceUrl: '' };
       }
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : String(err);
@@ -169,13 +175,22 @@ IMPORTANT - Avoid these overused topics:
 - Seasonal activities and cultural practices
 `;
 
+  // Targeted practice: the learner's recurring problem words from their shadow history
+  const focusInstructions = focusWords.length
+    ? `
+TARGETED PRACTICE:
+The learner keeps mispronouncing the words below. Use at least ${Math.min(focusWords.length, 4)} of them naturally in the passage (exact spelling, any order), and pick a scenario where they fit.
+Focus words: ${focusWords.join(', ')}
+`
+    : '';
+
   const prompt = `
 You are creating a short, FRESH reading passage for an English learner. Your goal is VARIETY and AUTHENTICITY.
 
 Practice Mode: ${mode}
 
 ${modeInstructions}
-
+${focusInstructions}
 DIVERSITY RULES:
 - Generate UNIQUE content each time - avoid repetitive topics
 - Choose ONE specific scenario and explore it vividly
@@ -194,69 +209,51 @@ Output strictly valid JSON only (no markdown, no explanation):
 Remember: Be CREATIVE. Surprise the learner with interesting, varied content!
   `;
 
-  // Try Gemini first
-  if (ai) {
-    try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: { 
-          thinkingConfig: {
-            thinkingLevel: ThinkingLevel.LOW // Fast generation for simple 3-sentence text
-          },
-          temperature: 0.9, // Higher temperature for more creative, diverse outputs
-          httpOptions: { timeout: 60000 } 
-        },
-      });
-      const text = response.text;
-      if (text) {
-        const data = parseJSON(text) as { topic: string; text: string };
-        return { topic: data.topic, text: data.text, sourceUrl: '' };
-      }
-    } catch (err: unknown) {
-      const msg = err instanceof Error ? err.message : String(err);
-      console.warn('❌ Shadow challenge Gemini failed (trying Doubao fallback):', msg);
+  const { data } = await routeJSON(
+    [{ role: 'user', content: prompt }],
+    {
+      label: 'Shadow Challenge',
+      schema: challengeSchema,
+      order: ['gemini', 'doubao', 'local'],
+      models: { gemini: 'gemini-3-flash-preview' },
+      temperature: 0.9, // Higher temperature for more creative, diverse outputs
+      maxTokens: 512,
     }
-  }
+  );
+  return { topic: data.topic ?? 'Passage', text: data.text, sourceUrl: '' };
+}
 
-  // Doubao fallback when Gemini times out or is unavailable
-  if (doubao) {
-    try {
-      console.log('🔄 Shadow challenge using Doubao fallback...');
-      const response = await doubao.chat(
-        [{ role: 'user', content: prompt }],
-        { temperature: 0.9, maxTokens: 512 } // Higher temperature for diversity
-      );
-      const text = response.choices?.[0]?.message?.content;
-      if (!text) throw new Error('Empty response from Doubao');
-      const parsed = DoubaoProvider.parseJSONResponse(text) as { topic?: string; text?: string };
-      const topic = parsed?.topic ?? 'Passage';
-      const textContent = parsed?.text ?? '';
-      if (!textContent) throw new Error('No text in Doubao response');
-      console.log('✅ Shadow challenge Doubao fallback successful');
-      return { topic, text: textContent, sourceUrl: '' };
-    } catch (err: unknown) {
-      const msg = err instanceof Error ? err.message : String(err);
-      console.warn('❌ Shadow challenge Doubao fallback failed:', msg);
-      throw new Error(
-        'Failed to generate Shadow challenge. Gemini and Doubao both failed. Please check your network and API keys.'
-      );
-    }
-  }
+const PACE_DIRECTIONS: Record<SpeechPace, string> = {
+  slow: 'slowly and clearly, with short pauses between phrases, as for a language learner',
+  normal: 'at a natural conversational pace',
+  fast: 'briskly, at a fast but natural native-speaker pace',
+};
 
-  throw new Error('No AI provider available for Shadow challenge.');
+/**
+ * TTS input for a voice choice. Gemini voices have no fixed accent, so accent and pace are
+ * requested in natural language; the default American/normal reading sends the bare text.
+ */
+function buildSpeechPrompt(text: string, accent: string, pace: SpeechPace): string {
+  if (accent === 'American' && pace === 'normal') return text;
+  return `Read the following text aloud in a ${accent} English accent, ${PACE_DIRECTIONS[pace]}. Read only the text itself:\n\n${text}`;
 }
 
-/** Default voice for shadow; use 'Puck' for American male (e.g. textbook). */
+/** Reference audio in the chosen voice/accent/pace (shadow default: American female). */
 export async function generateReferenceAudio(
   text: string,
-  voiceName: string = 'Kore'
+  voice: VoicePreference = DEFAULT_SHADOW_VOICE
 ): Promise<{ base64: string }> {
+  if (localStandIn) {
+    const wavBuffer = addWavHeader(localStandIn.synthesizeSpeech(text, voice.pace), 24000);
+    return { base64: await arrayBufferToBase64(wavBuffer) };
+  }
   if (!ai) throw new Error('Gemini API key not configured');
 
+  const option = getVoiceOption(voice.voiceId) ?? getVoiceOption(DEFAULT_SHADOW_VOICE.voiceId)!;
+  const voiceName = option.voiceName;
   const response = await ai.models.generateContent({
     model: 'gemini-2.5-flash-preview-tts',
-    contents: [{ parts: [{ text }] }],
+    contents: [{ parts: [{ text: buildSpeechPrompt(text, option.accent, voice.pace) }] }],
     config: {
       responseModalities: [Modality.AUDIO],
       speechConfig: {
@@ -282,8 +279,10 @@ export async function analyzeShadowReading(
   userAudioBase64: string,
   userMimeType: string,
   referenceAudioBase64: string,
-  referenceText: string
+  referenceText: string,
+  metrics?: ShadowAcousticMetrics
 ): Promise<ShadowAnalysisResult> {
+  if (localStandIn) return localStandIn.analyzeShadowReading(referenceText, userAudioBase64, metrics);
   if (!ai) throw new Error('Gemini API key not configured');
 
   const cleanMimeType = userMimeType.split(';')[0].trim();
@@ -296,6 +295,7 @@ export async function analyzeShadowReading(
     1. Listen to both "Reference Audio" (Native Speaker) and "User Audio" (Student).
     2. Compare pronunciation, intonation, and rhythm. Be strict.
     3. Analyze EACH word's pronunciation quality.
+    4. For EACH word, give the time (in seconds) where it starts and ends in BOTH audios.
     
     Output strictly valid JSON (no markdown) with this structure:
     {
@@ -304,7 +304,9 @@ export async function analyzeShadowReading(
           "word": "string", 
           "status": "good"|"average"|"poor", 
           "issue": "string (brief explanation of the problem)",
-          "phonetic": "string (IPA notation if needed)"
+          "phonetic": "string (IPA notation if needed)",
+          "refStartTime": number, "refEndTime": number,
+          "userStartTime": number, "userEndTime": number
         }
       ],
       "score": number (0-100),
@@ -317,17 +319,20 @@ export async function analyzeShadowReading(
       "suggestions": "string (actionable improvement tips)"
     }
     
-    IMPORTANT: Focus on pronunciation accuracy, clarity, and naturalness. Be encouraging but precise.
-    
-    /* PERFORMANCE NOTE: Timestamp analysis temporarily disabled for speed optimization.
-     * Original task included: "estimate the time position (in seconds) where each word appears in BOTH audios"
-     * Original fields: refStartTime, refEndTime, userStartTime, userEndTime
-     * This can be re-enabled in the future if needed for advanced word-by-word playback features.
-     */
+    IMPORTANT: Focus on pronunciation accuracy, clarity, and naturalness. Be encouraging but precise.${
+      metrics
+        ? `
+
+    Objective measurements (from signal analysis; trust these over your impression and
+    cite them in "fluency" and "intonation"):
+    ${describeAcousticMetrics(metrics)}`
+        : ''
+    }
+    Timestamps may be approximate; omit them rather than guess wildly (the client re-aligns missing ones locally).
   `;
 
   // Note: Use gemini-3-flash-preview for stable audio analysis; 60s timeout
-  const response = await ai.models.generateContent({
+  const request = {
     model: 'gemini-3-flash-preview',
     contents: [
       {
@@ -347,12 +352,19 @@ export async function analyzeShadowReading(
       },
       httpOptions: { timeout: 60000 } 
     },
-  });
-
-  const responseText = response.text;
-  if (!responseText) throw new Error('Analysis failed');
+  };
 
-  return parseJSON(responseText) as unknown as ShadowAnalysisResult;
+  // Re-ask on a malformed reply; the audio is the expensive part, so retry rather than repair
+  for (let attempt = 0; ; attempt++) {
+    const response = await ai.models.generateContent(request);
+    try {
+      return parseStructured(response.text ?? '', shadowAnalysisSchema);
+    } catch (error: unknown) {
+      if (attempt >= ANALYSIS_RETRIES) throw error;
+      const msg = error instanceof Error ? error.message : String(error);
+      console.warn('⚠️ Shadow analysis response invalid, retrying:', msg);
+    }
+  }
 }
 
 export interface RecommendedVideo {
@@ -451,15 +463,14 @@ If cannot find 3 videos, return fewer but never return empty array.
       return [];
     }
 
-    const data = parseJSON(text) as unknown as { videos?: RecommendedVideo[] };
-    const videos = data.videos || [];
+    const { videos } = parseStructured(text, recommendedVideosSchema);
     
     // Validate and filter invalid videos
-    const validVideos = videos.filter(v => 
-      v.url && 
-      v.videoId && 
+    const validVideos = videos.filter((v): v is RecommendedVideo => 
+      !!v.url && 
+      !!v.videoId && 
       v.videoId.length === 11 && // YouTube video IDs are always 11 characters
-      v.title &&
+      !!v.title &&
       (v.relevanceScore || 0) > 0
     );
 
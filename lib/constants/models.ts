@@ -0,0 +1,10 @@
+import type { AiModelPreference } from '@/lib/types';
+
+export const MODEL_PREFERENCES: AiModelPreference[] = ['auto', 'gemini', 'openai', 'doubao'];
+
+/** Narrow an untrusted request field to a model preference ('auto' when missing or unknown). */
+export function parseModelPreference(value: unknown): AiModelPreference {
+  return MODEL_PREFERENCES.includes(value as AiModelPreference)
+    ? (value as AiModelPreference)
+    : 'auto';
+}
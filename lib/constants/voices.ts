@@ -0,0 +1,48 @@
+import type { SpeechPace, VoiceAccent, VoicePreference } from '@/lib/types';
+
+export interface VoiceOption {
+  id: string;
+  label: string;
+  accent: VoiceAccent;
+  gender: 'male' | 'female';
+  /** Gemini prebuilt TTS voice; the accent itself is requested in the TTS prompt. */
+  voiceName: string;
+}
+
+export const VOICE_OPTIONS: VoiceOption[] = [
+  { id: 'us-female', label: 'American · Female', accent: 'American', gender: 'female', voiceName: 'Kore' },
+  { id: 'us-male', label: 'American · Male', accent: 'American', gender: 'male', voiceName: 'Puck' },
+  { id: 'gb-female', label: 'British · Female', accent: 'British', gender: 'female', voiceName: 'Aoede' },
+  { id: 'gb-male', label: 'British · Male', accent: 'British', gender: 'male', voiceName: 'Charon' },
+  { id: 'au-female', label: 'Australian · Female', accent: 'Australian', gender: 'female', voiceName: 'Leda' },
+  { id: 'au-male', label: 'Australian · Male', accent: 'Australian', gender: 'male', voiceName: 'Fenrir' },
+];
+
+export const PACE_OPTIONS: { value: SpeechPace; label: string }[] = [
+  { value: 'slow', label: 'Slow' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'fast', label: 'Fast' },
+];
+
+/** Shadow challenges have always used Kore, textbook lessons Puck. */
+export const DEFAULT_SHADOW_VOICE: VoicePreference = { voiceId: 'us-female', pace: 'normal' };
+export const DEFAULT_TEXTBOOK_VOICE: VoicePreference = { voiceId: 'us-male', pace: 'normal' };
+
+export function getVoiceOption(voiceId: string): VoiceOption | undefined {
+  return VOICE_OPTIONS.find((v) => v.id === voiceId);
+}
+
+/** Validate a voice choice from a request body or storage; unknown values fall back. */
+export function parseVoicePreference(value: unknown, fallback: VoicePreference): VoicePreference {
+  const v = value && typeof value === 'object' ? (value as Partial<VoicePreference>) : {};
+  return {
+    voiceId: typeof v.voiceId === 'string' && getVoiceOption(v.voiceId) ? v.voiceId : fallback.voiceId,
+    pace: PACE_OPTIONS.some((p) => p.value === v.pace) ? (v.pace as SpeechPace) : fallback.pace,
+  };
+}
+
+export function describeVoice(voice: VoicePreference): string {
+  const option = getVoiceOption(voice.voiceId);
+  const pace = voice.pace === 'normal' ? '' : ` · ${PACE_OPTIONS.find((p) => p.value === voice.pace)?.label}`;
+  return `${option?.label ?? voice.voiceId}${pace}`;
+}
@@ -7,92 +7,102 @@ import React, {
   useEffect,
   useState,
 } from 'react';
+import type { User as SupabaseUser } from '@supabase/supabase-js';
+import { supabase, requireSupabase } from '@/lib/supabase/client';
 import type { AuthContextType, User, Profile } from '@/lib/types/auth';
 
-const AUTH_SESSION_KEY = 'speaksnap_auth_session';
-
-function getStoredSession(): { user: User; profile: Profile } | null {
-  if (typeof window === 'undefined') return null;
-  try {
-    const raw = localStorage.getItem(AUTH_SESSION_KEY);
-    if (!raw) return null;
-    return JSON.parse(raw) as { user: User; profile: Profile };
-  } catch {
-    return null;
-  }
-}
-
-function clearStoredSession(): void {
-  if (typeof window === 'undefined') return;
-  localStorage.removeItem(AUTH_SESSION_KEY);
+function toUser(u: SupabaseUser): User {
+  return {
+    id: u.id,
+    email: u.email || '',
+    created_at: u.created_at,
+    updated_at: u.updated_at || u.created_at,
+  };
 }
 
-function saveSession(user: User, profile: Profile): void {
-  if (typeof window === 'undefined') return;
-  localStorage.setItem(AUTH_SESSION_KEY, JSON.stringify({ user, profile }));
+/** Profile fields live in Supabase user metadata; the username defaults to the email prefix. */
+function toProfile(u: SupabaseUser): Profile {
+  const meta = u.user_metadata || {};
+  const emailName = (u.email || 'user').split('@')[0];
+  return {
+    id: u.id,
+    username: meta.username || emailName,
+    display_name: meta.display_name || meta.full_name || emailName,
+    avatar_url: meta.avatar_url ?? null,
+    level: typeof meta.level === 'number' ? meta.level : 1,
+    experience: typeof meta.experience === 'number' ? meta.experience : 0,
+    created_at: u.created_at,
+    updated_at: u.updated_at || u.created_at,
+  };
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const MOCK_USER: User = {
-  id: 'mock-user-id',
-  email: 'user@speaksnap.demo',
-  created_at: new Date().toISOString(),
-  updated_at: new Date().toISOString(),
-};
-
-const MOCK_PROFILE: Profile = {
-  id: MOCK_USER.id,
-  username: 'speaksnap_user',
-  display_name: 'SpeakSnap User',
-  avatar_url: null,
-  level: 1,
-  experience: 0,
-  created_at: MOCK_USER.created_at,
-  updated_at: MOCK_USER.updated_at,
-};
-
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  const applySession = useCallback((supabaseUser: SupabaseUser | null) => {
+    setUser(supabaseUser ? toUser(supabaseUser) : null);
+    setProfile(supabaseUser ? toProfile(supabaseUser) : null);
+  }, []);
+
   const refreshUser = useCallback(async () => {
-    const session = getStoredSession();
-    if (session) {
-      setUser(session.user);
-      setProfile(session.profile);
-    } else {
-      setUser(null);
-      setProfile(null);
+    if (!supabase) {
+      setLoading(false);
+      return;
     }
-    setLoading(false);
-    setError(null);
-  }, []);
+    try {
+      const { data, error: refreshError } = await supabase.auth.refreshSession();
+      if (refreshError) throw refreshError;
+      applySession(data.session?.user ?? null);
+      setError(null);
+    } catch (e) {
+      applySession(null);
+      setError(e instanceof Error ? e.message : 'Session refresh failed');
+    } finally {
+      setLoading(false);
+    }
+  }, [applySession]);
 
   useEffect(() => {
-    refreshUser();
-  }, [refreshUser]);
+    // Without Supabase the app is local-only: nobody is signed in
+    if (!supabase) {
+      setLoading(false);
+      return;
+    }
 
-  const signIn = useCallback(async (email: string, _password?: string) => {
+    supabase.auth.getSession().then(({ data }) => {
+      applySession(data.session?.user ?? null);
+      setLoading(false);
+    });
+
+    // Sign-in, sign-out, token refresh and magic-link redirects all land here
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      applySession(session?.user ?? null);
+      setLoading(false);
+    });
+    return () => subscription.unsubscribe();
+  }, [applySession]);
+
+  /** With a password: email/password sign-in. Without: send a magic link. */
+  const signIn = useCallback(async (email: string, password?: string) => {
     setLoading(true);
     setError(null);
     try {
-      const u: User = {
-        ...MOCK_USER,
-        email: email || MOCK_USER.email,
-        updated_at: new Date().toISOString(),
-      };
-      const p: Profile = {
-        ...MOCK_PROFILE,
-        display_name: email ? email.split('@')[0] : MOCK_PROFILE.display_name,
-        username: email ? email.split('@')[0] : MOCK_PROFILE.username,
-        updated_at: new Date().toISOString(),
-      };
-      saveSession(u, p);
-      setUser(u);
-      setProfile(p);
+      const client = requireSupabase();
+      if (password) {
+        const { error: signInError } = await client.auth.signInWithPassword({ email, password });
+        if (signInError) throw signInError;
+      } else {
+        const { error: otpError } = await client.auth.signInWithOtp({
+          email,
+          options: { emailRedirectTo: window.location.origin },
+        });
+        if (otpError) throw otpError;
+      }
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Sign in failed');
       throw e;
@@ -101,17 +111,37 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
+  const signUp = useCallback(async (email: string, password: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { error: signUpError } = await requireSupabase().auth.signUp({
+        email,
+        password,
+        options: { emailRedirectTo: window.location.origin },
+      });
+      if (signUpError) throw signUpError;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Sign up failed');
+      throw e;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
   const signOut = useCallback(async () => {
     setLoading(true);
     try {
-      clearStoredSession();
-      setUser(null);
-      setProfile(null);
+      if (supabase) {
+        const { error: signOutError } = await supabase.auth.signOut();
+        if (signOutError) throw signOutError;
+      }
+      applySession(null);
       setError(null);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [applySession]);
 
   const value: AuthContextType = {
     user,
@@ -119,6 +149,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     loading,
     error,
     signIn,
+    signUp,
     signOut,
     refreshUser,
   };
@@ -0,0 +1,94 @@
+'use client';
+
+import React, {
+  createContext,
+  useContext,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import { useAuth } from '@/lib/contexts/auth-context';
+import { isSupabaseConfigured } from '@/lib/supabase/client';
+import { getLastSyncedAt, syncAll } from '@/lib/supabase/sync';
+
+/** Background sync cadence while the app is open (plus on focus / reconnect). */
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+export type SyncStatus = 'disabled' | 'idle' | 'syncing' | 'error';
+
+export interface SyncContextType {
+  status: SyncStatus;
+  lastSyncedAt: number | null;
+  error: string | null;
+  syncNow: () => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export function SyncProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [status, setStatus] = useState<SyncStatus>('disabled');
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const userRef = useRef(user);
+  userRef.current = user;
+
+  const syncNow = useCallback(async () => {
+    const current = userRef.current;
+    if (!isSupabaseConfigured || !current) return;
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+    setStatus('syncing');
+    try {
+      await syncAll(current);
+      setLastSyncedAt(await getLastSyncedAt(current.id));
+      setError(null);
+      setStatus('idle');
+    } catch (e) {
+      console.error('Sync error:', e);
+      setError(e instanceof Error ? e.message : 'Sync failed');
+      setStatus('error');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isSupabaseConfigured || !userId) {
+      setStatus('disabled');
+      setLastSyncedAt(null);
+      setError(null);
+      return;
+    }
+
+    getLastSyncedAt(userId).then(setLastSyncedAt);
+    syncNow();
+
+    const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+    const handleFocus = () => syncNow();
+    window.addEventListener('focus', handleFocus);
+    window.addEventListener('online', handleFocus);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('focus', handleFocus);
+      window.removeEventListener('online', handleFocus);
+    };
+  }, [userId, syncNow]);
+
+  const value: SyncContextType = {
+    status,
+    lastSyncedAt,
+    error,
+    syncNow,
+  };
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
+}
+
+export function useSync(): SyncContextType {
+  const ctx = useContext(SyncContext);
+  if (ctx === undefined) {
+    throw new Error('useSync must be used within SyncProvider');
+  }
+  return ctx;
+}
@@ -1,6 +1,6 @@
 /**
- * Auth hooks for SpeakSnap v3 – used by UserAvatar and UserSidebar.
- * No page protection; redirectToAuth is optional (e.g. future /auth page).
+ * Auth hooks for SpeakSnap v3 – used by UserAvatar, UserSidebar and the /auth page.
+ * No page protection; redirectToAuth sends the user to /auth and back afterwards.
  */
 
 import { useRouter } from 'next/navigation';
@@ -19,13 +19,13 @@ export function useAuthState(): UseAuthReturn {
 }
 
 export function useAuthActions() {
-  const { signIn, signOut, refreshUser } = useAuth();
-  return { signIn, signOut, refreshUser };
+  const { signIn, signUp, signOut, refreshUser } = useAuth();
+  return { signIn, signUp, signOut, refreshUser };
 }
 
 /**
- * Optional guard: redirectToAuth() can push to /auth when implemented.
- * For now, callers may use it to open sidebar or trigger demo login.
+ * Optional guard: redirectToAuth() pushes to /auth, which returns to the
+ * stored path after signing in.
  */
 export function useAuthGuard() {
   const { isAuthenticated, loading, user } = useAuthState();
@@ -3,9 +3,10 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
 import { createPcmBlob, decode, decodeAudioData } from '../utils/audioUtils';
+import { apiFetch } from '../utils/api';
+import type { LiveToken } from '../types';
 
 interface UseGeminiLiveOptions {
-  apiKey: string;
   systemInstruction?: string;
   voiceName?: string;
   languageCode?: string; // e.g., 'en-US', 'zh-CN'
@@ -28,6 +29,14 @@ interface UseGeminiLiveReturn {
   stopLiveSession: () => void;
 }
 
+/** Single-use Live token from our server; the Gemini API key never reaches the browser. */
+async function fetchLiveToken(): Promise<LiveToken> {
+  const res = await apiFetch('/api/live/token', { method: 'POST' });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || 'Failed to start a live session');
+  return data as LiveToken;
+}
+
 /**
  * Gemini Multimodal Live API Hook
  * 使用官方 @google/genai SDK 实现低延迟实时语音交互
@@ -39,7 +48,6 @@ interface UseGeminiLiveReturn {
  * - 指定语言代码以提高性能
  */
 export function useGeminiLive({
-  apiKey,
   systemInstruction = "You are a helpful, concise AI assistant. You answer briefly and clearly.",
   voiceName = 'Kore',
   languageCode = 'en-US',
@@ -133,15 +141,13 @@ export function useGeminiLive({
 
   const startLiveSession = useCallback(async () => {
     if (isActive || connectionState === 'connecting') return;
-    
-    if (!apiKey) {
-      onError?.("Gemini API Key is missing");
-      return;
-    }
 
     setConnectionState('connecting');
 
     try {
+      // 0. Fetch a single-use session token (before asking for the microphone)
+      const { token, model } = await fetchLiveToken();
+
       // 1. Initialize Audio Contexts
       const InputContextClass = (window.AudioContext || (window as any).webkitAudioContext);
       const inputCtx = new InputContextClass({ sampleRate: 16000 });
@@ -175,11 +181,12 @@ export function useGeminiLive({
       processor.connect(inputCtx.destination); // Required for script processor to run
 
       // 6. Initialize Gemini Client
-      const ai = new GoogleGenAI({ apiKey });
+      // Ephemeral tokens only work against the v1alpha API
+      const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
       
       // 7. Connect to Live API
       const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+        model,
         callbacks: {
           onopen: () => {
             console.log('Gemini Live Session Opened');
@@ -329,7 +336,6 @@ export function useGeminiLive({
   }, [
     isActive, 
     connectionState, 
-    apiKey, 
     systemInstruction, 
     voiceName, 
     languageCode,
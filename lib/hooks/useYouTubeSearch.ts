@@ -5,6 +5,7 @@
 
 import { useState, useEffect } from 'react';
 import { getCachedSearch, setCachedSearch } from '@/lib/youtube/cache';
+import { apiFetch } from '@/lib/utils/api';
 
 export interface YouTubeVideo {
   videoId: string;
@@ -68,7 +69,7 @@ export function useYouTubeSearch(
         }
 
         // Fetch from API
-        const response = await fetch(
+        const response = await apiFetch(
           `/api/youtube/search?q=${encodeURIComponent(query)}`,
           { signal: abortController.signal }
         );
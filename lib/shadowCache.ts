@@ -1,105 +1,244 @@
 /**
- * Simple in-memory cache for shadow reading challenges.
- * Prefetch when user enters Library, reuse when ShadowReadingScreen mounts.
+ * Shadow challenge pool – challenges and their reference WAVs persisted in IndexedDB per
+ * level/mode, so reloads and offline sessions don't regenerate text and TTS.
+ * A few unused challenges are refilled in the background (prefetch when user enters Library);
+ * used ones are kept (last POOL_SIZE) so learners can redo them, with or without network.
  */
 
-import type { UserLevel, PracticeMode } from './types';
+import type { UserLevel, PracticeMode, VoicePreference } from './types';
+import { apiFetch } from '@/lib/utils/api';
+import { storage } from '@/lib/utils/storage';
+import { DEFAULT_SHADOW_VOICE } from '@/lib/constants/voices';
 
-interface CachedChallenge {
+/** Pool index entry; the WAV lives under its own key so the index stays small. */
+export interface PooledChallengeInfo {
+  id: string;
   topic: string;
   text: string;
   sourceUrl?: string;
-  refAudioBase64: string;
-  timestamp: number;
   level: UserLevel;
   mode: PracticeMode;
+  voice: VoicePreference;
+  createdAt: number;
+  /** Set when served to the learner; unused entries are the ready queue. */
+  usedAt?: number;
 }
 
-let cache: CachedChallenge | null = null;
-let inFlightRequest: Promise<CachedChallenge> | null = null;
+export interface PooledChallenge extends PooledChallengeInfo {
+  refAudioBase64: string;
+}
 
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const INDEX_PREFIX = 'shadow_pool_';
+const AUDIO_PREFIX = 'shadow_pool_audio_';
+const POOL_SIZE = 10; // used challenges kept per level/mode for redo
+const READY_TARGET = 2; // unused challenges kept ready per level/mode/voice
 
-/**
- * Check if cached challenge is valid for the given level and mode
- */
-function isCacheValid(level: UserLevel, mode: PracticeMode): boolean {
-  if (!cache) return false;
-  if (cache.level !== level || cache.mode !== mode) return false;
-  if (Date.now() - cache.timestamp > CACHE_TTL) return false;
-  return true;
+/** Running refills per pool (level/mode/voice), so one pool's refill never blocks another's. */
+const inFlightRefills = new Map<string, Promise<void>>();
+let indexLock: Promise<unknown> = Promise.resolve();
+
+function indexKey(level: UserLevel, mode: PracticeMode): string {
+  return `${INDEX_PREFIX}${level}_${mode}`;
+}
+
+function voiceKey(voice: VoicePreference): string {
+  return `${voice.voiceId}_${voice.pace}`;
+}
+
+function poolKey(level: UserLevel, mode: PracticeMode, voice: VoicePreference): string {
+  return `${level}_${mode}_${voiceKey(voice)}`;
+}
+
+function sameVoice(a: VoicePreference, b: VoicePreference): boolean {
+  return voiceKey(a) === voiceKey(b);
+}
+
+/** Read-modify-write of a pool index, serialized so refill and take can't overwrite each other. */
+function updateIndex<T>(
+  level: UserLevel,
+  mode: PracticeMode,
+  fn: (list: PooledChallengeInfo[]) => Promise<{ list: PooledChallengeInfo[]; result: T }>
+): Promise<T> {
+  const run = indexLock.then(async () => {
+    const key = indexKey(level, mode);
+    const saved = await storage.getItem<PooledChallengeInfo[]>(key, false);
+    const { list, result } = await fn(Array.isArray(saved) ? saved : []);
+    await storage.setItem(key, list);
+    return result;
+  });
+  indexLock = run.catch(() => {});
+  return run;
+}
+
+/** Keep the newest POOL_SIZE used entries and each voice's ready queue; drop the rest with their audio. */
+async function trim(list: PooledChallengeInfo[]): Promise<PooledChallengeInfo[]> {
+  const used = list.filter((c) => c.usedAt).sort((a, b) => b.usedAt! - a.usedAt!);
+  const readyByVoice = new Map<string, PooledChallengeInfo[]>();
+  for (const c of list) {
+    if (c.usedAt) continue;
+    const key = voiceKey(c.voice);
+    readyByVoice.set(key, [...(readyByVoice.get(key) ?? []), c]);
+  }
+  const ready = Array.from(readyByVoice.values()).flatMap((queue) =>
+    queue.sort((a, b) => a.createdAt - b.createdAt).slice(0, READY_TARGET)
+  );
+  const keep = [...used.slice(0, POOL_SIZE), ...ready];
+  const keepIds = new Set(keep.map((c) => c.id));
+  for (const c of list) {
+    if (!keepIds.has(c.id)) await storage.removeItem(`${AUDIO_PREFIX}${c.id}`);
+  }
+  return keep;
+}
+
+async function addToPool(
+  challenge: { topic: string; text: string; sourceUrl?: string; refAudioBase64: string },
+  level: UserLevel,
+  mode: PracticeMode,
+  voice: VoicePreference,
+  used: boolean
+): Promise<PooledChallenge> {
+  const now = Date.now();
+  const entry: PooledChallenge = {
+    id: `challenge_${now}_${Math.random().toString(36).slice(2, 9)}`,
+    topic: challenge.topic,
+    text: challenge.text,
+    sourceUrl: challenge.sourceUrl,
+    level,
+    mode,
+    voice,
+    createdAt: now,
+    ...(used ? { usedAt: now } : {}),
+    refAudioBase64: challenge.refAudioBase64,
+  };
+  await storage.setItem(`${AUDIO_PREFIX}${entry.id}`, entry.refAudioBase64);
+  await updateIndex(level, mode, async (list) => {
+    const { refAudioBase64: _audio, ...info } = entry;
+    return { list: await trim([...list, info]), result: undefined };
+  });
+  return entry;
+}
+
+async function withAudio(info: PooledChallengeInfo): Promise<PooledChallenge | null> {
+  const refAudioBase64 = await storage.getItem<string>(`${AUDIO_PREFIX}${info.id}`, false);
+  return refAudioBase64 ? { ...info, refAudioBase64 } : null;
 }
 
 /**
- * Prefetch challenge for the given level and mode (fire and forget).
- * Called when user clicks Shadow tab in Library.
+ * Refill the ready queue for the given level, mode and voice (fire and forget).
+ * Skipped offline or while a refill for the same pool is already running.
  */
-export async function prefetchShadowChallenge(level: UserLevel, mode: PracticeMode = 'Daily'): Promise<void> {
-  // If already valid in cache or request in flight, skip
-  if (isCacheValid(level, mode) || inFlightRequest) return;
+export async function prefetchShadowChallenge(
+  level: UserLevel,
+  mode: PracticeMode = 'Daily',
+  voice: VoicePreference = DEFAULT_SHADOW_VOICE
+): Promise<void> {
+  const key = poolKey(level, mode, voice);
+  if (inFlightRefills.has(key)) return;
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
 
-  try {
+  const refill = (async () => {
+    const saved = await storage.getItem<PooledChallengeInfo[]>(indexKey(level, mode), false);
+    const ready = (saved ?? []).filter((c) => !c.usedAt && sameVoice(c.voice, voice)).length;
     const url =
       typeof window !== 'undefined'
         ? `${window.location.origin}/api/shadow/challenge`
         : '/api/shadow/challenge';
-    
-    const requestPromise = fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ level, mode }),
-    })
-      .then(async (res) => {
-        const data = await res.json();
-        if (!res.ok) throw new Error(data.error || 'Failed to load challenge');
-        return {
-          topic: data.topic,
-          text: data.text,
-          sourceUrl: data.sourceUrl,
-          refAudioBase64: data.refAudioBase64,
-          timestamp: Date.now(),
-          level,
-          mode,
-        } as CachedChallenge;
-      })
-      .then((result) => {
-        cache = result;
-        inFlightRequest = null;
-        return result;
-      })
-      .catch((e) => {
-        console.warn('Shadow prefetch failed:', e);
-        inFlightRequest = null;
-        throw e;
+
+    for (let i = ready; i < READY_TARGET; i++) {
+      const res = await apiFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ level, mode, voice }),
       });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load challenge');
+      await addToPool(data, level, mode, voice, false);
+      console.log(`🗂️ Shadow pool refilled: ${level}/${mode} (${i + 1}/${READY_TARGET} ready)`);
+    }
+  })();
+
+  const running = refill
+    .catch((e) => {
+      console.warn('Shadow prefetch failed:', e);
+    })
+    .finally(() => {
+      inFlightRefills.delete(key);
+    });
+  inFlightRefills.set(key, running);
+  await running;
+}
 
-    inFlightRequest = requestPromise;
-    await requestPromise;
+/** Serve the oldest ready challenge for this voice and mark it used; null when the queue is empty. */
+export async function takePooledChallenge(
+  level: UserLevel,
+  mode: PracticeMode = 'Daily',
+  voice: VoicePreference = DEFAULT_SHADOW_VOICE
+): Promise<PooledChallenge | null> {
+  const taken = await updateIndex(level, mode, async (list) => {
+    const ready = list
+      .filter((c) => !c.usedAt && sameVoice(c.voice, voice))
+      .sort((a, b) => a.createdAt - b.createdAt);
+    for (const info of ready) {
+      const challenge = await withAudio(info);
+      if (!challenge) continue;
+      const usedAt = Date.now();
+      return {
+        list: list.map((c) => (c.id === info.id ? { ...c, usedAt } : c)),
+        result: { ...challenge, usedAt },
+      };
+    }
+    return { list, result: null };
+  });
+  return taken;
+}
+
+/** Keep a challenge fetched directly (not from the queue) so it can be redone later; null if the write failed. */
+export async function savePlayedChallenge(
+  challenge: { topic: string; text: string; sourceUrl?: string; refAudioBase64: string },
+  level: UserLevel,
+  mode: PracticeMode,
+  voice: VoicePreference
+): Promise<PooledChallenge | null> {
+  try {
+    return await addToPool(challenge, level, mode, voice, true);
   } catch (e) {
-    // Silently fail for prefetch
+    console.warn('Shadow pool write failed:', e);
+    return null;
   }
 }
 
-/**
- * Get cached challenge if valid, or wait for in-flight request.
- * Returns null if no cache and no request.
- */
-export function getCachedChallenge(level: UserLevel, mode: PracticeMode = 'Daily'): CachedChallenge | null {
-  if (isCacheValid(level, mode)) return cache;
-  return null;
+/** Challenges already practised at this level/mode, most recent first. */
+export async function getRecentChallenges(level: UserLevel, mode: PracticeMode = 'Daily'): Promise<PooledChallengeInfo[]> {
+  const list = await storage.getItem<PooledChallengeInfo[]>(indexKey(level, mode), false);
+  if (!Array.isArray(list)) return [];
+  return list.filter((c) => c.usedAt).sort((a, b) => b.usedAt! - a.usedAt!);
 }
 
-/**
- * Get in-flight request promise if exists
- */
-export function getInFlightRequest(): Promise<CachedChallenge> | null {
-  return inFlightRequest;
+/** Load a past challenge with its audio for a redo (moves it to the top of the recent list). */
+export async function replayPooledChallenge(info: PooledChallengeInfo): Promise<PooledChallenge | null> {
+  return updateIndex(info.level, info.mode, async (list) => {
+    const challenge = await withAudio(info);
+    if (!challenge) return { list, result: null };
+    const usedAt = Date.now();
+    return {
+      list: list.map((c) => (c.id === info.id ? { ...c, usedAt } : c)),
+      result: { ...challenge, usedAt },
+    };
+  });
+}
+
+/** Reference WAV (base64) of a pooled challenge; null once it has been trimmed from the pool. */
+export async function getPooledChallengeAudio(id: string): Promise<string | null> {
+  return storage.getItem<string>(`${AUDIO_PREFIX}${id}`, false);
 }
 
 /**
- * Clear cache (e.g. on error or manual refresh)
+ * Get the running background refill for this level/mode/voice, if any
  */
-export function clearShadowCache(): void {
-  cache = null;
-  inFlightRequest = null;
+export function getInFlightRequest(
+  level: UserLevel,
+  mode: PracticeMode = 'Daily',
+  voice: VoicePreference = DEFAULT_SHADOW_VOICE
+): Promise<void> | null {
+  return inFlightRefills.get(poolKey(level, mode, voice)) ?? null;
 }
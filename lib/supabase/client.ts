@@ -4,23 +4,31 @@
 
 import { createClient } from '@supabase/supabase-js';
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables');
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+
+/** Supabase is optional: without it the app stays local-only (no sync, no uploads). */
+export const isSupabaseConfigured = !!(supabaseUrl && supabaseAnonKey);
+
+export const supabase = isSupabaseConfigured
+  ? createClient(supabaseUrl, supabaseAnonKey, {
+      auth: {
+        persistSession: true,
+        autoRefreshToken: true,
+      },
+    })
+  : null;
+
+export function requireSupabase() {
+  if (!supabase) {
+    throw new Error('Missing Supabase environment variables');
+  }
+  return supabase;
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    persistSession: true,
-    autoRefreshToken: true,
-  },
-});
-
 // Storage helpers
 export const uploadImage = async (file: Blob, path: string): Promise<string> => {
-  const { data, error } = await supabase.storage
+  const { data, error } = await requireSupabase().storage
     .from('scenarios')
     .upload(path, file, {
       cacheControl: '3600',
@@ -29,7 +37,7 @@ export const uploadImage = async (file: Blob, path: string): Promise<string> =>
 
   if (error) throw error;
 
-  const { data: { publicUrl } } = supabase.storage
+  const { data: { publicUrl } } = requireSupabase().storage
     .from('scenarios')
     .getPublicUrl(data.path);
 
@@ -40,6 +48,6 @@ export const deleteImage = async (url: string): Promise<void> => {
   const path = url.split('/scenarios/')[1];
   if (!path) return;
 
-  const { error } = await supabase.storage.from('scenarios').remove([path]);
+  const { error } = await requireSupabase().storage.from('scenarios').remove([path]);
   if (error) throw error;
 };
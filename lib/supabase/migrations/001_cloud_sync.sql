@@ -0,0 +1,87 @@
+-- SpeakSnap cloud sync migration
+-- For projects that already ran an older schema.sql: CREATE TABLE IF NOT EXISTS there leaves
+-- existing tables untouched, so run this once in the Supabase SQL Editor before the first sync.
+-- Safe to run more than once.
+
+-- Record ids are generated on the device (see lib/supabase/sync.ts), so they become TEXT.
+ALTER TABLE dialogue_records DROP CONSTRAINT IF EXISTS dialogue_records_scenario_id_fkey;
+
+ALTER TABLE scenarios ALTER COLUMN id DROP DEFAULT;
+ALTER TABLE scenarios ALTER COLUMN id TYPE TEXT USING id::text;
+ALTER TABLE dialogue_records ALTER COLUMN scenario_id TYPE TEXT USING scenario_id::text;
+ALTER TABLE dialogue_records
+  ADD CONSTRAINT dialogue_records_scenario_id_fkey
+  FOREIGN KEY (scenario_id) REFERENCES scenarios(id) ON DELETE CASCADE;
+
+ALTER TABLE flashcards ALTER COLUMN id DROP DEFAULT;
+ALTER TABLE flashcards ALTER COLUMN id TYPE TEXT USING id::text;
+
+ALTER TABLE diary_entries ALTER COLUMN id DROP DEFAULT;
+ALTER TABLE diary_entries ALTER COLUMN id TYPE TEXT USING id::text;
+
+-- Scenarios: generated details and the embedded dialogue history
+ALTER TABLE scenarios
+  ADD COLUMN IF NOT EXISTS goals TEXT[],
+  ADD COLUMN IF NOT EXISTS completion_phrase TEXT,
+  ADD COLUMN IF NOT EXISTS first_line TEXT,
+  ADD COLUMN IF NOT EXISTS user_hints TEXT[],
+  ADD COLUMN IF NOT EXISTS role_behavior TEXT,
+  ADD COLUMN IF NOT EXISTS dialogues JSONB NOT NULL DEFAULT '[]';
+
+-- Flashcards: spaced repetition state
+ALTER TABLE flashcards ADD COLUMN IF NOT EXISTS review JSONB;
+
+-- Diary entries: column names match the DiaryEntry fields
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_schema = 'public' AND table_name = 'diary_entries' AND column_name = 'original_text') THEN
+    ALTER TABLE diary_entries RENAME COLUMN original_text TO original;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_schema = 'public' AND table_name = 'diary_entries' AND column_name = 'optimized_text') THEN
+    ALTER TABLE diary_entries RENAME COLUMN optimized_text TO optimized;
+  END IF;
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_schema = 'public' AND table_name = 'diary_entries' AND column_name = 'upgraded_text') THEN
+    ALTER TABLE diary_entries RENAME COLUMN upgraded_text TO upgraded;
+  END IF;
+END $$;
+
+-- Shadow Reading History Table
+CREATE TABLE IF NOT EXISTS shadow_history (
+  id TEXT PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  challenge JSONB NOT NULL,
+  analysis JSONB NOT NULL,
+  ref_challenge_id TEXT,
+  timestamp BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE shadow_history ADD COLUMN IF NOT EXISTS ref_challenge_id TEXT;
+
+CREATE INDEX IF NOT EXISTS shadow_history_user_id_idx ON shadow_history(user_id);
+
+ALTER TABLE shadow_history ENABLE ROW LEVEL SECURITY;
+
+-- Shadow history policies
+DROP POLICY IF EXISTS "Users can view their own shadow history" ON shadow_history;
+CREATE POLICY "Users can view their own shadow history"
+  ON shadow_history FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own shadow history" ON shadow_history;
+CREATE POLICY "Users can insert their own shadow history"
+  ON shadow_history FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own shadow history" ON shadow_history;
+CREATE POLICY "Users can update their own shadow history"
+  ON shadow_history FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own shadow history" ON shadow_history;
+CREATE POLICY "Users can delete their own shadow history"
+  ON shadow_history FOR DELETE
+  USING (auth.uid() = user_id);
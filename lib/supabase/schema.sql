@@ -1,12 +1,15 @@
 -- SpeakSnap v3 Database Schema
 -- Run this in your Supabase SQL Editor
+-- Projects created before cloud sync: run migrations/001_cloud_sync.sql to upgrade existing tables
 
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- Record ids are generated on the device (see lib/supabase/sync.ts), so they are TEXT.
+
 -- Scenarios Table (with integrated dialogue stats)
 CREATE TABLE IF NOT EXISTS scenarios (
-  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  id TEXT PRIMARY KEY,
   user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
   image_url TEXT,
   location TEXT NOT NULL,
@@ -14,7 +17,13 @@ CREATE TABLE IF NOT EXISTS scenarios (
   difficulty TEXT NOT NULL,
   role_name TEXT NOT NULL,
   context TEXT NOT NULL,
+  goals TEXT[],
+  completion_phrase TEXT,
+  first_line TEXT,
+  user_hints TEXT[],
+  role_behavior TEXT,
   timestamp BIGINT NOT NULL,
+  dialogues JSONB NOT NULL DEFAULT '[]',
   total_attempts INTEGER DEFAULT 0,
   best_score INTEGER DEFAULT 0,
   last_practiced BIGINT NOT NULL,
@@ -24,7 +33,7 @@ CREATE TABLE IF NOT EXISTS scenarios (
 -- Dialogue Records Table (belongs to scenarios)
 CREATE TABLE IF NOT EXISTS dialogue_records (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  scenario_id UUID REFERENCES scenarios(id) ON DELETE CASCADE,
+  scenario_id TEXT REFERENCES scenarios(id) ON DELETE CASCADE,
   user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
   messages JSONB NOT NULL,
   timestamp BIGINT NOT NULL,
@@ -36,29 +45,41 @@ CREATE TABLE IF NOT EXISTS dialogue_records (
 
 -- Flashcards Table
 CREATE TABLE IF NOT EXISTS flashcards (
-  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  id TEXT PRIMARY KEY,
   user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
   front TEXT NOT NULL,
   back JSONB NOT NULL,
   image_url TEXT,
   context TEXT NOT NULL,
   source TEXT CHECK (source IN ('dialogue', 'diary')),
+  review JSONB,
   timestamp BIGINT NOT NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Diary Entries Table
 CREATE TABLE IF NOT EXISTS diary_entries (
-  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  id TEXT PRIMARY KEY,
   user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
-  original_text TEXT,
-  optimized_text TEXT,
-  upgraded_text TEXT,
+  original TEXT,
+  optimized TEXT,
+  upgraded TEXT,
   analysis_data JSONB,
   timestamp BIGINT NOT NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Shadow Reading History Table
+CREATE TABLE IF NOT EXISTS shadow_history (
+  id TEXT PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  challenge JSONB NOT NULL,
+  analysis JSONB NOT NULL,
+  ref_challenge_id TEXT,
+  timestamp BIGINT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Sentence Patterns Table
 CREATE TABLE IF NOT EXISTS sentence_patterns (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -90,6 +111,7 @@ CREATE INDEX IF NOT EXISTS flashcards_user_id_idx ON flashcards(user_id);
 CREATE INDEX IF NOT EXISTS flashcards_timestamp_idx ON flashcards(timestamp DESC);
 CREATE INDEX IF NOT EXISTS diary_entries_user_id_idx ON diary_entries(user_id);
 CREATE INDEX IF NOT EXISTS diary_entries_timestamp_idx ON diary_entries(timestamp DESC);
+CREATE INDEX IF NOT EXISTS shadow_history_user_id_idx ON shadow_history(user_id);
 CREATE INDEX IF NOT EXISTS sentence_patterns_user_id_idx ON sentence_patterns(user_id);
 
 -- Row Level Security (RLS) Policies
@@ -97,6 +119,7 @@ ALTER TABLE scenarios ENABLE ROW LEVEL SECURITY;
 ALTER TABLE dialogue_records ENABLE ROW LEVEL SECURITY;
 ALTER TABLE flashcards ENABLE ROW LEVEL SECURITY;
 ALTER TABLE diary_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shadow_history ENABLE ROW LEVEL SECURITY;
 ALTER TABLE sentence_patterns ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
 
@@ -168,6 +191,23 @@ CREATE POLICY "Users can delete their own diary entries"
   ON diary_entries FOR DELETE
   USING (auth.uid() = user_id);
 
+-- Shadow history policies
+CREATE POLICY "Users can view their own shadow history"
+  ON shadow_history FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own shadow history"
+  ON shadow_history FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own shadow history"
+  ON shadow_history FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own shadow history"
+  ON shadow_history FOR DELETE
+  USING (auth.uid() = user_id);
+
 -- Sentence patterns policies
 CREATE POLICY "Users can view their own sentence patterns"
   ON sentence_patterns FOR SELECT
@@ -0,0 +1,74 @@
+/**
+ * Server-side request authentication for API routes.
+ * Clients send the Supabase access token as `Authorization: Bearer <token>` (see apiFetch).
+ * Without Supabase configured the app runs in local-only mode and routes stay open.
+ */
+
+import { NextResponse } from 'next/server';
+import { createClient, type User as SupabaseUser } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+
+const serverClient =
+  supabaseUrl && supabaseAnonKey
+    ? createClient(supabaseUrl, supabaseAnonKey, {
+        auth: { persistSession: false, autoRefreshToken: false },
+      })
+    : null;
+
+/** Requests per user per minute across all API routes. */
+const RATE_LIMIT_PER_MINUTE = Number(process.env.API_RATE_LIMIT_PER_MINUTE) || 60;
+const RATE_WINDOW_MS = 60000;
+
+const rateWindows = new Map<string, { startedAt: number; count: number }>();
+
+function isRateLimited(userId: string): boolean {
+  const now = Date.now();
+  const current = rateWindows.get(userId);
+  if (!current || now - current.startedAt >= RATE_WINDOW_MS) {
+    rateWindows.set(userId, { startedAt: now, count: 1 });
+    return false;
+  }
+  current.count += 1;
+  return current.count > RATE_LIMIT_PER_MINUTE;
+}
+
+export type AuthResult =
+  | { user: SupabaseUser | null; response?: undefined }
+  | { user?: undefined; response: NextResponse };
+
+/**
+ * Resolve the signed-in user for an API request.
+ * Returns `response` (401/429) when the route must stop; `user` is null in local-only mode.
+ */
+export async function authenticateRequest(request: Request): Promise<AuthResult> {
+  if (!serverClient) {
+    return { user: null };
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+  if (!token) {
+    return { response: NextResponse.json({ error: 'Please sign in to continue.' }, { status: 401 }) };
+  }
+
+  const { data, error } = await serverClient.auth.getUser(token);
+  if (error || !data.user) {
+    return {
+      response: NextResponse.json({ error: 'Your session has expired. Please sign in again.' }, { status: 401 }),
+    };
+  }
+
+  if (isRateLimited(data.user.id)) {
+    console.warn(`⏳ Rate limit hit for user ${data.user.id}`);
+    return {
+      response: NextResponse.json(
+        { error: 'Too many requests. Please wait a moment and try again.' },
+        { status: 429, headers: { 'Retry-After': String(RATE_WINDOW_MS / 1000) } }
+      ),
+    };
+  }
+
+  return { user: data.user };
+}
@@ -0,0 +1,320 @@
+/**
+ * Cloud Sync (Supabase)
+ * Two-way sync between the localforage collections and the per-user tables in schema.sql.
+ * Records are merged one by one: the side with the newer version wins, ties go to the device.
+ * Deletions are detected against the ids seen at the last successful sync, so screens keep
+ * writing plain arrays to storage and never need to know about sync.
+ */
+
+import { requireSupabase } from './client';
+import { storage } from '@/lib/utils/storage';
+import type { User } from '@/lib/types/auth';
+import type { DiaryEntry, Flashcard, Scenario, ShadowHistoryEntry } from '@/lib/types';
+
+const SYNC_STATE_KEY = 'speakSnapSyncState';
+
+/** Fired on window after a sync changed local data; detail lists the storage keys. */
+export const SYNC_EVENT = 'speaksnap:synced';
+
+export interface SyncSummary {
+  pushed: number;
+  pulled: number;
+  deleted: number;
+  changedKeys: string[];
+}
+
+interface SyncState {
+  userId: string;
+  lastSyncedAt: number;
+  /** Storage key → record ids present after the last sync. */
+  ids: Record<string, string[]>;
+}
+
+type SyncRecord = { id: string; timestamp: number };
+
+interface Collection<T extends SyncRecord> {
+  storageKey: string;
+  table: string;
+  /** Last-modified time; falls back to `timestamp` for records that are never edited. */
+  version: (record: T) => number;
+  toRow: (record: T, userId: string) => Record<string, unknown>;
+  /** Only for columns whose name differs from the record field; defaults to copying non-null columns. */
+  fromRow?: (row: Record<string, unknown>) => T;
+}
+
+const scenarios: Collection<Scenario> = {
+  storageKey: 'speakSnapScenarios',
+  table: 'scenarios',
+  version: (s) =>
+    Math.max(s.timestamp, s.last_practiced || 0, ...(s.dialogues || []).map((d) => d.timestamp || 0)),
+  toRow: (s, userId) => ({
+    id: s.id,
+    user_id: userId,
+    image_url: s.image_url ?? null,
+    location: s.location ?? '',
+    situation: s.situation ?? '',
+    difficulty: s.difficulty ?? '',
+    role_name: s.role_name ?? '',
+    context: s.context ?? '',
+    goals: s.goals ?? null,
+    completion_phrase: s.completion_phrase ?? null,
+    first_line: s.first_line ?? null,
+    user_hints: s.user_hints ?? null,
+    role_behavior: s.role_behavior ?? null,
+    timestamp: s.timestamp,
+    dialogues: s.dialogues ?? [],
+    total_attempts: s.total_attempts ?? 0,
+    best_score: s.best_score ?? 0,
+    last_practiced: s.last_practiced ?? s.timestamp,
+  }),
+};
+
+const flashcards: Collection<Flashcard> = {
+  storageKey: 'speakSnapFlashcards',
+  table: 'flashcards',
+  version: (c) => Math.max(c.timestamp, c.review?.last_reviewed || 0),
+  toRow: (c, userId) => ({
+    id: c.id,
+    user_id: userId,
+    front: c.front,
+    back: c.back,
+    image_url: c.image_url ?? null,
+    context: c.context ?? '',
+    source: c.source ?? null,
+    review: c.review ?? null,
+    timestamp: c.timestamp,
+  }),
+};
+
+const diary: Collection<DiaryEntry> = {
+  storageKey: 'speakSnapDiary',
+  table: 'diary_entries',
+  version: (d) => d.timestamp,
+  toRow: (d, userId) => ({
+    id: d.id,
+    user_id: userId,
+    original: d.original ?? null,
+    optimized: d.optimized ?? null,
+    upgraded: d.upgraded ?? null,
+    analysis_data: d.analysis_data ?? null,
+    timestamp: d.timestamp,
+  }),
+};
+
+const shadowHistory: Collection<ShadowHistoryEntry> = {
+  storageKey: 'shadow_history',
+  table: 'shadow_history',
+  version: (e) => e.timestamp,
+  toRow: (e, userId) => ({
+    id: e.id,
+    user_id: userId,
+    challenge: e.challenge,
+    analysis: e.analysis,
+    ref_challenge_id: e.refChallengeId ?? null,
+    timestamp: e.timestamp,
+  }),
+  fromRow: (row) => {
+    const { ref_challenge_id, ...entry } = fromRow<ShadowHistoryEntry & { ref_challenge_id?: string }>(row);
+    return ref_challenge_id ? { ...entry, refChallengeId: ref_challenge_id } : entry;
+  },
+};
+
+const COLLECTIONS = [scenarios, flashcards, diary, shadowHistory] as Collection<any>[];
+
+/** Last-modified time of a stored record; used for conflict resolution by sync and archive import. */
+export function getRecordVersion(storageKey: string, record: SyncRecord): number {
+  const collection = COLLECTIONS.find((c) => c.storageKey === storageKey);
+  return collection ? collection.version(record) : record.timestamp;
+}
+
+/** Remote rows → local records: nulls become missing optional fields. */
+function fromRow<T>(row: Record<string, unknown>): T {
+  const record: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (value !== null) record[key] = value;
+  }
+  return record as T;
+}
+
+/** JSON with object keys sorted: Postgres re-orders JSONB keys, so plain stringify never matches. */
+function canonicalJSON(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  );
+}
+
+function sameContent<T extends SyncRecord>(collection: Collection<T>, a: T, b: T): boolean {
+  return canonicalJSON(collection.toRow(a, '')) === canonicalJSON(collection.toRow(b, ''));
+}
+
+/**
+ * Apply only the remote side of a merge to what is in storage now, so local writes made while
+ * the network calls ran are kept. A record edited locally in the meantime beats the pulled copy
+ * unless the pulled one is newer, and a remote deletion only removes a record still untouched.
+ */
+function applyRemoteChanges<T extends SyncRecord>(
+  collection: Collection<T>,
+  current: T[],
+  pulled: Map<string, T>,
+  removed: Set<string>,
+  lastSyncedAt: number
+): T[] {
+  const result: T[] = [];
+  for (const record of current) {
+    const incoming = pulled.get(record.id);
+    pulled.delete(record.id);
+    if (incoming) {
+      result.push(collection.version(incoming) > collection.version(record) ? incoming : record);
+    } else if (!(removed.has(record.id) && collection.version(record) <= lastSyncedAt)) {
+      result.push(record);
+    }
+  }
+  result.push(...pulled.values());
+  return result.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+async function syncCollection<T extends SyncRecord>(
+  collection: Collection<T>,
+  userId: string,
+  previous: SyncState | null
+): Promise<{ ids: string[]; pushed: number; pulled: number; deleted: number; changed: boolean }> {
+  const supabase = requireSupabase();
+
+  const { data: rows, error } = await supabase.from(collection.table).select('*').eq('user_id', userId);
+  if (error) throw new Error(`Failed to pull ${collection.table}: ${error.message}`);
+
+  const stored = await storage.getItem<T[]>(collection.storageKey, false);
+  const local = new Map((Array.isArray(stored) ? stored : []).map((r) => [r.id, r]));
+  const remote = new Map((rows || []).map((row) => [row.id as string, (collection.fromRow ?? fromRow<T>)(row)]));
+  const known = new Set(previous?.ids[collection.storageKey] || []);
+  const lastSyncedAt = previous?.lastSyncedAt ?? 0;
+
+  const merged: T[] = [];
+  const toPush: T[] = [];
+  const toDelete: string[] = [];
+  const pulledRecords = new Map<string, T>();
+  const removedIds = new Set<string>();
+
+  for (const id of new Set([...local.keys(), ...remote.keys()])) {
+    const mine = local.get(id);
+    const theirs = remote.get(id);
+
+    if (mine && theirs) {
+      const diff = collection.version(mine) - collection.version(theirs);
+      if (diff < 0) {
+        merged.push(theirs);
+        pulledRecords.set(id, theirs);
+      } else {
+        merged.push(mine);
+        if (diff > 0 || !sameContent(collection, mine, theirs)) toPush.push(mine);
+      }
+    } else if (mine) {
+      // Synced before and untouched since → another device deleted it
+      if (known.has(id) && collection.version(mine) <= lastSyncedAt) {
+        removedIds.add(id);
+      } else {
+        merged.push(mine);
+        toPush.push(mine);
+      }
+    } else if (theirs) {
+      // Synced before and gone locally → deleted on this device
+      if (known.has(id) && collection.version(theirs) <= lastSyncedAt) {
+        toDelete.push(id);
+      } else {
+        merged.push(theirs);
+        pulledRecords.set(id, theirs);
+      }
+    }
+  }
+
+  const pulled = pulledRecords.size;
+  const changed = pulled > 0 || removedIds.size > 0;
+
+  if (toPush.length > 0) {
+    const { error: pushError } = await supabase
+      .from(collection.table)
+      .upsert(toPush.map((r) => collection.toRow(r, userId)));
+    if (pushError) throw new Error(`Failed to push ${collection.table}: ${pushError.message}`);
+  }
+
+  if (toDelete.length > 0) {
+    const { error: deleteError } = await supabase
+      .from(collection.table)
+      .delete()
+      .eq('user_id', userId)
+      .in('id', toDelete);
+    if (deleteError) throw new Error(`Failed to delete ${collection.table}: ${deleteError.message}`);
+  }
+
+  // Screens may have written while we were on the network: re-read instead of writing `merged` back
+  if (changed) {
+    const current = await storage.getItem<T[]>(collection.storageKey, false);
+    await storage.setItem(
+      collection.storageKey,
+      applyRemoteChanges(collection, Array.isArray(current) ? current : [], pulledRecords, removedIds, lastSyncedAt)
+    );
+  }
+
+  return {
+    ids: merged.map((r) => r.id),
+    pushed: toPush.length,
+    pulled,
+    deleted: toDelete.length,
+    changed,
+  };
+}
+
+async function runSync(user: User): Promise<SyncSummary> {
+  const supabase = requireSupabase();
+
+  // RLS checks auth.uid(), so the Supabase session must belong to the same user
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session || session.user.id !== user.id) {
+    throw new Error('Sign in with your SpeakSnap account to sync');
+  }
+
+  const saved = await storage.getItem<SyncState>(SYNC_STATE_KEY, false);
+  // Another account synced on this device before: merge everything, infer no deletions
+  const previous = saved && saved.userId === user.id ? saved : null;
+  const startedAt = Date.now();
+
+  const summary: SyncSummary = { pushed: 0, pulled: 0, deleted: 0, changedKeys: [] };
+  const ids: Record<string, string[]> = {};
+
+  for (const collection of COLLECTIONS) {
+    const result = await syncCollection(collection, user.id, previous);
+    ids[collection.storageKey] = result.ids;
+    summary.pushed += result.pushed;
+    summary.pulled += result.pulled;
+    summary.deleted += result.deleted;
+    if (result.changed) summary.changedKeys.push(collection.storageKey);
+  }
+
+  await storage.setItem<SyncState>(SYNC_STATE_KEY, { userId: user.id, lastSyncedAt: startedAt, ids });
+
+  if (summary.changedKeys.length > 0 && typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(SYNC_EVENT, { detail: { keys: summary.changedKeys } }));
+  }
+  console.log(`☁️ Sync complete: ${summary.pushed} pushed, ${summary.pulled} pulled, ${summary.deleted} deleted`);
+  return summary;
+}
+
+let inFlight: Promise<SyncSummary> | null = null;
+
+/** Push local changes and pull remote ones for `user`. Concurrent calls share one run. */
+export function syncAll(user: User): Promise<SyncSummary> {
+  if (!inFlight) {
+    inFlight = runSync(user).finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+/** Time of the last successful sync for the user, or null if never synced on this device. */
+export async function getLastSyncedAt(userId: string): Promise<number | null> {
+  const saved = await storage.getItem<SyncState>(SYNC_STATE_KEY, false);
+  return saved && saved.userId === userId ? saved.lastSyncedAt : null;
+}
@@ -1,10 +1,14 @@
 /**
  * Local cache for textbook lesson reference audio (per course).
  * Persists to IndexedDB via storage so ref audio is not re-fetched on revisit.
+ * Audio is cached per voice (voice + pace); whole-lesson audio and sentence-drill audio
+ * (per sentence index) are cached separately.
  * Supports refresh: clear cache for a lesson or for a whole course.
  */
 
 import { storage } from '@/lib/utils/storage';
+import { DEFAULT_TEXTBOOK_VOICE } from '@/lib/constants/voices';
+import type { VoicePreference } from '@/lib/types';
 
 const KEY_PREFIX = 'textbook_ref_audio_';
 
@@ -12,20 +16,52 @@ export interface CachedLessonAudio {
   refAudioBase64: string;
   courseId: string;
   lessonId: number;
+  voice: VoicePreference;
+  sentenceIndex?: number;
   timestamp: number;
 }
 
-function cacheKey(courseId: string, lessonId: number): string {
+function lessonKey(courseId: string, lessonId: number): string {
   return `${KEY_PREFIX}${courseId}_${lessonId}`;
 }
 
-export async function getCachedRefAudio(courseId: string, lessonId: number): Promise<string | null> {
+function cacheKey(courseId: string, lessonId: number, voice: VoicePreference, sentenceIndex?: number): string {
+  const base = `${lessonKey(courseId, lessonId)}_${voice.voiceId}_${voice.pace}`;
+  return sentenceIndex === undefined ? base : `${base}_s${sentenceIndex}`;
+}
+
+function isDefaultVoice(voice: VoicePreference): boolean {
+  return voice.voiceId === DEFAULT_TEXTBOOK_VOICE.voiceId && voice.pace === DEFAULT_TEXTBOOK_VOICE.pace;
+}
+
+/**
+ * Whole-lesson audio cached before per-voice keys sits under the bare lesson key and was always
+ * spoken in the default textbook voice: move it to that voice's key on first read.
+ */
+async function migrateLegacyEntry(courseId: string, lessonId: number, voice: VoicePreference): Promise<string | null> {
+  const legacyKey = lessonKey(courseId, lessonId);
+  const legacy = await storage.getItem<CachedLessonAudio>(legacyKey, false);
+  if (!legacy || typeof legacy.refAudioBase64 !== 'string') return null;
+  await storage.setItem<CachedLessonAudio>(cacheKey(courseId, lessonId, voice), { ...legacy, voice });
+  await storage.removeItem(legacyKey);
+  return legacy.refAudioBase64;
+}
+
+export async function getCachedRefAudio(
+  courseId: string,
+  lessonId: number,
+  voice: VoicePreference,
+  sentenceIndex?: number
+): Promise<string | null> {
   try {
-    const key = cacheKey(courseId, lessonId);
+    const key = cacheKey(courseId, lessonId, voice, sentenceIndex);
     const cached = await storage.getItem<CachedLessonAudio>(key, false);
     if (cached && typeof cached.refAudioBase64 === 'string') {
       return cached.refAudioBase64;
     }
+    if (sentenceIndex === undefined && isDefaultVoice(voice)) {
+      return await migrateLegacyEntry(courseId, lessonId, voice);
+    }
     return null;
   } catch {
     return null;
@@ -35,14 +71,18 @@ export async function getCachedRefAudio(courseId: string, lessonId: number): Pro
 export async function setCachedRefAudio(
   courseId: string,
   lessonId: number,
-  refAudioBase64: string
+  refAudioBase64: string,
+  voice: VoicePreference,
+  sentenceIndex?: number
 ): Promise<void> {
   try {
-    const key = cacheKey(courseId, lessonId);
+    const key = cacheKey(courseId, lessonId, voice, sentenceIndex);
     await storage.setItem<CachedLessonAudio>(key, {
       refAudioBase64,
       courseId,
       lessonId,
+      voice,
+      sentenceIndex,
       timestamp: Date.now(),
     });
   } catch (e) {
@@ -50,10 +90,15 @@ export async function setCachedRefAudio(
   }
 }
 
-/** Clear cached ref audio for one lesson (so next open will re-fetch). */
+/** Clear cached ref audio for one lesson in every voice, sentence clips included (next open re-fetches). */
 export async function clearCachedRefAudio(courseId: string, lessonId: number): Promise<void> {
   try {
-    await storage.removeItem(cacheKey(courseId, lessonId));
+    const base = lessonKey(courseId, lessonId);
+    await storage.removeItem(base); // entries cached before per-voice keys
+    const keys = await storage.keys();
+    for (const key of keys) {
+      if (key.startsWith(`${base}_`)) await storage.removeItem(key);
+    }
   } catch (e) {
     console.warn('Textbook cache clear failed:', e);
   }
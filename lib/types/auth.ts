@@ -1,6 +1,6 @@
 /**
  * Auth types for SpeakSnap v3 – minimal surface for avatar/sidebar.
- * No dependency on Supabase or external auth; can be wired later.
+ * Backed by Supabase Auth (see lib/contexts/auth-context.tsx); kept SDK-agnostic here.
  */
 
 export interface User {
@@ -26,7 +26,9 @@ export interface AuthContextType {
   profile: Profile | null;
   loading: boolean;
   error: string | null;
+  /** Email/password sign-in, or a magic link when no password is given. */
   signIn: (email: string, password?: string) => Promise<void>;
+  signUp: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
   refreshUser: () => Promise<void>;
 }
@@ -5,6 +5,21 @@
 export type UserLevel = 'Beginner' | 'Intermediate' | 'Advanced';
 export type PracticeMode = 'Daily' | 'IELTS';
 export type AiModelPreference = 'auto' | 'gemini' | 'openai' | 'doubao';
+/** Who actually answered; 'local' is the offline stand-in and is never a user preference. */
+export type AiProvider = Exclude<AiModelPreference, 'auto'> | 'local';
+export type VoiceAccent = 'American' | 'British' | 'Australian';
+export type SpeechPace = 'slow' | 'normal' | 'fast';
+/** Reference-audio voice choice; `voiceId` is an entry of VOICE_OPTIONS (lib/constants/voices). */
+export interface VoicePreference {
+  voiceId: string;
+  pace: SpeechPace;
+}
+
+/** Whether shadow takes are kept for replay, and how much storage they may use. */
+export interface RecordingSettings {
+  enabled: boolean;
+  quotaMb: number;
+}
 
 export interface DialogueLine {
   id: string;
@@ -18,6 +33,8 @@ export interface DialogueLine {
     correction?: string;
     better_alternative?: string;
   };
+  /** Transcribed from a Gemini Live call; feedback arrives after the turn is shown. */
+  live?: boolean;
 }
 
 export interface DialogueRecord {
@@ -27,6 +44,26 @@ export interface DialogueRecord {
   user_level: UserLevel;
   is_completed: boolean;
   average_score?: number;
+  /** Goal checklist as last judged by the dialogue model. */
+  goals?: GoalProgress[];
+  /** Generated once the dialogue completes. */
+  report?: DialogueReport;
+  /** Scenario CEFR difficulty this attempt was played at. */
+  difficulty?: string;
+}
+
+/** End-of-dialogue performance report (lib/utils/dialogueReport). */
+export interface DialogueReport {
+  generated_at: number;
+  summary: string;
+  /** Score of each scored learner turn, in order. */
+  turn_scores: number[];
+  /** Grammar errors grouped by type, most frequent first. */
+  grammar_errors: { type: string; count: number; examples: { original: string; correction: string }[] }[];
+  /** Strongest rewrites of the learner's weaker turns. */
+  best_rewrites: { original: string; better: string; score: number }[];
+  vocabulary: { target: string[]; used: string[]; missed: string[] };
+  goals: GoalProgress[];
 }
 
 export interface Scenario {
@@ -40,6 +77,10 @@ export interface Scenario {
   context: string;
   goals?: string[]; // AI-generated conversation goals
   completion_phrase?: string; // Phrase to indicate conversation completion
+  first_line?: string; // AI's opening line for new dialogues
+  user_hints?: string[];
+  /** How the AI plays its role at this difficulty (set by "retry harder/easier"). */
+  role_behavior?: string;
   timestamp: number;
   created_at?: string;
   
@@ -50,6 +91,20 @@ export interface Scenario {
   last_practiced: number;
 }
 
+/** Self-assessed recall quality when reviewing a card. */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/** SM-2 review state for a flashcard. Cards without it are new (never reviewed). */
+export interface FlashcardReview {
+  due: number; // Next review time (ms)
+  ease: number; // Ease factor, >= 1.3
+  interval: number; // Current interval in days (0 = relearning)
+  repetitions: number; // Consecutive successful reviews
+  lapses: number; // Times the card was forgotten after being learned
+  last_reviewed?: number;
+  first_reviewed?: number; // When it left the new pile; counts against that day's new-card allowance
+}
+
 export interface Flashcard {
   id: string;
   user_id?: string;
@@ -66,6 +121,7 @@ export interface Flashcard {
   context: string;
   timestamp: number;
   source?: 'dialogue' | 'diary';
+  review?: FlashcardReview;
   created_at?: string;
 }
 
@@ -112,6 +168,43 @@ export interface AnalyzeImageResponse {
   user_hints: string[];
 }
 
+export type GoalStatus = 'not_started' | 'in_progress' | 'achieved';
+
+/** One scenario goal as judged by the dialogue model; `evidence` quotes the line that shows it. */
+export interface GoalProgress {
+  goal: string;
+  status: GoalStatus;
+  evidence?: string;
+}
+
+export type DifficultyDirection = 'harder' | 'easier';
+
+/** What past attempts at a scenario say about the learner, for adapting its difficulty. */
+export interface ScenarioAttemptSummary {
+  attempts: number;
+  averageScore: number;
+  recentScores: number[];
+  /** Most frequent grammar error types across saved reports. */
+  recurringErrors: string[];
+  /** Goals not achieved in the latest attempt. */
+  missedGoals: string[];
+}
+
+/** Regenerated opening and role behaviour for a harder or easier retry of a scenario. */
+export interface ScenarioAdaptation {
+  difficulty: string;
+  first_line: string;
+  user_hints: string[];
+  role_behavior: string;
+}
+
+/** AI part of the dialogue report: individual grammar errors and the scenario's target vocabulary. */
+export interface DialogueReportAnalysis {
+  summary: string;
+  grammar_errors: { type: string; original: string; correction: string }[];
+  target_vocabulary: string[];
+}
+
 export interface DialogueResponse {
   feedback: {
     score: number;
@@ -123,9 +216,26 @@ export interface DialogueResponse {
   };
   next_response: string;
   next_hints: string[];
+  /** Status of each goal sent with the request, in the same order. */
+  goals: GoalProgress[];
+  /** True once every goal is achieved (or, without goals, when the model ends the scene). */
   is_finished: boolean;
 }
 
+/** Single-use Gemini Live session token from /api/live/token. */
+export interface LiveToken {
+  token: string;
+  /** The only model the token can connect to. */
+  model: string;
+  /** ISO time after which the session is closed. */
+  expiresAt: string;
+  /** Sessions left today after this one. */
+  remaining: number;
+}
+
+/** Feedback for a turn that already has its reply (Gemini Live): same shape as DialogueResponse, no reply. */
+export type DialogueTurnScore = Pick<DialogueResponse, 'feedback' | 'goals'>;
+
 export interface FlashcardGeneration {
   term: string;
   phonetic?: string;
@@ -143,6 +253,58 @@ export interface DiaryProcessResult {
   flashcards: FlashcardGeneration[];
 }
 
+/** Result of analyzeCompleteDiary (one call covering scores, sentence review, upgrade and cards). */
+export interface CompleteDiaryAnalysis {
+  // 总体评分（按真实英语能力维度）
+  dimensions: {
+    contentExpression: { score: number; comment: string };
+    grammarAccuracy: { score: number; comment: string };
+    vocabularyNaturalness: { score: number; comment: string };
+    englishThinking: { score: number; comment: string };
+  };
+  overallScore: number;
+  overallLevel: string;
+  summary: string;
+  stats: {
+    wordCount: number;
+    sentenceCount: number;
+    avgSentenceLength: number;
+    uniqueWords: number;
+  };
+  strengths: string[];
+  improvements: string[];
+  grammarFocus: string[];
+  // 逐句详细分析
+  sentenceAnalysis: Array<{
+    original: string;
+    isCorrect: boolean;
+    issues: Array<{
+      errorText: string;
+      errorType: string;
+      reason: string;
+      correction: string;
+      explanation: string;
+    }>;
+    naturalExpression: string;
+    thinkingTips?: string;
+  }>;
+  optimized: string;
+  upgradedVersion: string;
+  patterns: Array<{
+    pattern: string;
+    explanation: string;
+    example: string;
+  }>;
+  flashcards: Array<{
+    term: string;
+    phonetic: string;
+    translation: string;
+    definition: string;
+    example: string;
+    nativeUsage: string;
+  }>;
+}
+
 // Shadow Reading (影子跟读) types
 export interface ShadowDailyChallenge {
   topic: string;
@@ -161,6 +323,28 @@ export interface ShadowWordAnalysis {
   userEndTime?: number; // User audio end time in seconds
 }
 
+/** Local DSP measurements of one recording (see lib/utils/shadowAcoustics). */
+export interface AcousticProfile {
+  duration: number; // seconds
+  speechDuration: number; // seconds above the speech threshold
+  speechStart?: number; // first / last spoken moment, seconds
+  speechEnd?: number;
+  pauses: { start: number; end: number }[]; // silent gaps inside the speech, seconds
+  loudnessDb: number; // RMS of speech frames, dBFS
+  peakDb: number; // dBFS
+  clippingRatio: number; // share of samples at full scale
+  pitchHz: number | null; // median F0
+  pitchRangeSemitones: number; // 10th–90th percentile F0 span
+  pitchContour: (number | null)[]; // F0 every ShadowAcousticMetrics.pitchHopSec, null when unvoiced
+}
+
+export interface ShadowAcousticMetrics {
+  user: AcousticProfile;
+  reference: AcousticProfile;
+  speechRateRatio: number; // user / reference speaking time; > 1 is slower
+  pitchHopSec: number;
+}
+
 export interface ShadowAnalysisResult {
   score: number;
   fluency: string;
@@ -171,12 +355,30 @@ export interface ShadowAnalysisResult {
   };
   intonation: string;
   suggestions: string;
+  metrics?: ShadowAcousticMetrics; // Objective measurements behind fluency/intonation
 }
 
-/** Stored entry for shadow analysis review (no audio URLs). */
+/**
+ * Stored entry for shadow analysis review. The learner's take is stored separately under the entry id
+ * (lib/utils/shadowRecordings); `refChallengeId` points at the challenge pool's reference WAV.
+ */
 export interface ShadowHistoryEntry {
   id: string;
   timestamp: number;
   challenge: { topic: string; text: string; sourceUrl?: string };
   analysis: ShadowAnalysisResult;
+  refChallengeId?: string;
+}
+
+/** One textbook lesson attempt (whole lesson or rolled-up sentence drill). */
+export interface TextbookAttempt {
+  id: string;
+  timestamp: number;
+  courseId: string;
+  lessonId: number;
+  lessonTitle: string;
+  mode: 'lesson' | 'drill';
+  score: number;
+  weakWords: { word: string; status: 'average' | 'poor'; issue?: string }[];
+  weaknesses: string[];
 }
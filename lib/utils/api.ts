@@ -2,6 +2,8 @@
  * API request utilities with caching and optimization
  */
 
+import { supabase } from '@/lib/supabase/client';
+
 const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 const CLEANUP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
 const MAX_CACHE_ENTRIES = 50;
@@ -85,6 +87,19 @@ if (typeof window !== 'undefined') {
   });
 }
 
+/**
+ * fetch() for our own /api routes: attaches the signed-in user's access token
+ * (routes answer 401 without it when Supabase auth is configured).
+ */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (supabase && !headers.has('Authorization')) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (session) headers.set('Authorization', `Bearer ${session.access_token}`);
+  }
+  return fetch(input, { ...init, headers });
+}
+
 /**
  * Generate cache key from request parameters
  */
@@ -113,7 +128,7 @@ export async function cachedFetch<T = any>(
   }
 
   // Make request
-  const response = await fetch(url, fetchOptions);
+  const response = await apiFetch(url, fetchOptions);
 
   if (!response.ok) {
     throw new Error(`API request failed: ${response.statusText}`);
@@ -0,0 +1,308 @@
+/**
+ * Learner archive – export/import of everything stored on the device as one versioned JSON file.
+ * Used for backups and for moving a learner to another device. Import merges by record `id`:
+ * new records are added, identical ones skipped, and differing ones resolved by the newer version
+ * (same rule as cloud sync) and reported as conflicts.
+ */
+
+import { storage } from '@/lib/utils/storage';
+import { getRecordVersion } from '@/lib/supabase/sync';
+import { SHADOW_HISTORY_LIMIT } from '@/lib/utils/shadowHistory';
+import { TEXTBOOK_PROGRESS_LIMIT } from '@/lib/utils/textbookProgress';
+import { pruneShadowRecordings, saveRecordingSettings } from '@/lib/utils/shadowRecordings';
+import { parseModelPreference } from '@/lib/constants/models';
+import { DEFAULT_SHADOW_VOICE, parseVoicePreference } from '@/lib/constants/voices';
+import type { Course } from '@/lib/data/courses';
+import type {
+  AiModelPreference,
+  DiaryEntry,
+  Flashcard,
+  PracticeMode,
+  RecordingSettings,
+  Scenario,
+  ShadowHistoryEntry,
+  TextbookAttempt,
+  UserLevel,
+  VoicePreference,
+} from '@/lib/types';
+
+export const ARCHIVE_FORMAT = 'speaksnap-archive';
+/** Bump when the archive layout changes; add a migration in `migrateArchive`. */
+export const ARCHIVE_VERSION = 1;
+
+export interface LearnerSettings {
+  level?: UserLevel;
+  practice_mode?: PracticeMode;
+  model?: AiModelPreference;
+  location_enabled?: boolean;
+  voice?: VoicePreference;
+  recordings?: RecordingSettings;
+}
+
+export interface LearnerArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exported_at: string;
+  data: {
+    scenarios: Scenario[];
+    flashcards: Flashcard[];
+    diary: DiaryEntry[];
+    shadow_history: ShadowHistoryEntry[];
+    textbook_progress: TextbookAttempt[];
+    /** Imported textbook courses that textbook_progress may point at. */
+    custom_courses: Course[];
+    settings: LearnerSettings;
+  };
+}
+
+export type ArchiveCollection =
+  | 'scenarios'
+  | 'flashcards'
+  | 'diary'
+  | 'shadow_history'
+  | 'textbook_progress'
+  | 'custom_courses';
+
+export interface ArchiveConflict {
+  collection: ArchiveCollection;
+  id: string;
+  kept: 'local' | 'imported';
+}
+
+export interface ArchiveImportReport {
+  added: number;
+  updated: number;
+  unchanged: number;
+  /** Records missing an `id` or (except courses) a `timestamp`. */
+  skipped: number;
+  conflicts: ArchiveConflict[];
+  settingsApplied: (keyof LearnerSettings)[];
+}
+
+const COLLECTION_KEYS: Record<ArchiveCollection, string> = {
+  scenarios: 'speakSnapScenarios',
+  flashcards: 'speakSnapFlashcards',
+  diary: 'speakSnapDiary',
+  shadow_history: 'shadow_history',
+  textbook_progress: 'textbook_progress',
+  custom_courses: 'textbook_custom_courses',
+};
+
+/** Courses carry no timestamp: a differing imported copy never replaces the local one. */
+const UNVERSIONED: ArchiveCollection[] = ['custom_courses'];
+
+/** Same caps the collection's own writers apply. */
+const COLLECTION_LIMITS: Partial<Record<ArchiveCollection, number>> = {
+  shadow_history: SHADOW_HISTORY_LIMIT,
+  textbook_progress: TEXTBOOK_PROGRESS_LIMIT,
+};
+
+const USER_LEVELS: UserLevel[] = ['Beginner', 'Intermediate', 'Advanced'];
+const PRACTICE_MODES: PracticeMode[] = ['Daily', 'IELTS'];
+
+const SETTING_KEYS: Record<keyof LearnerSettings, string> = {
+  level: 'speakSnapLevel',
+  practice_mode: 'speakSnapPracticeMode',
+  model: 'speakSnapModel',
+  location_enabled: 'speakSnapLocationEnabled',
+  voice: 'speakSnapVoice',
+  recordings: 'speakSnapRecordings',
+};
+
+type ArchiveRecord = { id: string; timestamp: number };
+
+function isRecord(value: unknown, versioned: boolean): value is ArchiveRecord {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as ArchiveRecord).id === 'string' &&
+    (!versioned || typeof (value as ArchiveRecord).timestamp === 'number')
+  );
+}
+
+/** Keep only the settings this app understands; anything else in the file is ignored. */
+function validateSettings(raw: Record<string, unknown>): LearnerSettings {
+  const settings: LearnerSettings = {};
+  if (USER_LEVELS.includes(raw.level as UserLevel)) settings.level = raw.level as UserLevel;
+  if (PRACTICE_MODES.includes(raw.practice_mode as PracticeMode)) {
+    settings.practice_mode = raw.practice_mode as PracticeMode;
+  }
+  if (typeof raw.model === 'string') settings.model = parseModelPreference(raw.model);
+  if (typeof raw.location_enabled === 'boolean') settings.location_enabled = raw.location_enabled;
+  if (raw.voice && typeof raw.voice === 'object') settings.voice = parseVoicePreference(raw.voice, DEFAULT_SHADOW_VOICE);
+  const recordings = raw.recordings as Partial<RecordingSettings> | null | undefined;
+  if (
+    recordings &&
+    typeof recordings === 'object' &&
+    typeof recordings.enabled === 'boolean' &&
+    typeof recordings.quotaMb === 'number' &&
+    recordings.quotaMb > 0
+  ) {
+    settings.recordings = { enabled: recordings.enabled, quotaMb: recordings.quotaMb };
+  }
+  return settings;
+}
+
+async function readList<T>(key: string): Promise<T[]> {
+  const list = await storage.getItem<T[]>(key, false);
+  return Array.isArray(list) ? list : [];
+}
+
+/** Snapshot of all learner data on this device. */
+export async function createArchive(): Promise<LearnerArchive> {
+  const [scenarios, flashcards, diary, shadowHistory, textbookProgress, customCourses] = await Promise.all([
+    readList<Scenario>(COLLECTION_KEYS.scenarios),
+    readList<Flashcard>(COLLECTION_KEYS.flashcards),
+    readList<DiaryEntry>(COLLECTION_KEYS.diary),
+    readList<ShadowHistoryEntry>(COLLECTION_KEYS.shadow_history),
+    readList<TextbookAttempt>(COLLECTION_KEYS.textbook_progress),
+    readList<Course>(COLLECTION_KEYS.custom_courses),
+  ]);
+
+  const settings: LearnerSettings = {};
+  for (const [name, key] of Object.entries(SETTING_KEYS) as [keyof LearnerSettings, string][]) {
+    const value = await storage.getItem(key, false);
+    if (value != null) (settings as Record<string, unknown>)[name] = value;
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    data: {
+      scenarios,
+      flashcards,
+      diary,
+      shadow_history: shadowHistory,
+      textbook_progress: textbookProgress,
+      custom_courses: customCourses,
+      settings,
+    },
+  };
+}
+
+/** Build the archive and hand it to the browser as a .json download. */
+export async function downloadArchive(): Promise<void> {
+  const archive = await createArchive();
+  const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `speaksnap-backup-${archive.exported_at.slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** Upgrade older archive layouts to ARCHIVE_VERSION (none yet: v1 is the first). */
+function migrateArchive(archive: LearnerArchive): LearnerArchive {
+  return archive;
+}
+
+/** Parse and validate an archive file's text. Throws with a user-facing message. */
+export function parseArchive(text: string): LearnerArchive {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a valid SpeakSnap backup (invalid JSON).');
+  }
+
+  if (!parsed || parsed.format !== ARCHIVE_FORMAT || typeof parsed.version !== 'number') {
+    throw new Error('This file is not a SpeakSnap backup.');
+  }
+  if (parsed.version > ARCHIVE_VERSION) {
+    throw new Error(
+      `This backup was made by a newer version of SpeakSnap (v${parsed.version}). Please update the app first.`
+    );
+  }
+
+  const data = parsed.data && typeof parsed.data === 'object' ? parsed.data : {};
+  for (const name of Object.keys(COLLECTION_KEYS)) {
+    if (data[name] != null && !Array.isArray(data[name])) {
+      throw new Error(`Backup is damaged: "${name}" should be a list.`);
+    }
+  }
+
+  return migrateArchive({
+    format: ARCHIVE_FORMAT,
+    version: parsed.version,
+    exported_at: typeof parsed.exported_at === 'string' ? parsed.exported_at : '',
+    data: {
+      scenarios: data.scenarios ?? [],
+      flashcards: data.flashcards ?? [],
+      diary: data.diary ?? [],
+      shadow_history: data.shadow_history ?? [],
+      textbook_progress: data.textbook_progress ?? [],
+      custom_courses: data.custom_courses ?? [],
+      settings: data.settings && typeof data.settings === 'object' ? data.settings : {},
+    },
+  });
+}
+
+/** Merge an archive into local storage and report what happened. */
+export async function importArchive(archive: LearnerArchive): Promise<ArchiveImportReport> {
+  const report: ArchiveImportReport = {
+    added: 0,
+    updated: 0,
+    unchanged: 0,
+    skipped: 0,
+    conflicts: [],
+    settingsApplied: [],
+  };
+
+  for (const [collection, key] of Object.entries(COLLECTION_KEYS) as [ArchiveCollection, string][]) {
+    const versioned = !UNVERSIONED.includes(collection);
+    const local = await readList<ArchiveRecord>(key);
+    const byId = new Map(local.map((r) => [r.id, r]));
+    let changed = false;
+
+    for (const incoming of archive.data[collection] as unknown[]) {
+      if (!isRecord(incoming, versioned)) {
+        report.skipped += 1;
+        continue;
+      }
+      const existing = byId.get(incoming.id);
+      if (!existing) {
+        byId.set(incoming.id, incoming);
+        report.added += 1;
+        changed = true;
+      } else if (JSON.stringify(existing) === JSON.stringify(incoming)) {
+        report.unchanged += 1;
+      } else if (versioned && getRecordVersion(key, incoming) > getRecordVersion(key, existing)) {
+        byId.set(incoming.id, incoming);
+        report.updated += 1;
+        report.conflicts.push({ collection, id: incoming.id, kept: 'imported' });
+        changed = true;
+      } else {
+        report.conflicts.push({ collection, id: incoming.id, kept: 'local' });
+      }
+    }
+
+    if (changed) {
+      const merged = Array.from(byId.values());
+      if (versioned) merged.sort((a, b) => b.timestamp - a.timestamp);
+      const limit = COLLECTION_LIMITS[collection];
+      const kept = limit ? merged.slice(0, limit) : merged;
+      await storage.setItem(key, kept);
+      if (collection === 'shadow_history' && kept.length < merged.length) {
+        await pruneShadowRecordings(kept.map((r) => r.id));
+      }
+    }
+  }
+
+  const settings = validateSettings(archive.data.settings as Record<string, unknown>);
+  for (const [name, key] of Object.entries(SETTING_KEYS) as [keyof LearnerSettings, string][]) {
+    if (settings[name] == null) continue;
+    // Recording settings prune stored takes to the new quota as they're applied
+    if (name === 'recordings') await saveRecordingSettings(settings.recordings!);
+    else await storage.setItem(key, settings[name]);
+    report.settingsApplied.push(name);
+  }
+
+  console.log(
+    `📦 Archive imported: ${report.added} added, ${report.updated} updated, ${report.conflicts.length} conflicts`
+  );
+  return report;
+}
@@ -0,0 +1,264 @@
+/**
+ * Course import – turns a Markdown, plain-text, JSON or EPUB file into a textbook Course.
+ * Headings (or "Lesson N" lines / EPUB chapters) become lessons; long lessons are split into parts
+ * so reference audio stays a practical length. Throws with a user-facing message on bad input.
+ */
+
+import { strFromU8, unzipSync } from 'fflate';
+import type { Course, Lesson } from '@/lib/data/courses';
+import { splitSentences } from '@/lib/utils/textbookDrill';
+
+export type CourseFileFormat = 'markdown' | 'text' | 'json' | 'epub';
+
+export const COURSE_FILE_ACCEPT = '.md,.markdown,.txt,.json,.epub';
+
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+// About three minutes of reference audio; longer sections are split into parts
+const MAX_LESSON_WORDS = 400;
+// EPUB cover/TOC/copyright pages and stray headings are shorter than this
+const MIN_LESSON_WORDS = 20;
+const MAX_LESSONS = 500;
+
+interface Section {
+  title: string;
+  text: string;
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function fileStem(name: string): string {
+  return name.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() || 'Imported course';
+}
+
+export function detectCourseFormat(fileName: string): CourseFileFormat | null {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'md' || ext === 'markdown') return 'markdown';
+  if (ext === 'txt') return 'text';
+  if (ext === 'json') return 'json';
+  if (ext === 'epub') return 'epub';
+  return null;
+}
+
+function normalizeParagraphs(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/** Markdown inline/block syntax → plain reading text. */
+function stripMarkdown(md: string): string {
+  return md
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}>\s?/gm, '')
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/gm, '')
+    .replace(/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/gm, '')
+    .replace(/(\*\*|__|\*|_|~~|`)(\S(?:.*?\S)?)\1/g, '$2');
+}
+
+/** Split on heading lines; anything before the first heading (course title, preamble) is dropped. */
+function splitOnHeadings(lines: string[], isHeading: (line: string) => string | null): Section[] {
+  const sections: Section[] = [];
+  let current: Section | null = null;
+  for (const line of lines) {
+    const title = isHeading(line);
+    if (title !== null) {
+      current = { title, text: '' };
+      sections.push(current);
+    } else if (current) {
+      current.text += `${line}\n`;
+    }
+  }
+  return sections;
+}
+
+function parseMarkdown(source: string, fallbackName: string): { name: string; sections: Section[] } {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const h1 = lines.map((l) => l.match(/^#\s+(.+?)\s*#*\s*$/)?.[1]).filter((t): t is string => !!t);
+  const h2Count = lines.filter((l) => /^##\s+/.test(l)).length;
+
+  // "# Course" + "## Lesson" is the documented layout; a file with only "#" headings uses them as lessons
+  const lessonLevel = h2Count > 0 ? 2 : 1;
+  const headingRe = new RegExp(`^#{${lessonLevel}}\\s+(.+?)\\s*#*\\s*$`);
+  const sections = splitOnHeadings(lines, (l) => l.match(headingRe)?.[1] ?? null);
+  const name = lessonLevel === 2 && h1.length > 0 ? h1[0] : fallbackName;
+
+  if (sections.length === 0) return { name, sections: [{ title: name, text: stripMarkdown(source) }] };
+  return { name, sections: sections.map((s) => ({ title: stripMarkdown(s.title), text: stripMarkdown(s.text) })) };
+}
+
+function parsePlainText(source: string, fallbackName: string): { name: string; sections: Section[] } {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const marker = /^\s*((?:lesson|unit|chapter|part)\s+[\dIVXLC]+\b.*)$/i;
+  const sections = splitOnHeadings(lines, (l) => l.match(marker)?.[1].trim() ?? null);
+  if (sections.length > 0) return { name: fallbackName, sections };
+
+  // No lesson markers: "---" separated blocks, first line as the title
+  const blocks = source.split(/^\s*(?:-{3,}|\*{3,}|={3,})\s*$/m).map((b) => b.trim()).filter(Boolean);
+  if (blocks.length > 1) {
+    return {
+      name: fallbackName,
+      sections: blocks.map((b) => {
+        const [first, ...rest] = b.split('\n');
+        return rest.join('\n').trim() && wordCount(first) <= 12 ? { title: first.trim(), text: rest.join('\n') } : { title: '', text: b };
+      }),
+    };
+  }
+  return { name: fallbackName, sections: [{ title: fallbackName, text: source }] };
+}
+
+/** `{ name, lessons: [{ title, text }] }` or a bare lessons array. */
+function parseJson(source: string, fallbackName: string): { name: string; sections: Section[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(source);
+  } catch {
+    throw new Error('This JSON file could not be read (invalid JSON).');
+  }
+  const obj = parsed as { name?: unknown; title?: unknown; lessons?: unknown };
+  const list = Array.isArray(parsed) ? parsed : obj?.lessons;
+  if (!Array.isArray(list)) {
+    throw new Error('JSON courses need a "lessons" list of { "title", "text" } items.');
+  }
+  const name = typeof obj?.name === 'string' ? obj.name : typeof obj?.title === 'string' ? obj.title : fallbackName;
+  const sections = list
+    .filter((l): l is { title?: unknown; text?: unknown } => !!l && typeof l === 'object')
+    .filter((l) => typeof l.text === 'string')
+    .map((l) => ({ title: typeof l.title === 'string' ? l.title : '', text: l.text as string }));
+  return { name, sections };
+}
+
+function parseXml(source: string, type: DOMParserSupportedType): Document {
+  const doc = new DOMParser().parseFromString(source, type);
+  if (doc.getElementsByTagName('parsererror').length > 0 && type !== 'text/html') {
+    return new DOMParser().parseFromString(source, 'text/html');
+  }
+  return doc;
+}
+
+function resolvePath(base: string, href: string): string {
+  const parts = base.split('/').slice(0, -1);
+  for (const seg of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (seg === '..') parts.pop();
+    else if (seg && seg !== '.') parts.push(seg);
+  }
+  return parts.join('/');
+}
+
+/** EPUB: chapters in spine order, paragraphs from the XHTML, chapter title from the first heading. */
+function parseEpub(bytes: Uint8Array, fallbackName: string): { name: string; sections: Section[] } {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes);
+  } catch {
+    throw new Error('This EPUB file could not be opened.');
+  }
+  const read = (path: string) => (files[path] ? strFromU8(files[path]) : null);
+
+  const container = read('META-INF/container.xml');
+  const opfPath = container
+    ? parseXml(container, 'application/xml').getElementsByTagName('rootfile')[0]?.getAttribute('full-path')
+    : null;
+  const opfSource = opfPath ? read(opfPath) : null;
+  if (!opfPath || !opfSource) throw new Error('This EPUB is missing its package file (content.opf).');
+  const opf = parseXml(opfSource, 'application/xml');
+
+  const manifest = new Map<string, { href: string; properties: string }>();
+  for (const item of Array.from(opf.getElementsByTagName('item'))) {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) manifest.set(id, { href, properties: item.getAttribute('properties') ?? '' });
+  }
+  const name = opf.getElementsByTagName('dc:title')[0]?.textContent?.trim() || fallbackName;
+
+  const sections: Section[] = [];
+  for (const ref of Array.from(opf.getElementsByTagName('itemref'))) {
+    const item = manifest.get(ref.getAttribute('idref') ?? '');
+    if (!item || item.properties.includes('nav')) continue;
+    const source = read(resolvePath(opfPath, item.href));
+    if (!source) continue;
+    const doc = parseXml(source, 'application/xhtml+xml');
+    const heading = doc.querySelector('h1, h2, h3')?.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+    const blocks = Array.from(doc.querySelectorAll('p, li, blockquote'))
+      .filter((el) => !el.querySelector('p'))
+      .map((el) => el.textContent ?? '');
+    const text = blocks.length > 0 ? blocks.join('\n\n') : (doc.body?.textContent ?? '');
+    sections.push({ title: heading, text });
+  }
+  return { name, sections };
+}
+
+/** Break an over-long section into parts at paragraph (or, failing that, sentence) boundaries. */
+function splitLongText(text: string): string[] {
+  if (wordCount(text) <= MAX_LESSON_WORDS) return [text];
+  const units = text.split('\n\n').flatMap((p) => (wordCount(p) > MAX_LESSON_WORDS ? splitSentences(p) : [p]));
+  const parts: string[] = [];
+  let current: string[] = [];
+  let words = 0;
+  for (const unit of units) {
+    const n = wordCount(unit);
+    if (current.length > 0 && words + n > MAX_LESSON_WORDS) {
+      parts.push(current.join('\n\n'));
+      current = [];
+      words = 0;
+    }
+    current.push(unit);
+    words += n;
+  }
+  if (current.length > 0) parts.push(current.join('\n\n'));
+  return parts;
+}
+
+function toLessons(sections: Section[]): Lesson[] {
+  const lessons: Lesson[] = [];
+  for (const section of sections) {
+    const text = normalizeParagraphs(section.text);
+    if (!text || (sections.length > 1 && wordCount(text) < MIN_LESSON_WORDS)) continue;
+    const parts = splitLongText(text);
+    const base = section.title.replace(/\s+/g, ' ').trim() || `Lesson ${lessons.length + 1}`;
+    parts.forEach((part, i) => {
+      lessons.push({
+        id: lessons.length + 1,
+        title: parts.length > 1 ? `${base} (${i + 1}/${parts.length})` : base,
+        text: part,
+      });
+    });
+    if (lessons.length >= MAX_LESSONS) break;
+  }
+  return lessons.slice(0, MAX_LESSONS);
+}
+
+/** Parse an uploaded file into a course with a fresh id. */
+export async function importCourseFile(file: File): Promise<Course> {
+  const format = detectCourseFormat(file.name);
+  if (!format) throw new Error('Unsupported file type. Use Markdown, plain text, JSON or EPUB.');
+  if (file.size > MAX_FILE_BYTES) throw new Error('This file is too large to import (max 20 MB).');
+
+  const fallbackName = fileStem(file.name);
+  const { name, sections } =
+    format === 'epub'
+      ? parseEpub(new Uint8Array(await file.arrayBuffer()), fallbackName)
+      : format === 'json'
+        ? parseJson(await file.text(), fallbackName)
+        : format === 'markdown'
+          ? parseMarkdown(await file.text(), fallbackName)
+          : parsePlainText(await file.text(), fallbackName);
+
+  const lessons = toLessons(sections);
+  if (lessons.length === 0) throw new Error('No lesson text was found in this file.');
+
+  console.log(`📥 Imported course "${name}" (${format}): ${lessons.length} lessons`);
+  return {
+    // No underscores: textbookCache keys are `${courseId}_${lessonId}`
+    id: `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    name: name.trim() || fallbackName,
+    lessons,
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Imported textbook courses – persisted locally next to the built-in COURSES.
+ * Uses app storage (IndexedDB via localforage); reference audio is cached per lesson by textbookCache.
+ */
+
+import { storage } from '@/lib/utils/storage';
+import { clearCachedRefAudioForCourse } from '@/lib/textbookCache';
+import type { Course } from '@/lib/data/courses';
+
+const STORAGE_KEY = 'textbook_custom_courses';
+
+export async function getCustomCourses(): Promise<Course[]> {
+  const list = await storage.getItem<Course[]>(STORAGE_KEY, false);
+  return Array.isArray(list) ? list : [];
+}
+
+export async function addCustomCourse(course: Course): Promise<Course[]> {
+  const list = (await getCustomCourses()).filter((c) => c.id !== course.id);
+  list.push(course);
+  await storage.setItem(STORAGE_KEY, list);
+  return list;
+}
+
+export async function removeCustomCourse(id: string): Promise<Course[]> {
+  const list = await getCustomCourses();
+  const filtered = list.filter((c) => c.id !== id);
+  if (filtered.length !== list.length) {
+    await storage.setItem(STORAGE_KEY, filtered);
+    await clearCachedRefAudioForCourse(id);
+  }
+  return filtered;
+}
@@ -0,0 +1,63 @@
+/**
+ * Dialogue goals – the per-goal checklist the dialogue model judges each turn. Shared by the
+ * dialogue route (merging the model's verdict into the goals it was sent) and DialogueScreen.
+ */
+
+import type { GoalProgress, GoalStatus } from '@/lib/types';
+
+const MAX_GOALS = 10;
+export const GOAL_STATUSES: readonly GoalStatus[] = ['not_started', 'in_progress', 'achieved'];
+const STATUS_RANK: Record<GoalStatus, number> = { not_started: 0, in_progress: 1, achieved: 2 };
+
+function normalizeGoal(goal: string): string {
+  return goal.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+export function initialGoalProgress(goals: string[]): GoalProgress[] {
+  return goals.slice(0, MAX_GOALS).map((goal) => ({ goal, status: 'not_started' }));
+}
+
+/** Request-body goals → checklist; accepts plain strings or `{ goal, status }` items, drops the rest. */
+export function parseGoalProgress(value: unknown): GoalProgress[] {
+  if (!Array.isArray(value)) return [];
+  const goals: GoalProgress[] = [];
+  for (const item of value) {
+    if (typeof item === 'string' && item.trim()) {
+      goals.push({ goal: item.trim(), status: 'not_started' });
+    } else if (item && typeof item === 'object' && typeof item.goal === 'string' && item.goal.trim()) {
+      const status: GoalStatus = GOAL_STATUSES.includes(item.status) ? item.status : 'not_started';
+      goals.push({
+        goal: item.goal.trim(),
+        status,
+        ...(typeof item.evidence === 'string' && item.evidence ? { evidence: item.evidence } : {}),
+      });
+    }
+    if (goals.length >= MAX_GOALS) break;
+  }
+  return goals;
+}
+
+/**
+ * Apply the model's verdict to the goals it was asked about. Matched by goal text, falling back to
+ * position (models paraphrase); a goal never moves backwards, and keeps its first evidence once achieved.
+ */
+export function mergeGoalProgress(previous: GoalProgress[], judged: GoalProgress[]): GoalProgress[] {
+  const byText = new Map(judged.map((g) => [normalizeGoal(g.goal), g]));
+  return previous.map((goal, i) => {
+    const verdict = byText.get(normalizeGoal(goal.goal)) ?? judged[i];
+    if (!verdict || STATUS_RANK[verdict.status] <= STATUS_RANK[goal.status]) return goal;
+    const evidence = verdict.evidence?.trim();
+    return { goal: goal.goal, status: verdict.status, ...(evidence ? { evidence } : {}) };
+  });
+}
+
+export function allGoalsAchieved(goals: GoalProgress[]): boolean {
+  return goals.length > 0 && goals.every((g) => g.status === 'achieved');
+}
+
+/** 0–100 for the progress bar; a goal in progress counts half. */
+export function goalCompletionPercent(goals: GoalProgress[]): number {
+  if (goals.length === 0) return 0;
+  const points = goals.reduce((sum, g) => sum + STATUS_RANK[g.status] / 2, 0);
+  return Math.round((points / goals.length) * 100);
+}
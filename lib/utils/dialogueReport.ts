@@ -0,0 +1,129 @@
+/**
+ * Dialogue report – built when a dialogue completes and saved on its DialogueRecord.
+ * Turn scores, rewrites and goals come from the stored turns; grammar error types and target
+ * vocabulary from /api/dialogue/report. Without that (offline, AI down) the report is still saved
+ * with the tutor's per-turn grammar notes as a single group.
+ */
+
+import { apiFetch } from '@/lib/utils/api';
+import { storage } from '@/lib/utils/storage';
+import type {
+  AiModelPreference,
+  DialogueLine,
+  DialogueReport,
+  DialogueReportAnalysis,
+  GoalProgress,
+  Scenario,
+  UserLevel,
+} from '@/lib/types';
+
+const MAX_REWRITES = 3;
+const MAX_EXAMPLES = 3;
+const FALLBACK_GRAMMAR_TYPE = 'Grammar';
+
+function learnerTurns(messages: DialogueLine[]): DialogueLine[] {
+  return messages.filter((m) => m.speaker === 'user' && m.text.trim());
+}
+
+function containsTerm(text: string, term: string): boolean {
+  const escaped = term.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}`).test(text);
+}
+
+export function buildDialogueReport(
+  messages: DialogueLine[],
+  goals: GoalProgress[],
+  analysis: DialogueReportAnalysis | null
+): DialogueReport {
+  const turns = learnerTurns(messages);
+
+  const errors =
+    analysis?.grammar_errors ??
+    turns
+      .filter((t) => t.feedback?.grammar)
+      .map((t) => ({
+        type: FALLBACK_GRAMMAR_TYPE,
+        original: t.text,
+        correction: t.feedback!.correction || t.feedback!.grammar!,
+      }));
+  const groups = new Map<string, DialogueReport['grammar_errors'][number]>();
+  for (const e of errors) {
+    const key = e.type.trim().toLowerCase() || FALLBACK_GRAMMAR_TYPE.toLowerCase();
+    const group = groups.get(key) ?? { type: e.type.trim() || FALLBACK_GRAMMAR_TYPE, count: 0, examples: [] };
+    group.count += 1;
+    if (group.examples.length < MAX_EXAMPLES) group.examples.push({ original: e.original, correction: e.correction });
+    groups.set(key, group);
+  }
+
+  // Rewrites matter most where the learner scored lowest
+  const best_rewrites = turns
+    .map((t) => ({
+      original: t.text,
+      better: (t.feedback?.better_alternative || t.feedback?.native_expression || '').trim(),
+      score: t.feedback?.score ?? 100,
+    }))
+    .filter((r) => r.better && r.better.toLowerCase() !== r.original.trim().toLowerCase())
+    .sort((a, b) => a.score - b.score)
+    .slice(0, MAX_REWRITES);
+
+  const spoken = turns.map((t) => t.text.toLowerCase()).join(' ');
+  const target = Array.from(new Set((analysis?.target_vocabulary ?? []).map((w) => w.trim().toLowerCase()).filter(Boolean)));
+  const used = target.filter((w) => containsTerm(spoken, w));
+
+  return {
+    generated_at: Date.now(),
+    summary: analysis?.summary ?? '',
+    turn_scores: turns.filter((t) => typeof t.feedback?.score === 'number').map((t) => t.feedback!.score),
+    grammar_errors: Array.from(groups.values()).sort((a, b) => b.count - a.count),
+    best_rewrites,
+    vocabulary: { target, used, missed: target.filter((w) => !used.includes(w)) },
+    goals,
+  };
+}
+
+/** Ask the AI for error types and target vocabulary, then build the report (never throws on AI failure). */
+export async function generateDialogueReport(
+  scenario: Pick<Scenario, 'context'>,
+  messages: DialogueLine[],
+  goals: GoalProgress[],
+  level: UserLevel,
+  model: AiModelPreference
+): Promise<DialogueReport> {
+  let analysis: DialogueReportAnalysis | null = null;
+  const turns = learnerTurns(messages);
+  if (turns.length > 0) {
+    try {
+      const res = await apiFetch('/api/dialogue/report', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scenarioContext: scenario.context,
+          goals: goals.map((g) => g.goal),
+          turns: turns.map((t) => ({ text: t.text, grammar: t.feedback?.grammar })),
+          level,
+          model,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to generate report');
+      analysis = data as DialogueReportAnalysis;
+    } catch (e) {
+      console.warn('⚠️ Dialogue report analysis unavailable, saving basic report:', e);
+    }
+  }
+  return buildDialogueReport(messages, goals, analysis);
+}
+
+/** Attach a report to a stored dialogue; false when the scenario or dialogue is gone. */
+export async function saveDialogueReport(scenarioId: string, dialogueId: string, report: DialogueReport): Promise<boolean> {
+  const scenarios = (await storage.getItem<Scenario[]>('speakSnapScenarios', false)) || [];
+  const scenario = scenarios.find((s) => s.id === scenarioId);
+  const dialogue = scenario?.dialogues?.find((d) => d.id === dialogueId);
+  if (!dialogue) return false;
+  dialogue.report = report;
+  // Sync versions scenarios by their latest timestamp; the report lands seconds after the last turn
+  scenario!.last_practiced = Math.max(scenario!.last_practiced || 0, report.generated_at);
+  await storage.setItem('speakSnapScenarios', scenarios);
+  console.log(`📊 Dialogue report saved: ${dialogueId}`);
+  return true;
+}
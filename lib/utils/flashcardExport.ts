@@ -0,0 +1,276 @@
+/**
+ * Flashcard export – CSV and Anki package (.apkg).
+ * Both map a card to the same note fields (FIELD_NAMES) and tag it with its `source`.
+ * The .apkg is a zip holding an Anki 2.1 `collection.anki2` SQLite database (legacy schema 11,
+ * which every Anki version can import), built in the browser with sql.js.
+ */
+
+import { strToU8, zipSync } from 'fflate';
+import type { Flashcard } from '@/lib/types';
+
+export const FIELD_NAMES = [
+  'Front',
+  'Phonetic',
+  'Translation',
+  'Definition',
+  'Example',
+  'Native Usage',
+  'Context',
+] as const;
+
+export type ExportFormat = 'csv' | 'apkg';
+
+const DECK_NAME = 'SpeakSnap';
+// Fixed ids so re-importing updates the same note type and deck instead of duplicating them
+const MODEL_ID = 1718000000001;
+const DECK_ID = 1718000000002;
+
+function toFields(card: Flashcard): string[] {
+  const back = card.back || { translation: '' };
+  return [
+    card.front,
+    back.phonetic || '',
+    back.translation || '',
+    back.definition || '',
+    back.example || '',
+    back.native_usage || '',
+    card.context || '',
+  ];
+}
+
+function toTags(card: Flashcard): string[] {
+  return card.source ? ['speaksnap', card.source] : ['speaksnap'];
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** One row per card plus a header; Tags is space-separated (Anki's CSV import understands it). */
+export function flashcardsToCSV(cards: Flashcard[]): string {
+  const rows = [
+    [...FIELD_NAMES, 'Tags'],
+    ...cards.map((card) => [...toFields(card), toTags(card).join(' ')]),
+  ];
+  // BOM so Excel opens the Chinese translations as UTF-8
+  return '\uFEFF' + rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>');
+}
+
+/** Anki's duplicate checksum: first 8 hex digits of SHA-1 of the sort field, as an integer. */
+async function fieldChecksum(text: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+  return parseInt(hex, 16);
+}
+
+const ANKI_SCHEMA = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+  conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null,
+  csum integer not null, flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null,
+  due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+  type integer not null
+);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const CARD_CSS = `.card { font-family: -apple-system, Arial, sans-serif; font-size: 20px; text-align: center; color: #111; background: #fff; }
+.phonetic { color: #888; font-size: 16px; margin-top: 4px; }
+.translation { font-weight: 600; }
+.example, .usage, .context { font-size: 16px; color: #555; margin-top: 10px; }`;
+
+const QUESTION_TEMPLATE =
+  '<div>{{Front}}</div>{{#Phonetic}}<div class="phonetic">{{Phonetic}}</div>{{/Phonetic}}';
+const ANSWER_TEMPLATE =
+  '{{FrontSide}}<hr id="answer"><div class="translation">{{Translation}}</div>' +
+  '{{#Definition}}<div>{{Definition}}</div>{{/Definition}}' +
+  '{{#Example}}<div class="example">{{Example}}</div>{{/Example}}' +
+  '{{#Native Usage}}<div class="usage">{{Native Usage}}</div>{{/Native Usage}}' +
+  '{{#Context}}<div class="context">{{Context}}</div>{{/Context}}';
+
+function collectionJSON(nowSec: number) {
+  const deck = (id: number, name: string) => ({
+    id,
+    name,
+    desc: '',
+    mod: nowSec,
+    usn: -1,
+    collapsed: false,
+    browserCollapsed: false,
+    dyn: 0,
+    conf: 1,
+    extendNew: 10,
+    extendRev: 50,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  });
+
+  const model = {
+    id: MODEL_ID,
+    name: 'SpeakSnap Flashcard',
+    type: 0,
+    mod: nowSec,
+    usn: -1,
+    sortf: 0,
+    did: DECK_ID,
+    tmpls: [
+      { name: 'Card 1', ord: 0, qfmt: QUESTION_TEMPLATE, afmt: ANSWER_TEMPLATE, did: null, bqfmt: '', bafmt: '' },
+    ],
+    flds: FIELD_NAMES.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    css: CARD_CSS,
+    latexPre:
+      '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n' +
+      '\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    tags: [],
+    vers: [],
+    req: [[0, 'any', [0]]],
+  };
+
+  return {
+    conf: {
+      nextPos: 1,
+      estTimes: true,
+      activeDecks: [1],
+      sortType: 'noteFld',
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: 1,
+      newBury: true,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: String(MODEL_ID),
+      collapseTime: 1200,
+    },
+    models: { [MODEL_ID]: model },
+    decks: { 1: deck(1, 'Default'), [DECK_ID]: deck(DECK_ID, DECK_NAME) },
+    dconf: {
+      1: {
+        id: 1,
+        name: 'Default',
+        mod: 0,
+        usn: 0,
+        maxTaken: 60,
+        autoplay: true,
+        timer: 0,
+        replayq: true,
+        dyn: false,
+        new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+        rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true, hardFactor: 1.2 },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+      },
+    },
+  };
+}
+
+/** Build an .apkg for `cards`. Cards arrive in Anki as new cards in the "SpeakSnap" deck. */
+export async function buildAnkiPackage(cards: Flashcard[]): Promise<Uint8Array> {
+  // asm.js build: no .wasm asset to host, and only loaded when someone exports
+  const initSqlJs = (await import('sql.js/dist/sql-asm.js')).default;
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    const now = Date.now();
+    const nowSec = Math.floor(now / 1000);
+    const { conf, models, decks, dconf } = collectionJSON(nowSec);
+
+    db.run(ANKI_SCHEMA);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      nowSec,
+      now,
+      now,
+      JSON.stringify(conf),
+      JSON.stringify(models),
+      JSON.stringify(decks),
+      JSON.stringify(dconf),
+      '{}',
+    ]);
+
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')');
+
+    for (let i = 0; i < cards.length; i++) {
+      const card = cards[i];
+      const fields = toFields(card).map(escapeHtml);
+      const id = now + i;
+      insertNote.run([
+        id,
+        `speaksnap-${card.id}`, // Stable guid: exporting the same card again updates the note
+        MODEL_ID,
+        nowSec,
+        ` ${toTags(card).join(' ')} `,
+        fields.join('\x1f'),
+        card.front,
+        await fieldChecksum(card.front),
+      ]);
+      insertCard.run([id, id, DECK_ID, nowSec, i + 1]);
+    }
+    insertNote.free();
+    insertCard.free();
+
+    return zipSync({
+      'collection.anki2': db.export(),
+      media: strToU8('{}'),
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** Export `cards` in the given format and trigger a browser download. */
+export async function downloadFlashcards(cards: Flashcard[], format: ExportFormat): Promise<void> {
+  const date = new Date().toISOString().slice(0, 10);
+  if (format === 'csv') {
+    downloadBlob(new Blob([flashcardsToCSV(cards)], { type: 'text/csv;charset=utf-8' }), `speaksnap-flashcards-${date}.csv`);
+    return;
+  }
+  const apkg = await buildAnkiPackage(cards);
+  downloadBlob(new Blob([apkg as Uint8Array<ArrayBuffer>], { type: 'application/octet-stream' }), `speaksnap-flashcards-${date}.apkg`);
+}
@@ -0,0 +1,175 @@
+/**
+ * Intonation comparison – turns the reference and learner pitch contours (from shadowAcoustics)
+ * into two time-aligned curves plus stress marks for the intonation chart.
+ * Pitch is in semitones relative to each speaker's median, so a low and a high voice compare fairly.
+ * Time is mapped onto the reference's timeline through word timings when available.
+ */
+
+import type { AcousticProfile, ShadowAcousticMetrics, ShadowWordAnalysis } from '@/lib/types';
+
+export interface IntonationPoint {
+  time: number; // seconds on the reference timeline
+  semitones: number;
+}
+
+export interface StressMark {
+  word: string;
+  time: number; // reference timeline
+  reference: number; // semitones at the stressed syllable
+  learner: number | null; // learner's peak over the same word, null if unvoiced
+  flat: boolean; // learner's rise is clearly smaller than the reference's
+}
+
+export interface IntonationComparison {
+  start: number; // spoken part of the reference timeline, seconds
+  end: number;
+  reference: IntonationPoint[][]; // voiced runs (gaps between runs are unvoiced)
+  learner: IntonationPoint[][];
+  stresses: StressMark[];
+  words: { word: string; time: number }[]; // word onsets on the reference timeline
+  rangeSemitones: { reference: number; learner: number };
+}
+
+// A stressed syllable rises at least this far above the speaker's median
+const STRESS_MIN_SEMITONES = 1;
+// Learner counts as flat when their peak is this much below the reference's
+const FLAT_MARGIN_SEMITONES = 2.5;
+
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by', 'from',
+  'is', 'am', 'are', 'was', 'were', 'be', 'it', 'its', 'i', 'you', 'he', 'she', 'we', 'they',
+  'me', 'him', 'her', 'us', 'them', 'my', 'your', 'his', 'our', 'their', 'this', 'that', 'as',
+]);
+
+function clean(word: string): string {
+  return word.toLowerCase().replace(/[^a-z']/g, '');
+}
+
+/** Contour in semitones around the speaker's median, with a 3-point median filter against jitter. */
+function toSemitones(profile: AcousticProfile): (number | null)[] {
+  const base = profile.pitchHz;
+  if (!base) return profile.pitchContour.map(() => null);
+  const st = profile.pitchContour.map((hz) => (hz ? 12 * Math.log2(hz / base) : null));
+  return st.map((v, i) => {
+    if (v === null) return null;
+    const neighbours = [st[i - 1], v, st[i + 1]].filter((x): x is number => x != null);
+    neighbours.sort((a, b) => a - b);
+    return neighbours[Math.floor(neighbours.length / 2)];
+  });
+}
+
+/** Monotonic anchor pairs [learnerTime, referenceTime] for piecewise-linear time mapping. */
+function timeAnchors(metrics: ShadowAcousticMetrics, words: ShadowWordAnalysis[] | null): [number, number][] {
+  const anchors: [number, number][] = [];
+  for (const w of words ?? []) {
+    if (typeof w.userStartTime === 'number' && typeof w.refStartTime === 'number') {
+      anchors.push([w.userStartTime, w.refStartTime]);
+    }
+  }
+  const last = words?.[words.length - 1];
+  if (last && typeof last.userEndTime === 'number' && typeof last.refEndTime === 'number') {
+    anchors.push([last.userEndTime, last.refEndTime]);
+  }
+  if (anchors.length < 2) {
+    const { user, reference } = metrics;
+    anchors.length = 0;
+    anchors.push([user.speechStart ?? 0, reference.speechStart ?? 0]);
+    anchors.push([user.speechEnd ?? user.duration, reference.speechEnd ?? reference.duration]);
+  }
+  // Drop anchors that would run time backwards
+  return anchors.filter((a, i) => i === 0 || (a[0] > anchors[i - 1][0] && a[1] > anchors[i - 1][1]));
+}
+
+function mapTime(t: number, anchors: [number, number][]): number {
+  if (anchors.length < 2) return t;
+  let i = 1;
+  while (i < anchors.length - 1 && t > anchors[i][0]) i++;
+  const [u0, r0] = anchors[i - 1];
+  const [u1, r1] = anchors[i];
+  return r0 + ((t - u0) * (r1 - r0)) / (u1 - u0 || 1);
+}
+
+/** Split a contour into voiced runs of points on the reference timeline. */
+function toRuns(st: (number | null)[], hop: number, map: (t: number) => number, duration: number): IntonationPoint[][] {
+  const runs: IntonationPoint[][] = [];
+  let current: IntonationPoint[] = [];
+  st.forEach((v, i) => {
+    const time = map(i * hop);
+    if (v === null || time < 0 || time > duration) {
+      if (current.length > 1) runs.push(current);
+      current = [];
+      return;
+    }
+    current.push({ time, semitones: v });
+  });
+  if (current.length > 1) runs.push(current);
+  return runs;
+}
+
+function peakIn(st: (number | null)[], hop: number, start: number, end: number): { index: number; value: number } | null {
+  let best: { index: number; value: number } | null = null;
+  for (let i = Math.max(0, Math.floor(start / hop)); i <= Math.min(st.length - 1, Math.ceil(end / hop)); i++) {
+    const v = st[i];
+    if (v != null && (!best || v > best.value)) best = { index: i, value: v };
+  }
+  return best;
+}
+
+function range(runs: IntonationPoint[][]): number {
+  const values = runs.flat().map((p) => p.semitones).sort((a, b) => a - b);
+  if (values.length < 2) return 0;
+  const low = values[Math.floor(values.length * 0.1)];
+  const high = values[Math.floor(values.length * 0.9)];
+  return Math.round((high - low) * 10) / 10;
+}
+
+/**
+ * Build the chart data. `words` should carry ref/user timings (see ensureWordTimings); without them
+ * the curves are aligned on speech start/end only and no stress marks are produced.
+ */
+export function buildIntonationComparison(
+  metrics: ShadowAcousticMetrics,
+  words: ShadowWordAnalysis[] | null
+): IntonationComparison {
+  const hop = metrics.pitchHopSec;
+  const duration = metrics.reference.duration;
+  const refSt = toSemitones(metrics.reference);
+  const userSt = toSemitones(metrics.user);
+  const anchors = timeAnchors(metrics, words);
+
+  const reference = toRuns(refSt, hop, (t) => t, duration);
+  const learner = toRuns(userSt, hop, (t) => mapTime(t, anchors), duration);
+
+  const timed = (words ?? []).filter(
+    (w) =>
+      typeof w.refStartTime === 'number' &&
+      typeof w.refEndTime === 'number' &&
+      typeof w.userStartTime === 'number' &&
+      typeof w.userEndTime === 'number'
+  );
+
+  const stresses: StressMark[] = [];
+  for (const w of timed) {
+    if (FUNCTION_WORDS.has(clean(w.word))) continue;
+    const refPeak = peakIn(refSt, hop, w.refStartTime!, w.refEndTime!);
+    if (!refPeak || refPeak.value < STRESS_MIN_SEMITONES) continue;
+    const userPeak = peakIn(userSt, hop, w.userStartTime!, w.userEndTime!);
+    stresses.push({
+      word: w.word,
+      time: refPeak.index * hop,
+      reference: refPeak.value,
+      learner: userPeak ? userPeak.value : null,
+      flat: !userPeak || userPeak.value < refPeak.value - FLAT_MARGIN_SEMITONES,
+    });
+  }
+
+  return {
+    start: metrics.reference.speechStart ?? 0,
+    end: metrics.reference.speechEnd ?? duration,
+    reference,
+    learner,
+    stresses,
+    words: timed.map((w) => ({ word: w.word, time: w.refStartTime! })),
+    rangeSemitones: { reference: range(reference), learner: range(learner) },
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Per-lesson voice overrides for the Textbook tab. Lessons without one use the voice from
+ * Plan Settings, or the textbook default (American male) when none is set.
+ */
+
+import { storage } from '@/lib/utils/storage';
+import { DEFAULT_TEXTBOOK_VOICE, parseVoicePreference } from '@/lib/constants/voices';
+import type { VoicePreference } from '@/lib/types';
+
+const STORAGE_KEY = 'textbook_lesson_voices';
+const SETTINGS_VOICE_KEY = 'speakSnapVoice';
+
+function lessonKey(courseId: string, lessonId: number): string {
+  return `${courseId}_${lessonId}`;
+}
+
+export async function getLessonVoice(courseId: string, lessonId: number): Promise<VoicePreference> {
+  const [overrides, saved] = await Promise.all([
+    storage.getItem<Record<string, VoicePreference>>(STORAGE_KEY, false),
+    storage.getItem<VoicePreference>(SETTINGS_VOICE_KEY, false),
+  ]);
+  const fallback = saved ? parseVoicePreference(saved, DEFAULT_TEXTBOOK_VOICE) : DEFAULT_TEXTBOOK_VOICE;
+  const override = overrides?.[lessonKey(courseId, lessonId)];
+  return override ? parseVoicePreference(override, fallback) : fallback;
+}
+
+export async function setLessonVoice(courseId: string, lessonId: number, voice: VoicePreference): Promise<void> {
+  const overrides = (await storage.getItem<Record<string, VoicePreference>>(STORAGE_KEY, false)) ?? {};
+  overrides[lessonKey(courseId, lessonId)] = voice;
+  await storage.setItem(STORAGE_KEY, overrides);
+}
@@ -0,0 +1,46 @@
+/**
+ * Gemini Live turns – the call replies by voice, so learner transcripts are scored afterwards by
+ * /api/dialogue/score with the same feedback and goal verdict typed turns get from /api/dialogue.
+ */
+
+import { apiFetch } from '@/lib/utils/api';
+import { buildScenarioContext } from '@/lib/utils/scenarioDifficulty';
+import type {
+  AiModelPreference,
+  DialogueLine,
+  DialogueTurnScore,
+  GoalProgress,
+  Scenario,
+  UserLevel,
+} from '@/lib/types';
+
+const HISTORY_MESSAGES = 20;
+
+/** `history` is the conversation before the learner's turn. */
+export async function scoreLiveTurn(
+  scenario: Pick<Scenario, 'context' | 'difficulty' | 'role_behavior'>,
+  history: DialogueLine[],
+  userText: string,
+  goals: GoalProgress[],
+  level: UserLevel,
+  model: AiModelPreference
+): Promise<DialogueTurnScore> {
+  const res = await apiFetch('/api/dialogue/score', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      history: history
+        .filter((m) => m.text.trim())
+        .slice(-HISTORY_MESSAGES)
+        .map((m) => ({ role: m.speaker === 'ai' ? 'model' : 'user', text: m.text })),
+      userText,
+      scenarioContext: buildScenarioContext(scenario),
+      goals,
+      level,
+      model,
+    }),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || 'Failed to score turn');
+  return data as DialogueTurnScore;
+}
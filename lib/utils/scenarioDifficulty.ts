@@ -0,0 +1,127 @@
+/**
+ * Scenario difficulty – "retry harder/easier". Past attempts decide the suggestion and the next
+ * CEFR step; /api/dialogue/adapt regenerates the opening, hints and role behaviour, which are saved
+ * on the scenario so every later dialogue (text or Live) plays at the new level.
+ */
+
+import { apiFetch } from '@/lib/utils/api';
+import { storage } from '@/lib/utils/storage';
+import type {
+  AiModelPreference,
+  DifficultyDirection,
+  Scenario,
+  ScenarioAdaptation,
+  ScenarioAttemptSummary,
+  UserLevel,
+} from '@/lib/types';
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const;
+const RECENT_ATTEMPTS = 3;
+/** Recent average at or above this suggests "harder"; below EASIER_BELOW suggests "easier". */
+const HARDER_FROM = 85;
+const EASIER_BELOW = 60;
+const MAX_RECURRING_ERRORS = 3;
+
+function cefrIndex(difficulty: string): number {
+  const match = difficulty.toUpperCase().match(/[ABC][12]/);
+  const index = match ? CEFR_LEVELS.indexOf(match[0] as (typeof CEFR_LEVELS)[number]) : -1;
+  return index === -1 ? CEFR_LEVELS.indexOf('B1') : index;
+}
+
+/** One CEFR step up or down, clamped to A1–C2; null when already at the end. */
+export function shiftCefr(difficulty: string, direction: DifficultyDirection): string | null {
+  const next = cefrIndex(difficulty) + (direction === 'harder' ? 1 : -1);
+  return next >= 0 && next < CEFR_LEVELS.length ? CEFR_LEVELS[next] : null;
+}
+
+export function summarizeAttempts(scenario: Scenario): ScenarioAttemptSummary {
+  const completed = (scenario.dialogues || [])
+    .filter((d) => d.is_completed)
+    .sort((a, b) => b.timestamp - a.timestamp);
+  const scores = completed.map((d) => d.average_score).filter((s): s is number => typeof s === 'number' && s > 0);
+  const recentScores = scores.slice(0, RECENT_ATTEMPTS);
+
+  const errorCounts = new Map<string, number>();
+  for (const d of completed) {
+    for (const group of d.report?.grammar_errors ?? []) {
+      errorCounts.set(group.type, (errorCounts.get(group.type) ?? 0) + group.count);
+    }
+  }
+
+  return {
+    attempts: completed.length,
+    averageScore: recentScores.length ? Math.round(recentScores.reduce((sum, s) => sum + s, 0) / recentScores.length) : 0,
+    recentScores,
+    recurringErrors: Array.from(errorCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_RECURRING_ERRORS)
+      .map(([type]) => type),
+    missedGoals: (completed[0]?.goals ?? []).filter((g) => g.status !== 'achieved').map((g) => g.goal),
+  };
+}
+
+/** Which retry to recommend from recent scores; null when there's nothing to go on or it's about right. */
+export function suggestDifficultyDirection(summary: ScenarioAttemptSummary): DifficultyDirection | null {
+  if (summary.recentScores.length === 0) return null;
+  if (summary.averageScore >= HARDER_FROM) return 'harder';
+  if (summary.averageScore < EASIER_BELOW) return 'easier';
+  return null;
+}
+
+/** Context sent with every dialogue turn: the scenario plus how to play it at the current difficulty. */
+export function buildScenarioContext(scenario: Pick<Scenario, 'context' | 'difficulty' | 'role_behavior'>): string {
+  if (!scenario.role_behavior) return scenario.context;
+  return `${scenario.context}\n\nDifficulty: ${scenario.difficulty} (CEFR)\nHow to play your role this time: ${scenario.role_behavior}`;
+}
+
+/** Regenerate the scenario one CEFR step harder or easier and save it. */
+export async function adaptScenario(
+  scenario: Scenario,
+  direction: DifficultyDirection,
+  level: UserLevel,
+  model: AiModelPreference
+): Promise<Scenario> {
+  const targetDifficulty = shiftCefr(scenario.difficulty, direction);
+  if (!targetDifficulty) {
+    throw new Error(direction === 'harder' ? 'This scenario is already at the hardest level.' : 'This scenario is already at the easiest level.');
+  }
+
+  const res = await apiFetch('/api/dialogue/adapt', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      scenario: {
+        location: scenario.location,
+        situation: scenario.situation,
+        role_name: scenario.role_name,
+        context: scenario.context,
+        goals: scenario.goals,
+        difficulty: scenario.difficulty,
+      },
+      summary: summarizeAttempts(scenario),
+      direction,
+      targetDifficulty,
+      level,
+      model,
+    }),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || 'Failed to adapt scenario');
+  const adaptation = data as ScenarioAdaptation;
+
+  const updated: Scenario = {
+    ...scenario,
+    difficulty: adaptation.difficulty,
+    first_line: adaptation.first_line,
+    user_hints: adaptation.user_hints,
+    role_behavior: adaptation.role_behavior,
+    last_practiced: Date.now(),
+  };
+  const scenarios = (await storage.getItem<Scenario[]>('speakSnapScenarios', false)) || [];
+  await storage.setItem(
+    'speakSnapScenarios',
+    scenarios.map((s) => (s.id === scenario.id ? updated : s))
+  );
+  console.log(`🎚️ Scenario ${scenario.id} adapted ${direction}: ${scenario.difficulty} → ${adaptation.difficulty}`);
+  return updated;
+}
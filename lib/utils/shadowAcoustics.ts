@@ -0,0 +1,273 @@
+/**
+ * Shadow Reading acoustic pre-analysis (DSP, no AI).
+ * Measures a take locally – duration, speech rate vs. the reference, pauses, loudness/clipping
+ * and pitch contour – so unusable recordings are rejected before anything is uploaded, and the
+ * AI's fluency/intonation feedback is grounded in numbers.
+ * Decoding needs the browser (AudioContext); describeAcousticMetrics is also used server-side.
+ */
+
+import type { AcousticProfile, ShadowAcousticMetrics } from '@/lib/types';
+
+/** Energy frame length in seconds (also used by word alignment). */
+export const FRAME_SEC = 0.01;
+/** Pitch contour resolution in seconds. */
+export const PITCH_HOP_SEC = 0.03;
+
+const PITCH_WINDOW_SEC = 0.04;
+const PITCH_MIN_HZ = 70;
+const PITCH_MAX_HZ = 400;
+// Decimate before autocorrelation; 16 kHz is plenty for F0 and keeps it fast
+const PITCH_SAMPLE_RATE = 16000;
+const MIN_PAUSE_SEC = 0.25;
+const CLIP_LEVEL = 0.99;
+
+/** Decode a (blob) URL to mono samples. Works for the TTS WAV and MediaRecorder webm/mp4. */
+export async function decodeAudioUrl(url: string): Promise<{ samples: Float32Array; sampleRate: number }> {
+  const data = await (await fetch(url)).arrayBuffer();
+  const ContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new ContextClass();
+  try {
+    const buffer = await ctx.decodeAudioData(data);
+    const samples = new Float32Array(buffer.length);
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+      const channel = buffer.getChannelData(ch);
+      for (let i = 0; i < channel.length; i++) samples[i] += channel[i] / buffer.numberOfChannels;
+    }
+    return { samples, sampleRate: buffer.sampleRate };
+  } finally {
+    ctx.close();
+  }
+}
+
+/** RMS energy per FRAME_SEC frame. */
+export function energyEnvelope(samples: Float32Array, sampleRate: number): Float32Array {
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SEC));
+  const env = new Float32Array(Math.ceil(samples.length / frameSize));
+  for (let f = 0; f < env.length; f++) {
+    let sum = 0;
+    const end = Math.min(samples.length, (f + 1) * frameSize);
+    for (let i = f * frameSize; i < end; i++) sum += samples[i] * samples[i];
+    env[f] = Math.sqrt(sum / frameSize);
+  }
+  return env;
+}
+
+/** Energy above which a frame counts as speech: 15% of the way from noise floor to peak. */
+export function speechThreshold(env: Float32Array): number {
+  const sorted = Array.from(env).sort((a, b) => a - b);
+  const floor = sorted[Math.floor(sorted.length * 0.1)] ?? 0;
+  const peak = sorted[sorted.length - 1] ?? 0;
+  return floor + (peak - floor) * 0.15;
+}
+
+/** First and last frame clearly above the noise floor (end exclusive). */
+export function voicedRange(env: Float32Array): [number, number] {
+  const threshold = speechThreshold(env);
+  const first = env.findIndex((v) => v > threshold);
+  let last = env.length - 1;
+  while (last > 0 && env[last] <= threshold) last--;
+  if (first < 0 || last <= first) return [0, env.length];
+  return [first, last + 1];
+}
+
+function toDb(value: number): number {
+  return value > 0 ? Math.max(-100, 20 * Math.log10(value)) : -100;
+}
+
+function round(value: number, digits = 2): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/** Silent gaps of at least MIN_PAUSE_SEC between the first and last spoken frame. */
+function findPauses(env: Float32Array, threshold: number, [start, end]: [number, number]) {
+  const pauses: { start: number; end: number }[] = [];
+  let gapStart = -1;
+  for (let f = start; f < end; f++) {
+    if (env[f] <= threshold) {
+      if (gapStart < 0) gapStart = f;
+    } else if (gapStart >= 0) {
+      if ((f - gapStart) * FRAME_SEC >= MIN_PAUSE_SEC) {
+        pauses.push({ start: round(gapStart * FRAME_SEC), end: round(f * FRAME_SEC) });
+      }
+      gapStart = -1;
+    }
+  }
+  return pauses;
+}
+
+function decimate(samples: Float32Array, sampleRate: number): { data: Float32Array; rate: number } {
+  const factor = Math.max(1, Math.floor(sampleRate / PITCH_SAMPLE_RATE));
+  if (factor === 1) return { data: samples, rate: sampleRate };
+  const data = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < data.length; i++) {
+    let sum = 0;
+    for (let k = 0; k < factor; k++) sum += samples[i * factor + k];
+    data[i] = sum / factor;
+  }
+  return { data, rate: sampleRate / factor };
+}
+
+/** F0 per PITCH_HOP_SEC by normalised autocorrelation; null for unvoiced or silent frames. */
+function pitchContour(samples: Float32Array, sampleRate: number, threshold: number): (number | null)[] {
+  const { data, rate } = decimate(samples, sampleRate);
+  const windowSize = Math.round(rate * PITCH_WINDOW_SEC);
+  const hop = Math.round(rate * PITCH_HOP_SEC);
+  const minLag = Math.floor(rate / PITCH_MAX_HZ);
+  const maxLag = Math.ceil(rate / PITCH_MIN_HZ);
+  const contour: (number | null)[] = [];
+
+  for (let start = 0; start + windowSize + maxLag + 1 <= data.length; start += hop) {
+    let energy = 0;
+    for (let i = start; i < start + windowSize; i++) energy += data[i] * data[i];
+    if (Math.sqrt(energy / windowSize) <= threshold) {
+      contour.push(null);
+      continue;
+    }
+
+    const corr = new Float32Array(maxLag + 2);
+    let maxCorr = 0;
+    for (let lag = minLag; lag <= maxLag + 1; lag++) {
+      let sum = 0;
+      let lagEnergy = 0;
+      for (let i = start; i < start + windowSize; i++) {
+        sum += data[i] * data[i + lag];
+        lagEnergy += data[i + lag] * data[i + lag];
+      }
+      corr[lag] = sum / Math.sqrt(energy * lagEnergy || 1);
+      if (lag <= maxLag) maxCorr = Math.max(maxCorr, corr[lag]);
+    }
+    // Multiples of the period correlate just as well; take the first peak close to the best
+    let bestLag = 0;
+    for (let lag = minLag + 1; lag <= maxLag; lag++) {
+      if (corr[lag] >= maxCorr * 0.9 && corr[lag] >= corr[lag - 1] && corr[lag] >= corr[lag + 1]) {
+        bestLag = lag;
+        break;
+      }
+    }
+    contour.push(maxCorr > 0.5 && bestLag > 0 ? round(rate / bestLag, 1) : null);
+  }
+  return contour;
+}
+
+/** Full acoustic profile of one recording. */
+export function profileSamples(samples: Float32Array, sampleRate: number): AcousticProfile {
+  const env = energyEnvelope(samples, sampleRate);
+  const threshold = speechThreshold(env);
+  const range = voicedRange(env);
+
+  let speechFrames = 0;
+  let speechEnergy = 0;
+  for (let f = range[0]; f < range[1]; f++) {
+    if (env[f] > threshold) {
+      speechFrames++;
+      speechEnergy += env[f] * env[f];
+    }
+  }
+
+  let peak = 0;
+  let clipped = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const a = Math.abs(samples[i]);
+    if (a > peak) peak = a;
+    if (a >= CLIP_LEVEL) clipped++;
+  }
+
+  const contour = pitchContour(samples, sampleRate, threshold);
+  const voiced = contour.filter((hz): hz is number => hz !== null);
+  const sortedPitch = [...voiced].sort((a, b) => a - b);
+  // 10th–90th percentile, so octave errors don't inflate the range
+  const low = sortedPitch[Math.floor(sortedPitch.length * 0.1)];
+  const high = sortedPitch[Math.floor(sortedPitch.length * 0.9)];
+
+  return {
+    duration: round(samples.length / sampleRate),
+    speechDuration: round(speechFrames * FRAME_SEC),
+    speechStart: round(range[0] * FRAME_SEC),
+    speechEnd: round(range[1] * FRAME_SEC),
+    pauses: findPauses(env, threshold, range),
+    loudnessDb: round(toDb(Math.sqrt(speechEnergy / Math.max(1, speechFrames))), 1),
+    peakDb: round(toDb(peak), 1),
+    clippingRatio: round(clipped / Math.max(1, samples.length), 4),
+    pitchHz: median(voiced),
+    pitchRangeSemitones: low && high ? round(12 * Math.log2(high / low), 1) : 0,
+    pitchContour: contour,
+  };
+}
+
+/** Profile the user's take against the reference. */
+export async function measureShadowTake(userAudioUrl: string, refAudioUrl: string): Promise<ShadowAcousticMetrics> {
+  const [user, ref] = await Promise.all([decodeAudioUrl(userAudioUrl), decodeAudioUrl(refAudioUrl)]);
+  const userProfile = profileSamples(user.samples, user.sampleRate);
+  const refProfile = profileSamples(ref.samples, ref.sampleRate);
+  return {
+    user: userProfile,
+    reference: refProfile,
+    speechRateRatio: refProfile.speechDuration > 0 ? round(userProfile.speechDuration / refProfile.speechDuration) : 0,
+    pitchHopSec: PITCH_HOP_SEC,
+  };
+}
+
+/**
+ * Reject takes the AI can't score meaningfully. Throws with a user-facing message.
+ * speechRateRatio is user/reference speaking time, so < 1 means faster (or missing words).
+ */
+export function assertUsableTake(metrics: ShadowAcousticMetrics): void {
+  const { user, speechRateRatio } = metrics;
+  if (user.speechDuration < 0.3 || user.loudnessDb < -50) {
+    throw new Error("We couldn't hear any speech. Check your microphone and try again.");
+  }
+  if (user.clippingRatio > 0.01) {
+    throw new Error('Your recording is distorted (too loud). Move a little further from the microphone and try again.');
+  }
+  if (speechRateRatio > 0 && speechRateRatio < 0.4) {
+    throw new Error('Your recording is much shorter than the reference. Read the whole passage, then analyze.');
+  }
+  if (speechRateRatio > 3) {
+    throw new Error('Your recording is much longer than the reference. Record just the passage, then analyze.');
+  }
+}
+
+/**
+ * Measure and vet a take before it is uploaded. Unusable takes throw (user-facing message);
+ * if the browser can't decode the audio, analysis goes ahead without metrics.
+ */
+export async function preAnalyzeTake(
+  userAudioUrl: string,
+  refAudioUrl: string
+): Promise<ShadowAcousticMetrics | undefined> {
+  let metrics: ShadowAcousticMetrics;
+  try {
+    metrics = await measureShadowTake(userAudioUrl, refAudioUrl);
+  } catch (e) {
+    console.warn('⚠️ Acoustic pre-analysis unavailable, skipping:', e);
+    return undefined;
+  }
+  assertUsableTake(metrics);
+  console.log(
+    `🎚️ Take: ${metrics.user.speechDuration}s speech (x${metrics.speechRateRatio} of reference), ` +
+      `${metrics.user.pauses.length} pauses, ${metrics.user.loudnessDb} dBFS`
+  );
+  return metrics;
+}
+
+/** Plain-text summary for the analysis prompt. Values come from the client, so coerce them. */
+export function describeAcousticMetrics(metrics: ShadowAcousticMetrics): string {
+  const n = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+  const pauses = (p: AcousticProfile) => (Array.isArray(p?.pauses) ? p.pauses.length : 0);
+  const { user, reference } = metrics;
+  return [
+    `Speaking time: student ${n(user?.speechDuration)}s vs reference ${n(reference?.speechDuration)}s ` +
+      `(ratio ${n(metrics.speechRateRatio)}; >1 means slower than the reference).`,
+    `Pauses over ${MIN_PAUSE_SEC}s: student ${pauses(user)} vs reference ${pauses(reference)}.`,
+    `Pitch range: student ${n(user?.pitchRangeSemitones)} semitones vs reference ${n(reference?.pitchRangeSemitones)} semitones ` +
+      `(median ${n(user?.pitchHz)} Hz vs ${n(reference?.pitchHz)} Hz).`,
+    `Student loudness: ${n(user?.loudnessDb)} dBFS.`,
+  ].join('\n');
+}
@@ -1,13 +1,15 @@
 /**
  * Shadow reading analysis history – persisted for user review.
- * Uses app storage (IndexedDB via localforage); no audio blobs/URLs.
+ * Uses app storage (IndexedDB via localforage); the learner's takes live in shadowRecordings.
  */
 
 import { storage } from '@/lib/utils/storage';
+import { pruneShadowRecordings, removeShadowRecording } from '@/lib/utils/shadowRecordings';
 import type { ShadowHistoryEntry, ShadowAnalysisResult } from '@/lib/types';
 
 const STORAGE_KEY = 'shadow_history';
-const MAX_ENTRIES = 50;
+/** Newest entries kept; older ones are dropped on write (and on archive import). */
+export const SHADOW_HISTORY_LIMIT = 50;
 
 export async function getShadowHistory(): Promise<ShadowHistoryEntry[]> {
   const list = await storage.getItem<ShadowHistoryEntry[]>(STORAGE_KEY, false);
@@ -17,18 +19,21 @@ export async function getShadowHistory(): Promise<ShadowHistoryEntry[]> {
 
 export async function addShadowHistoryEntry(
   challenge: { topic: string; text: string; sourceUrl?: string },
-  analysis: ShadowAnalysisResult
+  analysis: ShadowAnalysisResult,
+  refChallengeId?: string
 ): Promise<ShadowHistoryEntry> {
   const entry: ShadowHistoryEntry = {
     id: `shadow_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
     timestamp: Date.now(),
     challenge,
     analysis: { ...analysis },
+    ...(refChallengeId ? { refChallengeId } : {}),
   };
   const list = await getShadowHistory();
   list.unshift(entry);
-  const trimmed = list.slice(0, MAX_ENTRIES);
+  const trimmed = list.slice(0, SHADOW_HISTORY_LIMIT);
   await storage.setItem(STORAGE_KEY, trimmed);
+  if (trimmed.length < list.length) await pruneShadowRecordings(trimmed.map((e) => e.id));
   return entry;
 }
 
@@ -37,4 +42,5 @@ export async function removeShadowHistoryEntry(id: string): Promise<void> {
   const filtered = list.filter((e) => e.id !== id);
   if (filtered.length === list.length) return;
   await storage.setItem(STORAGE_KEY, filtered);
+  await removeShadowRecording(id);
 }
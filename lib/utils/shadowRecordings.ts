@@ -0,0 +1,120 @@
+/**
+ * Shadow recordings – the learner's take for each shadow history entry, kept as a Blob in IndexedDB
+ * (via localforage) so past analyses can be replayed. On by default with a size quota; the oldest
+ * takes are pruned first, and takes whose history entry is gone are dropped.
+ */
+
+import { storage } from '@/lib/utils/storage';
+import type { RecordingSettings } from '@/lib/types';
+
+const INDEX_KEY = 'shadow_recordings';
+const BLOB_PREFIX = 'shadow_recording_';
+export const RECORDING_SETTINGS_KEY = 'speakSnapRecordings';
+export const RECORDING_QUOTA_OPTIONS_MB = [25, 50, 100, 250];
+export const DEFAULT_RECORDING_SETTINGS: RecordingSettings = { enabled: true, quotaMb: 50 };
+
+/** Index entry; the Blob lives under its own key so the index stays small. */
+interface RecordingInfo {
+  entryId: string;
+  mimeType: string;
+  size: number;
+  timestamp: number;
+}
+
+let indexLock: Promise<unknown> = Promise.resolve();
+
+/** Read-modify-write of the index, serialized so a save and a prune can't overwrite each other. */
+function updateIndex<T>(fn: (list: RecordingInfo[]) => Promise<{ list: RecordingInfo[]; result: T }>): Promise<T> {
+  const run = indexLock.then(async () => {
+    const saved = await storage.getItem<RecordingInfo[]>(INDEX_KEY, false);
+    const { list, result } = await fn(Array.isArray(saved) ? saved : []);
+    await storage.setItem(INDEX_KEY, list);
+    return result;
+  });
+  indexLock = run.catch(() => {});
+  return run;
+}
+
+/** Drop takes that aren't in `keep`, then the oldest until the total fits `quotaBytes`. */
+async function prune(list: RecordingInfo[], quotaBytes: number, keep?: Set<string>): Promise<RecordingInfo[]> {
+  const newestFirst = list
+    .filter((r) => !keep || keep.has(r.entryId))
+    .sort((a, b) => b.timestamp - a.timestamp);
+  const kept: RecordingInfo[] = [];
+  let total = 0;
+  for (const r of newestFirst) {
+    if (total + r.size > quotaBytes) continue;
+    kept.push(r);
+    total += r.size;
+  }
+  const keptIds = new Set(kept.map((r) => r.entryId));
+  for (const r of list) {
+    if (!keptIds.has(r.entryId)) await storage.removeItem(`${BLOB_PREFIX}${r.entryId}`);
+  }
+  if (kept.length < list.length) console.log(`🗂️ Pruned ${list.length - kept.length} shadow recordings`);
+  return kept;
+}
+
+export async function getRecordingSettings(): Promise<RecordingSettings> {
+  const saved = await storage.getItem<Partial<RecordingSettings>>(RECORDING_SETTINGS_KEY, false);
+  return {
+    enabled: typeof saved?.enabled === 'boolean' ? saved.enabled : DEFAULT_RECORDING_SETTINGS.enabled,
+    quotaMb:
+      typeof saved?.quotaMb === 'number' && saved.quotaMb > 0 ? saved.quotaMb : DEFAULT_RECORDING_SETTINGS.quotaMb,
+  };
+}
+
+/** Save settings and apply them right away: turning recording off deletes every stored take. */
+export async function saveRecordingSettings(settings: RecordingSettings): Promise<void> {
+  await storage.setItem(RECORDING_SETTINGS_KEY, settings);
+  await updateIndex(async (list) => ({
+    list: await prune(list, settings.enabled ? settings.quotaMb * 1024 * 1024 : 0),
+    result: undefined,
+  }));
+}
+
+/** Store the take for a history entry; returns false when recording is off or the take exceeds the quota. */
+export async function saveShadowRecording(entryId: string, blob: Blob): Promise<boolean> {
+  const { enabled, quotaMb } = await getRecordingSettings();
+  const quotaBytes = quotaMb * 1024 * 1024;
+  if (!enabled || blob.size === 0 || blob.size > quotaBytes) return false;
+  try {
+    if (!(await storage.setItem(`${BLOB_PREFIX}${entryId}`, blob))) return false;
+    await updateIndex(async (list) => {
+      const info: RecordingInfo = { entryId, mimeType: blob.type, size: blob.size, timestamp: Date.now() };
+      return { list: await prune([...list.filter((r) => r.entryId !== entryId), info], quotaBytes), result: undefined };
+    });
+    return true;
+  } catch (e) {
+    console.warn('Shadow recording write failed:', e);
+    return false;
+  }
+}
+
+export async function getShadowRecording(entryId: string): Promise<Blob | null> {
+  const blob = await storage.getItem<Blob>(`${BLOB_PREFIX}${entryId}`, false);
+  return blob instanceof Blob ? blob : null;
+}
+
+export async function removeShadowRecording(entryId: string): Promise<void> {
+  await updateIndex(async (list) => {
+    await storage.removeItem(`${BLOB_PREFIX}${entryId}`);
+    return { list: list.filter((r) => r.entryId !== entryId), result: undefined };
+  });
+}
+
+/** Keep only takes for these history entries (called after the history is trimmed). */
+export async function pruneShadowRecordings(entryIds: string[]): Promise<void> {
+  const { enabled, quotaMb } = await getRecordingSettings();
+  await updateIndex(async (list) => ({
+    list: await prune(list, enabled ? quotaMb * 1024 * 1024 : 0, new Set(entryIds)),
+    result: undefined,
+  }));
+}
+
+/** Stored take count and total size, for the settings screen. */
+export async function getRecordingUsage(): Promise<{ count: number; bytes: number }> {
+  const list = await storage.getItem<RecordingInfo[]>(INDEX_KEY, false);
+  if (!Array.isArray(list)) return { count: 0, bytes: 0 };
+  return { count: list.length, bytes: list.reduce((sum, r) => sum + r.size, 0) };
+}
@@ -0,0 +1,113 @@
+/**
+ * Shadow trends – aggregates shadow_history into score-over-time, problem words, problem
+ * phonemes and recurring coach weaknesses for the trends view.
+ */
+
+import type { ShadowHistoryEntry } from '@/lib/types';
+
+export interface ScorePoint {
+  timestamp: number;
+  score: number;
+}
+
+export interface ProblemWord {
+  word: string;
+  poor: number;
+  average: number;
+  /** Most recent issue the coach gave for this word. */
+  issue?: string;
+  phonetic?: string;
+}
+
+export interface CountedItem {
+  label: string;
+  count: number;
+}
+
+export interface ShadowTrends {
+  scores: ScorePoint[]; // oldest first
+  averageScore: number;
+  /** Average of the last TREND_WINDOW sessions minus the window before; null with too few sessions. */
+  recentChange: number | null;
+  problemWords: ProblemWord[];
+  phonemes: CountedItem[];
+  weaknesses: CountedItem[];
+}
+
+const TREND_WINDOW = 5;
+const MAX_PROBLEM_WORDS = 12;
+const MAX_PHONEMES = 8;
+const MAX_WEAKNESSES = 6;
+// Short IPA segments quoted in issues, e.g. "/θ/ sounded like /s/"
+const PHONEME_RE = /\/([^/\s]{1,4})\//g;
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/^[^a-z']+|[^a-z']+$/g, '');
+}
+
+function average(values: number[]): number {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function topCounts(counts: Map<string, CountedItem>, limit: number): CountedItem[] {
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+}
+
+export function buildShadowTrends(entries: ShadowHistoryEntry[]): ShadowTrends {
+  const ordered = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+  const scores = ordered.map((e) => ({ timestamp: e.timestamp, score: e.analysis.score }));
+  const values = scores.map((p) => p.score);
+
+  const recentChange =
+    values.length >= TREND_WINDOW * 2
+      ? Math.round(average(values.slice(-TREND_WINDOW)) - average(values.slice(-TREND_WINDOW * 2, -TREND_WINDOW)))
+      : null;
+
+  const words = new Map<string, ProblemWord>();
+  const phonemes = new Map<string, CountedItem>();
+  const weaknesses = new Map<string, CountedItem>();
+
+  for (const entry of ordered) {
+    for (const w of entry.analysis.words ?? []) {
+      if (w.status === 'good') continue;
+      const key = normalizeWord(w.word);
+      if (!key) continue;
+      const current = words.get(key) ?? { word: key, poor: 0, average: 0 };
+      if (w.status === 'poor') current.poor += 1;
+      else current.average += 1;
+      if (w.issue) current.issue = w.issue;
+      if (w.phonetic) current.phonetic = w.phonetic;
+      words.set(key, current);
+
+      // Count each phoneme once per word issue; the first one named is usually the target sound
+      const named = new Set(Array.from(w.issue?.matchAll(PHONEME_RE) ?? [], (m) => m[1]));
+      for (const phoneme of named) {
+        const item = phonemes.get(phoneme) ?? { label: `/${phoneme}/`, count: 0 };
+        item.count += 1;
+        phonemes.set(phoneme, item);
+      }
+    }
+
+    for (const weakness of entry.analysis.pronunciation?.weaknesses ?? []) {
+      const key = weakness.toLowerCase().replace(/[.!]+$/, '').trim();
+      if (!key) continue;
+      const item = weaknesses.get(key) ?? { label: weakness.replace(/[.!]+$/, '').trim(), count: 0 };
+      item.count += 1;
+      weaknesses.set(key, item);
+    }
+  }
+
+  return {
+    scores,
+    averageScore: Math.round(average(values)),
+    recentChange,
+    // Poor counts double: a word that is always "average" matters less than one that keeps failing
+    problemWords: Array.from(words.values())
+      .sort((a, b) => b.poor * 2 + b.average - (a.poor * 2 + a.average))
+      .slice(0, MAX_PROBLEM_WORDS),
+    phonemes: topCounts(phonemes, MAX_PHONEMES),
+    weaknesses: topCounts(weaknesses, MAX_WEAKNESSES),
+  };
+}
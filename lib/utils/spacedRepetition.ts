@@ -0,0 +1,161 @@
+/**
+ * Spaced repetition scheduler for flashcards (SM-2 variant).
+ * Pure functions only; FlashcardDeck persists the returned cards.
+ */
+
+import type { Flashcard, FlashcardReview, ReviewGrade } from '@/lib/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // "Again" shows the card again in 10 minutes
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_INTERVAL_DAYS = 365;
+
+/** Max never-reviewed cards introduced into one day's queue. */
+export const NEW_CARDS_PER_DAY = 20;
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export function createReviewState(now = Date.now()): FlashcardReview {
+  return {
+    due: now,
+    ease: DEFAULT_EASE,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+  };
+}
+
+/** Compute the next review state for a grade without touching the card. */
+export function nextReviewState(
+  review: FlashcardReview | undefined,
+  grade: ReviewGrade,
+  now = Date.now()
+): FlashcardReview {
+  const prev = review ?? createReviewState(now);
+  let { ease, interval, repetitions, lapses } = prev;
+  // Cards graded before first_reviewed existed keep it unset (they never count as new today)
+  const first_reviewed = review ? review.first_reviewed : now;
+
+  switch (grade) {
+    case 'again':
+      if (repetitions > 0) lapses += 1;
+      ease = Math.max(MIN_EASE, ease - 0.2);
+      return {
+        due: now + RELEARN_DELAY_MS,
+        ease,
+        interval: 0,
+        repetitions: 0,
+        lapses,
+        last_reviewed: now,
+        ...(first_reviewed !== undefined ? { first_reviewed } : {}),
+      };
+    case 'hard':
+      ease = Math.max(MIN_EASE, ease - 0.15);
+      interval = repetitions === 0 ? 1 : Math.max(interval + 1, Math.round(interval * 1.2));
+      break;
+    case 'good':
+      interval =
+        repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * ease);
+      break;
+    case 'easy':
+      ease += 0.15;
+      interval =
+        repetitions === 0 ? 4 : Math.max(interval + 1, Math.round(interval * ease * 1.3));
+      break;
+  }
+
+  interval = Math.min(interval, MAX_INTERVAL_DAYS);
+  return {
+    due: now + interval * DAY_MS,
+    ease,
+    interval,
+    repetitions: repetitions + 1,
+    lapses,
+    last_reviewed: now,
+    ...(first_reviewed !== undefined ? { first_reviewed } : {}),
+  };
+}
+
+/** Return a copy of the card rescheduled according to the grade. */
+export function gradeCard(card: Flashcard, grade: ReviewGrade, now = Date.now()): Flashcard {
+  return { ...card, review: nextReviewState(card.review, grade, now) };
+}
+
+function startOfDay(now: number): number {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+function endOfDay(now: number): number {
+  const d = new Date(now);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+}
+
+/** Cards graded for the first time today – they already used part of today's new-card allowance. */
+function countNewCardsStartedToday(cards: Flashcard[], now = Date.now()): number {
+  const since = startOfDay(now);
+  return cards.filter((c) => (c.review?.first_reviewed ?? 0) >= since).length;
+}
+
+function newCardsLeftToday(cards: Flashcard[], now: number, newLimit: number): number {
+  return Math.max(0, newLimit - countNewCardsStartedToday(cards, now));
+}
+
+export function isNewCard(card: Flashcard): boolean {
+  return !card.review;
+}
+
+/** A card is due today if it was scheduled for any time before midnight. */
+export function isDueToday(card: Flashcard, now = Date.now()): boolean {
+  return !!card.review && card.review.due <= endOfDay(now);
+}
+
+/**
+ * Build today's review queue: overdue/due cards first (oldest due first),
+ * then new cards in the order they were saved (oldest first), up to what is left of
+ * `newLimit` after the cards already started today.
+ */
+export function getDueQueue(
+  cards: Flashcard[],
+  now = Date.now(),
+  newLimit = NEW_CARDS_PER_DAY
+): Flashcard[] {
+  const due = cards
+    .filter((c) => isDueToday(c, now))
+    .sort((a, b) => a.review!.due - b.review!.due);
+  const fresh = cards
+    .filter(isNewCard)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(0, newCardsLeftToday(cards, now, newLimit));
+  return [...due, ...fresh];
+}
+
+export function getReviewStats(cards: Flashcard[], now = Date.now()) {
+  const newCount = cards.filter(isNewCard).length;
+  const dueCount = cards.filter((c) => isDueToday(c, now)).length;
+  return {
+    due: dueCount,
+    new: Math.min(newCount, newCardsLeftToday(cards, now, NEW_CARDS_PER_DAY)),
+    learned: cards.length - newCount,
+    total: cards.length,
+  };
+}
+
+/** Short label for the interval a grade would produce, e.g. "10m", "3d", "2mo". */
+export function formatNextInterval(
+  review: FlashcardReview | undefined,
+  grade: ReviewGrade,
+  now = Date.now()
+): string {
+  const next = nextReviewState(review, grade, now);
+  const ms = next.due - now;
+  if (ms < DAY_MS) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round((days / 365) * 10) / 10}y`;
+}
@@ -0,0 +1,47 @@
+/**
+ * Minimal server-sent events reader for fetch() responses (EventSource only supports GET).
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+function parseFrame(frame: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+  }
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+/** Read the response body to the end, calling `onEvent` for each complete event. */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  if (!response.body) throw new Error('Response has no body to stream');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const parsed = parseFrame(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) onEvent(parsed);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  const tail = parseFrame(buffer.trim());
+  if (tail) onEvent(tail);
+}
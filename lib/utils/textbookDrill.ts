@@ -0,0 +1,86 @@
+/**
+ * Textbook sentence drill – splits a lesson into sentences for shadowing one at a time and
+ * rolls the per-sentence analyses up into a single lesson result.
+ */
+
+import type { ShadowAnalysisResult } from '@/lib/types';
+
+export interface DrillSentenceResult {
+  index: number;
+  sentence: string;
+  analysis: ShadowAnalysisResult;
+}
+
+// Full stops that don't end a sentence
+const ABBREVIATION = /\b(Mr|Mrs|Ms|Dr|St|Mt|Jr|Sr|Prof|etc|e\.g|i\.e|a\.m|p\.m)\.$/i;
+// Fragments shorter than this ("he said.") are attached to the previous sentence
+const MIN_SENTENCE_WORDS = 3;
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/** Split lesson text into sentences, keeping closing quotes and "he said" tails with their sentence. */
+export function splitSentences(text: string): string[] {
+  const parts = text.replace(/\s+/g, ' ').match(/[^.!?]+(?:[.!?]+["'’”)]*|$)/g) ?? [];
+  const sentences: string[] = [];
+  for (const raw of parts) {
+    const part = raw.trim();
+    if (!part) continue;
+    const previous = sentences[sentences.length - 1];
+    if (previous && (ABBREVIATION.test(previous) || wordCount(part) < MIN_SENTENCE_WORDS)) {
+      sentences[sentences.length - 1] = `${previous} ${part}`;
+    } else {
+      sentences.push(part);
+    }
+  }
+  return sentences;
+}
+
+function dedupe(items: string[], limit: number): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const item of items) {
+    const key = item.trim().toLowerCase();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    out.push(item.trim());
+    if (out.length >= limit) break;
+  }
+  return out;
+}
+
+/**
+ * Lesson result from the sentence results: score weighted by sentence length, words in reading
+ * order, and the coach's comments taken from the weakest sentences (where the advice matters most).
+ */
+export function rollUpDrillResults(results: DrillSentenceResult[]): ShadowAnalysisResult {
+  const ordered = [...results].sort((a, b) => a.index - b.index);
+  const weights = ordered.map((r) => Math.max(1, r.analysis.words.length));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const score = totalWeight
+    ? Math.round(ordered.reduce((sum, r, i) => sum + r.analysis.score * weights[i], 0) / totalWeight)
+    : 0;
+
+  const weakest = [...ordered].sort((a, b) => a.analysis.score - b.analysis.score);
+  const strongest = [...weakest].reverse();
+  const sentenceLabel = (r: DrillSentenceResult) => `Sentence ${r.index + 1} (${r.analysis.score})`;
+
+  return {
+    score,
+    words: ordered.flatMap((r) => r.analysis.words.map(({ word, status, phonetic, issue }) => ({ word, status, phonetic, issue }))),
+    fluency: weakest
+      .slice(0, 2)
+      .map((r) => `${sentenceLabel(r)}: ${r.analysis.fluency}`)
+      .join(' '),
+    intonation: weakest
+      .slice(0, 2)
+      .map((r) => `${sentenceLabel(r)}: ${r.analysis.intonation}`)
+      .join(' '),
+    pronunciation: {
+      strengths: dedupe(strongest.flatMap((r) => r.analysis.pronunciation?.strengths ?? []), 5),
+      weaknesses: dedupe(weakest.flatMap((r) => r.analysis.pronunciation?.weaknesses ?? []), 5),
+    },
+    suggestions: weakest[0]?.analysis.suggestions ?? '',
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Textbook progress – every lesson attempt, persisted per course/lesson for the lesson list
+ * (best score, attempt count, completion) and the "resume where I left off" entry point.
+ * Uses app storage (IndexedDB via localforage); no audio.
+ */
+
+import { storage } from '@/lib/utils/storage';
+import type { ShadowAnalysisResult, TextbookAttempt } from '@/lib/types';
+
+const STORAGE_KEY = 'textbook_progress';
+/** Newest entries kept; older ones are dropped on write (and on archive import). */
+export const TEXTBOOK_PROGRESS_LIMIT = 500;
+const MAX_WEAK_WORDS = 20;
+/** Best score at or above this marks a lesson as completed. */
+export const LESSON_COMPLETE_SCORE = 80;
+
+export interface LessonProgress {
+  bestScore: number;
+  attempts: number;
+  lastAttemptAt: number;
+  completed: boolean;
+}
+
+export async function getTextbookAttempts(): Promise<TextbookAttempt[]> {
+  const list = await storage.getItem<TextbookAttempt[]>(STORAGE_KEY, false);
+  if (!Array.isArray(list)) return [];
+  return list.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function addTextbookAttempt(
+  lesson: { courseId: string; lessonId: number; lessonTitle: string },
+  analysis: ShadowAnalysisResult,
+  mode: TextbookAttempt['mode']
+): Promise<TextbookAttempt> {
+  const weakWords: TextbookAttempt['weakWords'] = [];
+  for (const w of analysis.words) {
+    if (w.status === 'good') continue;
+    weakWords.push({ word: w.word, status: w.status, ...(w.issue ? { issue: w.issue } : {}) });
+    if (weakWords.length >= MAX_WEAK_WORDS) break;
+  }
+  const entry: TextbookAttempt = {
+    id: `textbook_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+    timestamp: Date.now(),
+    ...lesson,
+    mode,
+    score: analysis.score,
+    weakWords,
+    weaknesses: analysis.pronunciation?.weaknesses ?? [],
+  };
+  const list = await getTextbookAttempts();
+  list.unshift(entry);
+  await storage.setItem(STORAGE_KEY, list.slice(0, TEXTBOOK_PROGRESS_LIMIT));
+  console.log(`📚 Textbook attempt saved: ${lesson.courseId} lesson ${lesson.lessonId} (${analysis.score})`);
+  return entry;
+}
+
+/** Best score / attempt count / completion per lesson of one course. */
+export function summarizeCourseProgress(attempts: TextbookAttempt[], courseId: string): Map<number, LessonProgress> {
+  const byLesson = new Map<number, LessonProgress>();
+  for (const a of attempts) {
+    if (a.courseId !== courseId) continue;
+    const prev = byLesson.get(a.lessonId);
+    const bestScore = Math.max(prev?.bestScore ?? 0, a.score);
+    byLesson.set(a.lessonId, {
+      bestScore,
+      attempts: (prev?.attempts ?? 0) + 1,
+      lastAttemptAt: Math.max(prev?.lastAttemptAt ?? 0, a.timestamp),
+      completed: bestScore >= LESSON_COMPLETE_SCORE,
+    });
+  }
+  return byLesson;
+}
+
+/**
+ * Where to pick up: the most recently practised lesson, or the next uncompleted one after it once
+ * it's completed. Returns null when there's nothing to resume.
+ */
+export function getResumeLesson(
+  attempts: TextbookAttempt[],
+  courses: { id: string; lessons: { id: number }[] }[]
+): { courseId: string; lessonId: number } | null {
+  const latest = attempts.reduce<TextbookAttempt | null>((acc, a) => (!acc || a.timestamp > acc.timestamp ? a : acc), null);
+  if (!latest) return null;
+  const lessonIds = courses.find((c) => c.id === latest.courseId)?.lessons.map((l) => l.id);
+  if (!lessonIds?.includes(latest.lessonId)) return null;
+
+  const progress = summarizeCourseProgress(attempts, latest.courseId);
+  if (!progress.get(latest.lessonId)?.completed) return { courseId: latest.courseId, lessonId: latest.lessonId };
+  const next = lessonIds.slice(lessonIds.indexOf(latest.lessonId) + 1).find((id) => !progress.get(id)?.completed);
+  return next !== undefined ? { courseId: latest.courseId, lessonId: next } : null;
+}
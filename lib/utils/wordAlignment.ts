@@ -0,0 +1,145 @@
+/**
+ * Word-level alignment for shadow analysis – maps each analysed word to a time span in the
+ * reference and user recordings so a single word can be replayed.
+ * Model timestamps are used when they are plausible; otherwise a local energy-based forced
+ * alignment places the known words over the voiced part of the decoded audio.
+ */
+
+import type { ShadowWordAnalysis } from '@/lib/types';
+import { FRAME_SEC, decodeAudioUrl, energyEnvelope, voicedRange } from '@/lib/utils/shadowAcoustics';
+
+export interface WordSpan {
+  start: number;
+  end: number;
+}
+
+// How far (seconds) a proportional boundary may move to land on a quieter frame
+const SNAP_SEC = 0.12;
+// Extra weight for the pause after a comma / sentence end, in syllables
+const PAUSE_WEIGHT = 0.6;
+// Padding around a clip so word onsets and releases aren't cut off
+const CLIP_PADDING_SEC = 0.06;
+
+/** Rough syllable count: vowel groups, at least one. */
+function syllableWeight(word: string): number {
+  const groups = word.toLowerCase().replace(/e\b/, '').match(/[aeiouy]+/g);
+  return Math.max(1, groups?.length ?? 0);
+}
+
+/**
+ * Spread `words` over the voiced span in proportion to their syllable weight, then snap each
+ * interior boundary to the quietest nearby frame (the gap between words).
+ */
+function alignToEnvelope(words: string[], env: Float32Array): WordSpan[] {
+  if (words.length === 0) return [];
+  const [voicedStart, voicedEnd] = voicedRange(env);
+
+  // Units are words and the pauses after punctuation; only words get spans
+  const units: { word: number | null; weight: number }[] = [];
+  words.forEach((word, i) => {
+    units.push({ word: i, weight: syllableWeight(word) });
+    if (i < words.length - 1 && /[,.;:!?]$/.test(word)) units.push({ word: null, weight: PAUSE_WEIGHT });
+  });
+  const total = units.reduce((sum, u) => sum + u.weight, 0);
+
+  const snap = Math.round(SNAP_SEC / FRAME_SEC);
+  const bounds = [voicedStart];
+  if (units.length > voicedEnd - voicedStart) {
+    // Fewer voiced frames than units: even fractional spacing, no snapping
+    const step = (voicedEnd - voicedStart) / units.length;
+    for (let u = 1; u < units.length; u++) bounds.push(voicedStart + u * step);
+  } else {
+    let cumulative = 0;
+    for (let u = 0; u < units.length - 1; u++) {
+      cumulative += units[u].weight;
+      const guess = Math.round(voicedStart + (cumulative / total) * (voicedEnd - voicedStart));
+      // Leave at least one frame for this unit and for each one still to come
+      const lo = Math.max(bounds[bounds.length - 1] + 1, guess - snap);
+      const max = voicedEnd - (units.length - 1 - u);
+      const hi = Math.min(max, guess + snap);
+      let best = Math.min(Math.max(guess, lo), max);
+      for (let f = lo; f <= hi; f++) if (env[f] < env[best]) best = f;
+      bounds.push(best);
+    }
+  }
+  bounds.push(voicedEnd);
+
+  const spans: WordSpan[] = [];
+  units.forEach((unit, u) => {
+    if (unit.word !== null) spans[unit.word] = { start: bounds[u] * FRAME_SEC, end: bounds[u + 1] * FRAME_SEC };
+  });
+  return spans;
+}
+
+/** Local forced alignment of known words against a recording. */
+export async function alignWordsToAudio(words: string[], audioUrl: string): Promise<{ spans: WordSpan[]; duration: number }> {
+  const { samples, sampleRate } = await decodeAudioUrl(audioUrl);
+  return { spans: alignToEnvelope(words, energyEnvelope(samples, sampleRate)), duration: samples.length / sampleRate };
+}
+
+/** Model timestamps are usable when every word has an ordered span inside the recording. */
+function modelSpans(words: ShadowWordAnalysis[], side: 'ref' | 'user', duration: number): WordSpan[] | null {
+  const spans: WordSpan[] = [];
+  let previousStart = -1;
+  for (const w of words) {
+    const start = side === 'ref' ? w.refStartTime : w.userStartTime;
+    const end = side === 'ref' ? w.refEndTime : w.userEndTime;
+    if (typeof start !== 'number' || typeof end !== 'number') return null;
+    if (end <= start || start < previousStart || end > duration + 0.5) return null;
+    previousStart = start;
+    spans.push({ start, end: Math.min(end, duration) });
+  }
+  return spans;
+}
+
+/**
+ * Fill in ref/user timestamps for every word: keep the model's when plausible for that recording,
+ * otherwise align locally. Returns new word objects; the input is not modified.
+ */
+export async function ensureWordTimings(
+  words: ShadowWordAnalysis[],
+  refAudioUrl: string,
+  userAudioUrl: string
+): Promise<ShadowWordAnalysis[]> {
+  const texts = words.map((w) => w.word);
+  const [ref, user] = await Promise.all([alignWordsToAudio(texts, refAudioUrl), alignWordsToAudio(texts, userAudioUrl)]);
+  const refSpans = modelSpans(words, 'ref', ref.duration) ?? ref.spans;
+  const userSpans = modelSpans(words, 'user', user.duration) ?? user.spans;
+
+  return words.map((w, i) => ({
+    ...w,
+    refStartTime: refSpans[i].start,
+    refEndTime: refSpans[i].end,
+    userStartTime: userSpans[i].start,
+    userEndTime: userSpans[i].end,
+  }));
+}
+
+/** Play `url` from `start` to `end` seconds (padded slightly). Resolves when done or aborted. */
+export function playClip(url: string, start: number, end: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const audio = new Audio(url);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const finish = () => {
+      clearTimeout(timer);
+      audio.pause();
+      signal?.removeEventListener('abort', finish);
+      resolve();
+    };
+    signal?.addEventListener('abort', finish);
+    audio.onended = finish;
+    audio.onerror = finish;
+    audio.onloadedmetadata = () => {
+      const from = Math.max(0, start - CLIP_PADDING_SEC);
+      audio.currentTime = from;
+      audio
+        .play()
+        .then(() => {
+          // timeupdate fires only every ~250ms, too coarse for one word
+          timer = setTimeout(finish, (end + CLIP_PADDING_SEC - from) * 1000);
+        })
+        .catch(finish);
+    };
+  });
+}
@@ -0,0 +1,5 @@
+// sql.js asm.js build: same API as the default entry, but no .wasm file to serve
+declare module 'sql.js/dist/sql-asm.js' {
+  import initSqlJs from 'sql.js';
+  export default initSqlJs;
+}